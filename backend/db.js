@@ -47,6 +47,12 @@ async function initialize() {
       ALTER TABLE user_preferences
       ADD COLUMN IF NOT EXISTS saved_items JSONB DEFAULT '[]'
     `);
+
+    // Per-user insert placement (mode, grid columns, gap)
+    await client.query(`
+      ALTER TABLE user_preferences
+      ADD COLUMN IF NOT EXISTS insert_placement JSONB DEFAULT NULL
+    `);
     
     // Data backups table - stores automatic backups on every change
     await client.query(`
@@ -226,7 +232,8 @@ async function getUserPreferences(figmaUserId) {
     default_cloud: null,
     onboarding_completed: false,
     skip_splash: false,
-    hidden_clouds: []
+    hidden_clouds: [],
+    insert_placement: null
   };
 }
 
@@ -261,7 +268,7 @@ async function updateUserPreference(figmaUserId, field, value) {
   // Ensure user exists first
   await getUserPreferences(figmaUserId);
   
-  const allowedFields = ['default_cloud', 'onboarding_completed', 'skip_splash', 'hidden_clouds', 'saved_items'];
+  const allowedFields = ['default_cloud', 'onboarding_completed', 'skip_splash', 'hidden_clouds', 'saved_items', 'insert_placement'];
   if (!allowedFields.includes(field)) {
     throw new Error(`Invalid field: ${field}`);
   }
@@ -309,6 +316,9 @@ async function updateUserPreference(figmaUserId, field, value) {
   } else if (field === 'hidden_clouds') {
     // hidden_clouds should also be an array
     paramValue = Array.isArray(value) ? JSON.stringify(value) : '[]';
+  } else if (field === 'insert_placement') {
+    // insert_placement is an object ({ mode, columns, gap }) or null to reset
+    paramValue = value && typeof value === 'object' && !Array.isArray(value) ? JSON.stringify(value) : 'null';
   } else {
     paramValue = value;
   }
@@ -323,7 +333,8 @@ async function updateUserPreference(figmaUserId, field, value) {
     'onboarding_completed': 'onboarding_completed',
     'skip_splash': 'skip_splash',
     'hidden_clouds': 'hidden_clouds',
-    'saved_items': 'saved_items'
+    'saved_items': 'saved_items',
+    'insert_placement': 'insert_placement'
   };
   
   const columnName = columnMap[field];
@@ -336,7 +347,7 @@ async function updateUserPreference(figmaUserId, field, value) {
   let updateQuery;
   let queryParams;
   
-  if (field === 'saved_items' || field === 'hidden_clouds') {
+  if (field === 'saved_items' || field === 'hidden_clouds' || field === 'insert_placement') {
     // Pass JSON string and cast to jsonb - PostgreSQL will parse it correctly
     updateQuery = `UPDATE user_preferences SET ${columnName} = $1::jsonb, updated_at = NOW() WHERE figma_user_id = $2 RETURNING ${columnName}, figma_user_id`;
     queryParams = [paramValue, figmaUserId];
@@ -16,6 +16,7 @@ CREATE TABLE IF NOT EXISTS user_preferences (
   skip_splash BOOLEAN DEFAULT FALSE,
   hidden_clouds JSONB DEFAULT '[]',
   saved_items JSONB DEFAULT '[]',
+  insert_placement JSONB DEFAULT NULL,
   created_at TIMESTAMP DEFAULT NOW(),
   updated_at TIMESTAMP DEFAULT NOW()
 );
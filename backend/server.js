@@ -50,7 +50,7 @@ function validateObjectBulkDelete(currentCount, newCount, dataType) {
 }
 
 // Whitelist of allowed backup data keys
-const ALLOWED_BACKUP_KEYS = ['templates', 'saved_items', 'figma_links', 'cloud_figma_links', 'custom_clouds', 'editable_clouds', 'cloud_categories', 'status_symbols', 'cloud_pocs', 'housekeeping_rules'];
+const ALLOWED_BACKUP_KEYS = ['templates', 'saved_items', 'figma_links', 'cloud_figma_links', 'custom_clouds', 'editable_clouds', 'cloud_categories', 'status_symbols', 'cloud_pocs', 'housekeeping_rules', 'page_structures'];
 
 function isAllowedBackupKey(dataKey) {
   if (typeof dataKey !== 'string') return false;
@@ -709,6 +709,48 @@ app.post('/api/housekeeping-rules', async (req, res) => {
   }
 });
 
+// ---------- Page Structures (named presets per cloud) ----------
+function countPageStructurePresets(structures) {
+  if (!structures || typeof structures !== 'object') return 0;
+  return Object.values(structures).reduce((sum, cloud) => sum + (Array.isArray(cloud?.presets) ? cloud.presets.length : 0), 0);
+}
+
+app.get('/api/page-structures', async (req, res) => {
+  try {
+    const structures = await db.getSharedData('page_structures') || {};
+    res.json(structures);
+  } catch (error) {
+    console.error('Error fetching page structures:', error);
+    res.status(500).json({ error: 'Failed to fetch page structures' });
+  }
+});
+
+app.post('/api/page-structures', async (req, res) => {
+  try {
+    const newStructures = req.body.structures || {};
+    if (typeof newStructures !== 'object' || newStructures === null || Array.isArray(newStructures)) {
+      return res.status(400).json({ error: 'Invalid data format', message: 'Page structures must be an object keyed by cloud' });
+    }
+    const currentStructures = await db.getSharedData('page_structures') || {};
+    const currentCount = countPageStructurePresets(currentStructures);
+    const newCount = countPageStructurePresets(newStructures);
+    const block = validateArrayBulkDelete(currentCount, newCount, 'page structures');
+    if (block) {
+      console.error('🛑 BLOCKED: page-structures', block);
+      return res.status(block.status).json(block);
+    }
+    if (currentCount > 0) {
+      await db.createBackup('page_structures', currentStructures, 'save', null);
+      await db.cleanupOldBackups('page_structures', 50);
+    }
+    await db.saveSharedData('page_structures', newStructures);
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error saving page structures:', error);
+    res.status(500).json({ error: 'Failed to save page structures' });
+  }
+});
+
 // ============================================================================
 // USER-SPECIFIC DATA ENDPOINTS (Per Figma User)
 // ============================================================================
@@ -816,6 +858,29 @@ app.post('/api/user/:figmaUserId/hidden-clouds', async (req, res) => {
   }
 });
 
+// Insert placement (where inserted templates land)
+app.get('/api/user/:figmaUserId/insert-placement', async (req, res) => {
+  try {
+    const { figmaUserId } = req.params;
+    const prefs = await db.getUserPreferences(figmaUserId);
+    res.json({ placement: prefs.insert_placement || null });
+  } catch (error) {
+    console.error('Error fetching insert placement:', error);
+    res.status(500).json({ error: 'Failed to fetch insert placement' });
+  }
+});
+
+app.post('/api/user/:figmaUserId/insert-placement', async (req, res) => {
+  try {
+    const { figmaUserId } = req.params;
+    await db.updateUserPreference(figmaUserId, 'insert_placement', req.body.placement);
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error saving insert placement:', error);
+    res.status(500).json({ error: 'Failed to save insert placement' });
+  }
+});
+
 // ============================================================================
 // BACKUP & RESTORE ENDPOINTS
 // ============================================================================
@@ -16,6 +16,19 @@ import {
 
 // Import Onboarding component
 import Onboarding from './components/Onboarding';
+import UsageAudit from './components/UsageAudit';
+import PagesView from './components/PagesView';
+import CompliancePanel from './components/CompliancePanel';
+import ComplianceChecksEditor from './components/ComplianceChecksEditor';
+import ScaffoldPlanReview from './components/ScaffoldPlanReview';
+import PageStructurePresets from './components/PageStructurePresets';
+import ScaffoldTokenForm from './components/ScaffoldTokenForm';
+import ReadMeSettings from './components/ReadMeSettings';
+import CoverSettings from './components/CoverSettings';
+import StarterContentEditor from './components/StarterContentEditor';
+import SelectionContextPanel from './components/SelectionContextPanel';
+import ComponentPropertiesForm from './components/ComponentPropertiesForm';
+import VariantAxisPicker from './components/VariantAxisPicker';
 
 // Import backend storage hooks
 import {
@@ -31,7 +44,12 @@ import {
   useDefaultCloud,
   useOnboardingState,
   useHiddenClouds,
+  useInsertPlacement,
   useHousekeepingRules,
+  usePageStructures,
+  getCloudPageStructures,
+  withPageStructureVersion,
+  DEFAULT_SCAFFOLD_SECTIONS,
   // Backup functions
   getBackups,
   getBackupKeys,
@@ -47,9 +65,45 @@ import {
   getTemplateAddMetadata,
   ActivityLogEntry,
 } from './lib/useBackendStorage';
+import type { CloudPageStructures, PageStructurePreset, ScaffoldSection } from './lib/useBackendStorage';
+import {
+  defaultTokenValue,
+  findPlaceholderTokens,
+  hasPlaceholders,
+  isReleaseToken,
+  resolvePlaceholders,
+} from './lib/placeholders';
 
 // Import API functions for in-place refresh (reload breaks Figma plugin)
 import { loadCustomClouds, loadEditableClouds } from './lib/api';
+import { BUILT_IN_CLOUDS } from './lib/clientStorage';
+import {
+  PluginRequestError,
+  createUIMessageHandler,
+  isCancelledRequest,
+  onPluginMessage,
+  sendAndWait,
+  sendToPlugin,
+} from './lib/messaging';
+import type { ResponseOf } from './lib/messaging';
+import type {
+  ComplianceCheck,
+  ComplianceRule,
+  ComponentPropertyInfo,
+  ComponentPropertyValues,
+  CoverFields,
+  InsertPlacementMode,
+  InsertRecord,
+  LaunchTarget,
+  ReadMeContent,
+  ReadMeTextStyles,
+  ScaffoldPageSpec,
+  ScaffoldPlan,
+  SelectedInstance,
+  TemplateHealth,
+  VariantAxis,
+} from './lib/protocol';
+import { describeSelection, getVariantProperties, isCompleteSelection, matchesSelection } from './lib/variants';
 
 // Import cloud icons
 import SalesCloudIcon from './assets/SalesCloud-icon.png';
@@ -64,14 +118,16 @@ import StarterKitIllustration from './assets/starterkit_illustration.png';
 import ActivityEmptyIllustration from './assets/Empty state.png';
 
 // ============ CONSTANTS ============
-const clouds = [
-  { id: 'sales', name: 'Sales', icon: SalesCloudIcon },
-  { id: 'service', name: 'Service', icon: ServiceCloudIcon },
-  { id: 'marketing', name: 'Marketing', icon: MarketingCloudIcon },
-  { id: 'commerce', name: 'Commerce', icon: CommerceCloudIcon },
-  { id: 'revenue', name: 'Revenue', icon: RevenueCloudIcon },
-  { id: 'fieldservice', name: 'Field Service', icon: FieldServiceCloudIcon },
-];
+const cloudIcons: Record<string, string> = {
+  sales: SalesCloudIcon,
+  service: ServiceCloudIcon,
+  marketing: MarketingCloudIcon,
+  commerce: CommerceCloudIcon,
+  revenue: RevenueCloudIcon,
+  fieldservice: FieldServiceCloudIcon,
+};
+
+const clouds = BUILT_IN_CLOUDS.map(cloud => ({ ...cloud, icon: cloudIcons[cloud.id] }));
 
 const categories = [
   { id: 'team-housekeeping', label: 'Team Housekeeping' },
@@ -89,6 +145,15 @@ const categoryOptions = [
   { value: 'resources', label: 'Resource' },
 ];
 
+const INSERT_PLACEMENT_OPTIONS: { value: InsertPlacementMode; label: string }[] = [
+  { value: 'viewport', label: 'At viewport center' },
+  { value: 'next-to-selection', label: 'Next to selection' },
+  { value: 'auto-layout', label: 'Into selected auto-layout' },
+  { value: 'section', label: 'In a new section' },
+  { value: 'grid', label: 'As a grid' },
+  { value: 'new-page', label: 'On a new page' },
+];
+
 const categoryLabels: Record<string, string> = {
   'cover-pages': 'Cover',
   'components': 'Component',
@@ -138,12 +203,27 @@ function formatActivityTime(date: Date): string {
   return `${d}/${m}/${y} at ${formatTime(date)}`;
 }
 
+// Deep copy so editing never touches a saved preset's sections
+function cloneSections(sections: ScaffoldSection[]): ScaffoldSection[] {
+  return JSON.parse(JSON.stringify(sections));
+}
+
+// Where archived pages go and how they're named, from the structure's archive section
+function archiveConvention(sections: ScaffoldSection[]): { section: string; pattern: string } {
+  const archive = sections.find(s => s.id === 'archived') ?? sections.find(s => /archiv/i.test(s.name));
+  return {
+    section: archive?.name || 'ARCHIVED EXPLORATIONS',
+    pattern: archive?.pages.map(p => p.name).find(hasPlaceholders) ?? '{YYYY.MM.DD}_{Exploration Name}',
+  };
+}
+
 // ============ TYPES ============
 interface VariantInfo {
   name: string;
   displayName: string;
   key: string;
   preview: string | null;
+  properties?: Record<string, string>;
 }
 
 interface Template {
@@ -158,7 +238,16 @@ interface Template {
   isComponentSet?: boolean;
   variants?: VariantInfo[];
   variantCount?: number;
+  variantAxes?: VariantAxis[];
+  /** Text, boolean and instance-swap properties that can be filled in before insert */
+  properties?: ComponentPropertyInfo[];
   googleSlideLink?: string;
+  /** When and how to use it, shown while one of its instances is selected */
+  usage?: string;
+  /** Source component name at capture/refresh, to detect renames */
+  sourceName?: string;
+  /** Result of the last library health check */
+  health?: TemplateHealth;
 }
 
 interface ComponentInfo {
@@ -171,6 +260,8 @@ interface ComponentInfo {
   isComponentSet?: boolean;
   variants?: VariantInfo[];
   variantCount?: number;
+  variantAxes?: VariantAxis[];
+  properties?: ComponentPropertyInfo[];
 }
 
 // ============ STORAGE ============
@@ -210,6 +301,7 @@ export function App() {
   const { defaultCloud, setDefaultCloud, loading: defaultCloudLoading } = useDefaultCloud(figmaUserId);
   const { hasCompleted: hasCompletedOnboarding, skipSplash: skipSplashOnLaunch, setOnboardingState, loading: onboardingLoading } = useOnboardingState(figmaUserId);
   const { hiddenClouds, setHiddenClouds, loading: hiddenCloudsLoading } = useHiddenClouds(figmaUserId);
+  const { placement: insertPlacement, setPlacement: setInsertPlacement } = useInsertPlacement(figmaUserId);
   
   // Combined loading state
   const isLoading = templatesLoading || savedItemsLoading || figmaLinksLoading || cloudLinksLoading || 
@@ -230,19 +322,27 @@ export function App() {
   const [selectedClouds, setSelectedClouds] = useState<string[]>([]);
   const [cloudSelectionReady, setCloudSelectionReady] = useState(false);
   const [activeCategory, setActiveCategory] = useState('team-housekeeping');
-  const [insertingId, setInsertingId] = useState<string | null>(null);
-  const [refreshingId, setRefreshingId] = useState<string | null>(null);
+  const [insertingIds, setInsertingIds] = useState<string[]>([]);
+  const [refreshingIds, setRefreshingIds] = useState<string[]>([]);
+  const [swappingIds, setSwappingIds] = useState<string[]>([]);
   const [isBackgroundSyncing, setIsBackgroundSyncing] = useState(false);
+  const [isCheckingHealth, setIsCheckingHealth] = useState(false);
   const [expandedTemplate, setExpandedTemplate] = useState<string | null>(null);
   const [moveMenuOpen, setMoveMenuOpen] = useState<string | null>(null);
   const [createSectionForTemplate, setCreateSectionForTemplate] = useState<string | null>(null);
   const [newSectionName, setNewSectionName] = useState('');
   const [selectedVariants, setSelectedVariants] = useState<Record<string, Record<string, string>>>({});
   const [selectedSlides, setSelectedSlides] = useState<Record<string, string[]>>({}); // For multi-select
+  // Component property values to insert with, per template
+  const [propertyValues, setPropertyValues] = useState<Record<string, ComponentPropertyValues>>({});
   const [isScaffolding, setIsScaffolding] = useState(false);
-  const [scaffoldExists, setScaffoldExists] = useState(false);
+  // Changes merging the page structure would make, while they're being reviewed
+  const [scaffoldPlan, setScaffoldPlan] = useState<ScaffoldPlan | null>(null);
+  const [approvedScaffoldSteps, setApprovedScaffoldSteps] = useState<string[]>([]);
   const [showPagesCreatedMessage, setShowPagesCreatedMessage] = useState(false);
   const [isEditingScaffold, setIsEditingScaffold] = useState(false);
+  // Structure page whose starter content is open for editing
+  const [starterContentPageId, setStarterContentPageId] = useState<string | null>(null);
   const [isEditingStatusBadges, setIsEditingStatusBadges] = useState(false);
   const [selectedCoverVariant, setSelectedCoverVariant] = useState<{templateId: string; variantKey?: string; name: string} | null>(null);
   const [showCoverSelector, setShowCoverSelector] = useState(false);
@@ -261,8 +361,6 @@ export function App() {
   const variantPopoverRef = useRef<HTMLDivElement | null>(null);
   const variantPopoverVisibleRef = useRef(false);
   variantPopoverVisibleRef.current = variantPopoverVisible;
-  const variantPopoverVariantKeyRef = useRef<string | null>(null);
-  variantPopoverVariantKeyRef.current = variantPopover?.variant?.key ?? null;
   const [variantPopoverHighResPreview, setVariantPopoverHighResPreview] = useState<string | null>(null);
   
   // Click outside to dismiss variant popover
@@ -287,14 +385,16 @@ export function App() {
     }
     setVariantPopoverHighResPreview(null);
     const isInFigma = typeof window !== 'undefined' && window.parent !== window && typeof (window.parent as any).postMessage === 'function';
-    if (isInFigma && variantPopover.variant) {
-      (window.parent as any).postMessage({
-        pluginMessage: {
-          type: 'REQUEST_VARIANT_PREVIEW',
-          payload: { variantKey: variantPopover.variant.key },
-        },
-      }, '*');
-    }
+    if (!isInFigma || !variantPopover.variant) return;
+    // Cancelled when the popover moves to another variant, so a slow export can't overwrite it
+    const controller = new AbortController();
+    sendAndWait(
+      { type: 'REQUEST_VARIANT_PREVIEW', payload: { variantKey: variantPopover.variant.key } },
+      { timeout: 30000, signal: controller.signal }
+    )
+      .then((result) => setVariantPopoverHighResPreview(result.imageData || null))
+      .catch(() => setVariantPopoverHighResPreview(null));
+    return () => controller.abort();
   }, [variantPopoverVisible, variantPopover?.variant?.key]);
 
   // Cleanup variant popover timers on unmount
@@ -312,119 +412,26 @@ export function App() {
   }
   // cloudPOCs now comes from useCloudPocs hook above
   
-  // Editable scaffold structure - organized by sections
-  interface ScaffoldPage {
-    id: string;
-    name: string;
-    status: string | null;
-    isRename?: boolean;
-  }
-  
-  interface ScaffoldSection {
-    id: string;
-    name: string;
-    pages: ScaffoldPage[];
-    isDivider?: boolean; // Special flag for divider-only sections
-  }
-  
-  // Default scaffold sections (for reset)
-  const defaultScaffoldSections: ScaffoldSection[] = [
-    {
-      id: 'top',
-      name: '',
-      pages: [
-        { id: 'cover', name: 'Cover Page', status: null, isRename: true },
-        { id: 'readme', name: 'Read Me', status: null },
-      ]
-    },
-    {
-      id: 'current',
-      name: 'CURRENT DESIGNS',
-      pages: [
-        { id: 'current1', name: '{Release} {Feature Name}', status: '🟢' },
-        { id: 'current2', name: '{Release} {Feature Name} • Explorations', status: '🟡' },
-        { id: 'current3', name: '{Release} {Feature Name 2}', status: '🟢' },
-      ]
-    },
-    {
-      id: 'milestones',
-      name: 'MILESTONES + E2E FLOWS/DEMOS',
-      pages: [
-        { id: 'milestone1', name: '{YYYY.MM.DD}_Product Demo', status: '🟢' },
-        { id: 'milestone2', name: '{YYYY.MM.DD}_Customer Demo', status: '🟢' },
-        { id: 'milestone3', name: '{YYYY.MM.DD}_Sprint Review', status: '🟡' },
-      ]
-    },
-    {
-      id: 'archived',
-      name: 'ARCHIVED EXPLORATIONS',
-      pages: [
-        { id: 'archive1', name: '{YYYY.MM.DD}_{Exploration Name}', status: null },
-        { id: 'archive2', name: '{YYYY.MM.DD}_{Previous Iteration}', status: null },
-        { id: 'archive3', name: '{YYYY.MM.DD}_{Deprecated Flow}', status: null },
-      ]
-    },
-    {
-      id: 'btl',
-      name: 'BELOW THE LINE',
-      pages: [
-        { id: 'btl1', name: '{Deprecated Feature}', status: '❌' },
-        { id: 'btl2', name: '{Old Component Library}', status: '❌' },
-      ]
-    },
-  ];
-  
   // Undo/Redo history for scaffold sections
   const [history, setHistory] = useState<ScaffoldSection[][]>([]);
   const [historyIndex, setHistoryIndex] = useState(-1);
   const isUndoRedoRef = useRef(false);
   const isInitialMountRef = useRef(true);
   
-  const [scaffoldSections, setScaffoldSections] = useState<ScaffoldSection[]>([
-    {
-      id: 'top',
-      name: '',  // No header for top-level pages
-      pages: [
-        { id: 'cover', name: 'Cover Page', status: null, isRename: true },
-        { id: 'readme', name: 'Read Me', status: null },
-      ]
-    },
-    {
-      id: 'current',
-      name: 'CURRENT DESIGNS',
-      pages: [
-        { id: 'current1', name: '{Release} {Feature Name}', status: '🟢' },
-        { id: 'current2', name: '{Release} {Feature Name} • Explorations', status: '🟡' },
-        { id: 'current3', name: '{Release} {Feature Name 2}', status: '🟢' },
-      ]
-    },
-    {
-      id: 'milestones',
-      name: 'MILESTONES + E2E FLOWS/DEMOS',
-      pages: [
-        { id: 'milestone1', name: '{YYYY.MM.DD}_Product Demo', status: '🟢' },
-        { id: 'milestone2', name: '{YYYY.MM.DD}_Customer Demo', status: '🟢' },
-        { id: 'milestone3', name: '{YYYY.MM.DD}_Sprint Review', status: '🟡' },
-      ]
-    },
-    {
-      id: 'archived',
-      name: 'ARCHIVED EXPLORATIONS',
-      pages: [
-        { id: 'archive1', name: '{YYYY.MM.DD}_{Exploration Name}', status: null },
-        { id: 'archive2', name: '{YYYY.MM.DD}_{Previous Iteration}', status: null },
-        { id: 'archive3', name: '{YYYY.MM.DD}_{Deprecated Flow}', status: null },
-      ]
-    },
-    {
-      id: 'btl',
-      name: 'BELOW THE LINE',
-      pages: [
-        { id: 'btl1', name: '{Deprecated Feature}', status: '❌' },
-        { id: 'btl2', name: '{Old Component Library}', status: '❌' },
-      ]
-    },
-  ]);
+  // Editable scaffold structure - organized by sections, loaded from the cloud's presets
+  const [scaffoldSections, setScaffoldSections] = useState<ScaffoldSection[]>(() => cloneSections(DEFAULT_SCAFFOLD_SECTIONS));
+  const { structures: pageStructures, setStructures: savePageStructures } = usePageStructures();
+  const [activePresetId, setActivePresetId] = useState<string | null>(null);
+  const cloudPageStructures = getCloudPageStructures(pageStructures, selectedClouds[0]);
+  const activePreset =
+    cloudPageStructures.presets.find(p => p.id === activePresetId) ??
+    cloudPageStructures.presets.find(p => p.id === cloudPageStructures.defaultPresetId) ??
+    cloudPageStructures.presets[0];
+  const isScaffoldDirty = JSON.stringify(scaffoldSections) !== JSON.stringify(activePreset.sections);
+  // Values typed for "{Release}"-style placeholders in page names
+  const [scaffoldTokenValues, setScaffoldTokenValues] = useState<Record<string, string>>({});
+  // Cover text typed (or read from the file's cover) over the defaults below
+  const [coverFieldValues, setCoverFieldValues] = useState<CoverFields>({});
   
   // Undo/Redo functions
   const undo = () => {
@@ -602,6 +609,8 @@ export function App() {
   // Plugin branding from selected frame
   const [pluginBranding, setPluginBranding] = useState<string | null>(null);
   const [frameName, setFrameName] = useState<string | null>(null);
+  // Library instance selected on the canvas, for the context panel
+  const [selectedInstance, setSelectedInstance] = useState<SelectedInstance | null>(null);
   
   // Cloud visibility and per-cloud settings
   // hiddenClouds and cloudCategories now come from hooks above
@@ -652,141 +661,125 @@ export function App() {
     const isInFigma = window.parent !== window && typeof parent.postMessage === 'function';
     if (!isInFigma) return false;
 
-    return new Promise<boolean>((resolve) => {
-      let migrationComplete = false;
-      const migrationTimeout = setTimeout(() => {
-        if (!migrationComplete) {
-          console.log('Migration timeout - proceeding without migration');
-          resolve(false);
-        }
-      }, 5000);
-
-      const migrationHandler = async (event: MessageEvent) => {
-        const msg = event.data?.pluginMessage;
-        if (msg?.type === 'MIGRATION_DATA') {
-          window.removeEventListener('message', migrationHandler);
-          migrationComplete = true;
-          clearTimeout(migrationTimeout);
-
-          try {
-            console.log('🔄 Checking migration from clientStorage to backend...');
-            
-            // IMPORTANT: Only migrate if backend is empty to avoid overwriting
-            // Backend data takes precedence over local clientStorage
-            
-            // Migrate templates when backend is empty (sync local/published plugin to database)
-            // Never migrate empty; require at least one valid template (id+name) to avoid data loss
-            if (msg.templates && Array.isArray(msg.templates) && templates.length === 0) {
-              const valid = msg.templates.filter((t: any) => t?.id && t?.name);
-              if (valid.length > 0) {
-                setTemplates(valid);
-                console.log(`✓ Migrated ${valid.length} templates from local to database`);
-              }
-            }
+    let msg: ResponseOf<'MIGRATE_FROM_CLIENT_STORAGE'>;
+    try {
+      msg = await sendAndWait({ type: 'MIGRATE_FROM_CLIENT_STORAGE' }, { timeout: 5000 });
+    } catch {
+      console.log('Migration timeout - proceeding without migration');
+      return false;
+    }
 
-            // DON'T migrate saved items - database is the source of truth
-            // Saved items are per-user and managed by database only
-            // Migration would restore old data when user intentionally unsaved items
-            // Explicitly ignore savedItems if present in migration data (shouldn't be sent anymore from code.ts)
-            if (msg.savedItems && Array.isArray(msg.savedItems) && msg.savedItems.length > 0) {
-              console.log(`⚠️ IGNORING ${msg.savedItems.length} saved items from migration - database is source of truth`);
-            }
-            // Explicitly ignore savedItems if present in migration data (shouldn't be sent anymore)
-            if (msg.savedItems) {
-              console.log('⚠️ Ignoring savedItems in migration data - database is source of truth');
-            }
+    try {
+      console.log('🔄 Checking migration from clientStorage to backend...');
+      
+      // IMPORTANT: Only migrate if backend is empty to avoid overwriting
+      // Backend data takes precedence over local clientStorage
+      
+      // Migrate templates when backend is empty (sync local/published plugin to database)
+      // Never migrate empty; require at least one valid template (id+name) to avoid data loss
+      if (msg.templates && Array.isArray(msg.templates) && templates.length === 0) {
+        const valid = msg.templates.filter((t: any) => t?.id && t?.name);
+        if (valid.length > 0) {
+          setTemplates(valid);
+          console.log(`✓ Migrated ${valid.length} templates from local to database`);
+        }
+      }
 
-            // Migrate figma links
-            if (msg.figmaLinks && (Array.isArray(msg.figmaLinks) || Object.keys(msg.figmaLinks).length > 0)) {
-              if (Array.isArray(msg.figmaLinks)) {
-                setCloudFigmaLinks({ sales: msg.figmaLinks });
-              } else {
-                setCloudFigmaLinks(msg.figmaLinks);
-              }
-              console.log('✓ Migrated Figma links');
-            }
+      // DON'T migrate saved items - database is the source of truth
+      // Saved items are per-user and managed by database only
+      // Migration would restore old data when user intentionally unsaved items
+      // Explicitly ignore savedItems if present in migration data (shouldn't be sent anymore from code.ts)
+      if (msg.savedItems && Array.isArray(msg.savedItems) && msg.savedItems.length > 0) {
+        console.log(`⚠️ IGNORING ${msg.savedItems.length} saved items from migration - database is source of truth`);
+      }
+      // Explicitly ignore savedItems if present in migration data (shouldn't be sent anymore)
+      if (msg.savedItems) {
+        console.log('⚠️ Ignoring savedItems in migration data - database is source of truth');
+      }
 
-            // Migrate cloud-specific links
-            if (msg.cloudFigmaLinks && Object.keys(msg.cloudFigmaLinks).length > 0) {
-              setCloudFigmaLinks(msg.cloudFigmaLinks);
-              console.log('✓ Migrated cloud-specific Figma links');
-            }
+      // Migrate figma links
+      if (msg.figmaLinks && (Array.isArray(msg.figmaLinks) || Object.keys(msg.figmaLinks).length > 0)) {
+        if (Array.isArray(msg.figmaLinks)) {
+          setCloudFigmaLinks({ sales: msg.figmaLinks });
+        } else {
+          setCloudFigmaLinks(msg.figmaLinks);
+        }
+        console.log('✓ Migrated Figma links');
+      }
 
-            // Migrate custom clouds
-            if (msg.customClouds && msg.customClouds.length > 0) {
-              setCustomClouds(msg.customClouds);
-              console.log(`✓ Migrated ${msg.customClouds.length} custom clouds`);
-            }
+      // Migrate cloud-specific links
+      if (msg.cloudFigmaLinks && Object.keys(msg.cloudFigmaLinks).length > 0) {
+        setCloudFigmaLinks(msg.cloudFigmaLinks);
+        console.log('✓ Migrated cloud-specific Figma links');
+      }
 
-            // Migrate editable clouds
-            if (msg.editableClouds) {
-              setEditableClouds(msg.editableClouds);
-              console.log('✓ Migrated editable clouds');
-            }
+      // Migrate custom clouds
+      if (msg.customClouds && msg.customClouds.length > 0) {
+        setCustomClouds(msg.customClouds);
+        console.log(`✓ Migrated ${msg.customClouds.length} custom clouds`);
+      }
 
-            // Migrate cloud categories - merge clientStorage into backend (don't overwrite existing)
-            if (msg.cloudCategories && Object.keys(msg.cloudCategories).length > 0) {
-              const current = cloudCategoriesRef.current;
-              const merged = { ...current };
-              let changed = false;
-              for (const [cloudId, cats] of Object.entries(msg.cloudCategories)) {
-                const arr = Array.isArray(cats) ? cats : [];
-                if (arr.length > 0 && (!merged[cloudId] || merged[cloudId].length === 0)) {
-                  merged[cloudId] = arr;
-                  changed = true;
-                }
-              }
-              if (changed) {
-                setCloudCategories(merged);
-                console.log('✓ Migrated cloud categories from local');
-              }
-            }
+      // Migrate editable clouds
+      if (msg.editableClouds) {
+        setEditableClouds(msg.editableClouds);
+        console.log('✓ Migrated editable clouds');
+      }
 
-            // Migrate status symbols
-            if (msg.statusSymbols && msg.statusSymbols.length > 0) {
-              setStatusSymbols(msg.statusSymbols);
-              console.log(`✓ Migrated ${msg.statusSymbols.length} status symbols`);
-            }
+      // Migrate cloud categories - merge clientStorage into backend (don't overwrite existing)
+      if (msg.cloudCategories && Object.keys(msg.cloudCategories).length > 0) {
+        const current = cloudCategoriesRef.current;
+        const merged = { ...current };
+        let changed = false;
+        for (const [cloudId, cats] of Object.entries(msg.cloudCategories)) {
+          const arr = Array.isArray(cats) ? cats : [];
+          if (arr.length > 0 && (!merged[cloudId] || merged[cloudId].length === 0)) {
+            merged[cloudId] = arr;
+            changed = true;
+          }
+        }
+        if (changed) {
+          setCloudCategories(merged);
+          console.log('✓ Migrated cloud categories from local');
+        }
+      }
 
-            // Migrate cloud POCs
-            if (msg.cloudPOCs && Object.keys(msg.cloudPOCs).length > 0) {
-              setCloudPOCs(msg.cloudPOCs);
-              console.log('✓ Migrated cloud POCs');
-            }
+      // Migrate status symbols
+      if (msg.statusSymbols && msg.statusSymbols.length > 0) {
+        setStatusSymbols(msg.statusSymbols);
+        console.log(`✓ Migrated ${msg.statusSymbols.length} status symbols`);
+      }
 
-            // Migrate user preferences (if user ID is available)
-            if (figmaUserId) {
-              if (msg.defaultCloud) {
-                setDefaultCloud(msg.defaultCloud);
-                console.log(`✓ Migrated default cloud: ${msg.defaultCloud}`);
-              }
-              if (msg.onboardingState) {
-                setOnboardingState({
-                  hasCompleted: msg.onboardingState.hasCompleted || false,
-                  skipSplash: msg.onboardingState.skipSplash || false
-                });
-                console.log('✓ Migrated onboarding state');
-              }
-              if (msg.hiddenClouds && msg.hiddenClouds.length > 0) {
-                setHiddenClouds(msg.hiddenClouds);
-                console.log(`✓ Migrated ${msg.hiddenClouds.length} hidden clouds`);
-              }
-            }
+      // Migrate cloud POCs
+      if (msg.cloudPOCs && Object.keys(msg.cloudPOCs).length > 0) {
+        setCloudPOCs(msg.cloudPOCs);
+        console.log('✓ Migrated cloud POCs');
+      }
 
-            console.log('✅ Migration complete!');
-            resolve(true);
-          } catch (error) {
-            console.error('❌ Migration error:', error);
-            resolve(false);
-          }
+      // Migrate user preferences (if user ID is available)
+      if (figmaUserId) {
+        if (msg.defaultCloud) {
+          setDefaultCloud(msg.defaultCloud);
+          console.log(`✓ Migrated default cloud: ${msg.defaultCloud}`);
         }
-      };
+        if (msg.onboardingState) {
+          setOnboardingState({
+            hasCompleted: msg.onboardingState.hasCompleted || false,
+            skipSplash: msg.onboardingState.skipSplash || false
+          });
+          console.log('✓ Migrated onboarding state');
+        }
+        if (msg.hiddenClouds && msg.hiddenClouds.length > 0) {
+          setHiddenClouds(msg.hiddenClouds);
+          console.log(`✓ Migrated ${msg.hiddenClouds.length} hidden clouds`);
+        }
+      }
 
-      window.addEventListener('message', migrationHandler);
-      
-      // Request migration data from plugin sandbox
-      parent.postMessage({ pluginMessage: { type: 'MIGRATE_FROM_CLIENT_STORAGE' } }, '*');
-    });
+      console.log('✅ Migration complete!');
+      return true;
+    } catch (error) {
+      console.error('❌ Migration error:', error);
+      return false;
+    }
   };
 
   // Load templates and figma links from Figma's clientStorage on mount
@@ -804,14 +797,13 @@ export function App() {
     
     window.addEventListener('error', handleError);
     
-    // Function to send initialization messages (only for scaffold check and frame branding)
+    // Function to send initialization messages (only for frame branding)
     const sendInitMessages = () => {
       if (!isInFigma) return;
       
       try {
         // Only send messages that still need plugin sandbox (not data loading)
-        parent.postMessage({ pluginMessage: { type: 'CHECK_SCAFFOLD_EXISTS' } }, '*');
-        parent.postMessage({ pluginMessage: { type: 'GET_SELECTED_FRAME_BRANDING' } }, '*');
+        sendToPlugin({ type: 'GET_SELECTED_FRAME_BRANDING' });
       } catch (error) {
         console.error('Failed to send initial messages:', error);
       }
@@ -869,7 +861,7 @@ export function App() {
   }, []);
 
   // Add template flow
-  const [view, setView] = useState<'home' | 'add' | 'scaffold' | 'settings' | 'frame-details' | 'housekeeping-admin'>('home');
+  const [view, setView] = useState<'home' | 'add' | 'scaffold' | 'settings' | 'frame-details' | 'housekeeping-admin' | 'audit' | 'pages'>('home');
   const [frameDetails, setFrameDetails] = useState<any>(null);
   const [frameDetailsError, setFrameDetailsError] = useState<string | null>(null);
   const [frameDetailsLoading, setFrameDetailsLoading] = useState(false);
@@ -878,14 +870,14 @@ export function App() {
   const { rules: housekeepingRules, setRules: saveHousekeepingRules, loading: housekeepingLoading } = useHousekeepingRules();
   const [editingRule, setEditingRule] = useState<any>(null);
   const [showRuleModal, setShowRuleModal] = useState(false);
-  const [ruleForm, setRuleForm] = useState({ title: '', description: '', hasComplianceCheck: false, links: [] as { label: string; action: string }[] });
+  const [ruleForm, setRuleForm] = useState({ title: '', description: '', checks: [] as ComplianceCheck[], links: [] as { label: string; action: string }[] });
   const [newLinkLabel, setNewLinkLabel] = useState('');
   const [deleteConfirmRule, setDeleteConfirmRule] = useState<string | null>(null);
 
   // Housekeeping functions
   function addRule() {
     setEditingRule(null);
-    setRuleForm({ title: '', description: '', hasComplianceCheck: false, links: [] });
+    setRuleForm({ title: '', description: '', checks: [], links: [] });
     setShowRuleModal(true);
   }
 
@@ -894,7 +886,7 @@ export function App() {
     setRuleForm({ 
       title: rule.title, 
       description: rule.description, 
-      hasComplianceCheck: rule.hasComplianceCheck,
+      checks: [...rule.checks],
       links: [...rule.links]
     });
     setShowRuleModal(true);
@@ -907,7 +899,7 @@ export function App() {
     if (editingRule) {
       newRules = housekeepingRules.map(r => 
         r.id === editingRule.id 
-          ? { ...r, title: ruleForm.title, description: ruleForm.description, hasComplianceCheck: ruleForm.hasComplianceCheck, links: ruleForm.links }
+          ? { ...r, title: ruleForm.title, description: ruleForm.description, checks: ruleForm.checks, links: ruleForm.links }
           : r
       );
     } else {
@@ -915,7 +907,7 @@ export function App() {
         id: `rule-${Date.now()}`,
         title: ruleForm.title,
         description: ruleForm.description,
-        hasComplianceCheck: ruleForm.hasComplianceCheck,
+        checks: ruleForm.checks,
         links: ruleForm.links
       };
       newRules = [...housekeepingRules, newRule];
@@ -964,6 +956,8 @@ export function App() {
   const [showWelcomeScreen, setShowWelcomeScreen] = useState(true);
   const [contentRefreshKey, setContentRefreshKey] = useState(0);
   const [scrollToTemplateId, setScrollToTemplateId] = useState<string | null>(null);
+  // Set when the plugin was opened from a relaunch button, until templates are ready to show it
+  const [launchTarget, setLaunchTarget] = useState<LaunchTarget | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
   const [showSearchSuggestions, setShowSearchSuggestions] = useState(false);
   const [selectedSuggestionIndex, setSelectedSuggestionIndex] = useState(-1);
@@ -997,11 +991,18 @@ export function App() {
   }, [housekeepingRules]);
   const [addStep, setAddStep] = useState<'instructions' | 'loading' | 'configure'>('instructions');
   const [capturedComponent, setCapturedComponent] = useState<ComponentInfo | null>(null);
+  const captureRequestRef = useRef<AbortController | null>(null);
+
+  // Leaving the add flow cancels an in-flight capture so it can't reopen the configure step
+  useEffect(() => {
+    if (view !== 'add') captureRequestRef.current?.abort();
+  }, [view]);
   const [formName, setFormName] = useState('');
   const [formCloud, setFormCloud] = useState('sales');
   const [formCategory, setFormCategory] = useState('components');
   const [formDescription, setFormDescription] = useState('');
   const [formGoogleSlideLink, setFormGoogleSlideLink] = useState('');
+  const [formUsage, setFormUsage] = useState('');
 
   // Dynamic category options based on selected cloud
   const formCategoryOptions = useMemo(() => {
@@ -1028,218 +1029,158 @@ export function App() {
 
   // ============ MESSAGE HANDLER ============
   useEffect(() => {
-    function onMessage(event: MessageEvent) {
-      const msg = event.data?.pluginMessage;
-      if (!msg) return;
-
-      switch (msg.type) {
-        case 'PLUGIN_READY':
-          // Plugin is ready - capture user ID and name if provided
-          console.log('Plugin ready signal received');
-          if (msg.user?.id) {
-            setFigmaUserId(msg.user.id);
-          }
-          if (msg.user?.name) {
-            setFigmaUserName(msg.user.name);
-          }
-          break;
-          
-        case 'SELECTED_FRAME_BRANDING_LOADED':
-          setPluginBranding(msg.branding || null);
-          setFrameName(msg.frameName || null);
-          break;
-          
-        case 'FRAME_DETAILS_RESULT':
-          setFrameDetailsLoading(false);
-          if (msg.error) {
-            setFrameDetailsError(msg.error);
-            setFrameDetails(null);
-          } else {
-            setFrameDetails(msg.details);
-            setFrameDetailsError(null);
-          }
-          break;
-          
-        // Data loading messages removed - now handled by backend hooks
-        // Templates, savedItems, etc. are loaded automatically via hooks
-
-        case 'COMPONENT_INFO':
-          // Successfully captured component - including variant data!
-          setCapturedComponent({
-            name: msg.name,
-            key: msg.key,
-            id: msg.id,
-            width: msg.width,
-            height: msg.height,
-            preview: msg.preview,
-            isComponentSet: msg.isComponentSet,
-            variants: msg.variants,
-            variantCount: msg.variantCount,
-          });
-          setFormName(msg.name); // Set editable name
-          setAddStep('configure');
-          break;
-
-        case 'COMPONENT_ERROR':
-          // Failed to capture - go back to instructions
-          setAddStep('instructions');
-          break;
-
-        case 'INSERT_SUCCESS': {
-          setInsertingId(null);
-          const count = msg.count ?? 1;
-          const templateName = msg.templateName || 'Component';
-          const cloudId = msg.cloudId || selectedClouds[0] || undefined;
-          const cloudName = msg.cloudName || (() => {
-            const arr = Array.isArray(editableClouds) ? editableClouds : clouds;
-            const all = [...arr, ...(customClouds ?? [])];
-            return all.find((c: any) => c.id === cloudId)?.name;
-          })();
-          const template = templatesRef.current.find((t: Template) => t.id === msg.templateId);
-          const preview = template?.preview ?? (template?.variants?.[0] as { preview?: string } | undefined)?.preview;
-          const assetData: { preview?: string; nodeId?: string; nodeIds?: string[] } = {};
-          if (preview) assetData.preview = preview;
-          if (msg.nodeId) assetData.nodeId = msg.nodeId;
-          // Store all nodeIds if multiple components were inserted
-          if (msg.nodeIds && msg.nodeIds.length > 0) assetData.nodeIds = msg.nodeIds;
-          logActivityFromClient({
-            action: 'component_insert',
-            assetId: msg.templateId || `insert-${Date.now()}`,
-            assetName: count > 1 ? `${templateName} (${count} items)` : templateName,
-            cloudId,
-            cloudName,
-            userName: msg.userName ?? figmaUserName ?? undefined,
-            assetData: Object.keys(assetData).length > 0 ? assetData : undefined,
-          });
-          fetchCelebrationStats();
-          break;
+    const handleMessage = createUIMessageHandler({
+      PLUGIN_READY: (msg) => {
+        // Plugin is ready - capture user ID and name if provided
+        console.log('Plugin ready signal received');
+        if (msg.user?.id) {
+          setFigmaUserId(msg.user.id);
         }
+        if (msg.user?.name) {
+          setFigmaUserName(msg.user.name);
+        }
+        if (msg.launch) {
+          setLaunchTarget(msg.launch);
+        }
+      },
+
+      SELECTED_FRAME_BRANDING_LOADED: (msg) => {
+        setPluginBranding(msg.branding || null);
+        setFrameName(msg.frameName || null);
+      },
 
-        case 'INSERT_ERROR':
-          setInsertingId(null);
-          break;
+      SELECTED_INSTANCE_CHANGED: (msg) => {
+        setSelectedInstance(msg.instance);
+      },
 
-        case 'TEMPLATE_REFRESHED':
-          // Update template with new preview and data
-          setRefreshingId(null);
-          if (!msg.templateId) {
-            console.warn('Ignored TEMPLATE_REFRESHED without templateId');
-            break;
-          }
+      // Replies to awaited requests (captureComponent, insertTemplate, swapTemplate, refreshTemplate,
+      // detaching, variant previews, the file audit, the library health check, compliance checks,
+      // scaffold plans, scaffolding and captures, the Read Me and cover, the Pages view, frame
+      // details, the client storage migration, queued quick inserts) are claimed by their promise;
+      // these only see replies that arrive after a timeout or cancellation, which are safe to drop
+      FRAME_DETAILS_RESULT: () => {},
+      SCAFFOLD_SUCCESS: () => {},
+      SCAFFOLD_ERROR: () => {},
+      COMPONENT_INFO: () => {},
+      COMPONENT_ERROR: () => {},
+      INSERT_SUCCESS: () => {},
+      INSERT_ERROR: () => {},
+      QUEUED_INSERTS: () => {},
+      SWAP_SUCCESS: () => {},
+      SWAP_ERROR: () => {},
+      INSTANCE_DETACHED: () => {},
+      DETACH_ERROR: () => {},
+      USAGE_AUDIT_RESULT: () => {},
+      USAGE_AUDIT_ERROR: () => {},
+      LIBRARY_HEALTH_RESULT: () => {},
+      COMPLIANCE_RESULT: () => {},
+      COMPLIANCE_ERROR: () => {},
+      COMPLIANCE_FIXES_APPLIED: () => {},
+      SCAFFOLD_PLAN: () => {},
+      READ_ME_GENERATED: () => {},
+      READ_ME_ERROR: () => {},
+      TEXT_STYLE_CAPTURED: () => {},
+      TEXT_STYLE_ERROR: () => {},
+      COVER_INFO: () => {},
+      COVER_ERROR: () => {},
+      PAGES_LIST: () => {},
+      PAGES_ERROR: () => {},
+      PAGE_NAMES_LINTED: () => {},
+      PAGE_NAMES_ERROR: () => {},
+      PAGE_STRUCTURE_CAPTURED: () => {},
+      TEMPLATE_REFRESHED: () => {},
+      TEMPLATE_REFRESH_ERROR: () => {},
+      VARIANT_PREVIEW_RESULT: () => {},
+      VARIANT_PREVIEW_ERROR: () => {},
+
+      REQUEST_FAILED: (msg) => {
+        console.error(`Plugin failed to handle ${msg.requestType}:`, msg.error);
+      },
+
+      ALL_TEMPLATES_REFRESHED: (msg) => {
+        // Update all refreshed templates
+        setIsBackgroundSyncing(false);
+        // Bulletproof: never accept empty payload when we have data - prevents data loss
+        if (Array.isArray(msg.templates) && msg.templates.length === 0) {
+          console.warn('Ignored ALL_TEMPLATES_REFRESHED with empty templates');
+          return;
+        }
+        if (msg.templates && msg.templates.length > 0) {
+          const refreshedMap = new Map(msg.templates.map((t: any) => [t.id, t]));
           // Use functional update to get latest templates (avoid stale closure)
           setTemplates(prevTemplates => {
-            // Bulletproof: never update when we have no templates
+            // Safety check - don't update if templates is empty
             if (!prevTemplates || prevTemplates.length === 0) {
-              console.warn('Skipping refresh update - templates is empty');
+              console.warn('Skipping bulk refresh update - templates is empty');
               return prevTemplates;
             }
             return prevTemplates.map(t => {
-              if (t.id === msg.templateId) {
+              const refreshed = refreshedMap.get(t.id);
+              if (refreshed) {
                 return {
                   ...t,
-                  preview: msg.preview,
-                  size: msg.size,
-                  ...(msg.variants && { variants: msg.variants }),
-                  ...(msg.variantCount && { variantCount: msg.variantCount }),
+                  ...(refreshed.preview && { preview: refreshed.preview }),
+                  size: refreshed.size,
+                  ...(refreshed.variants && { variants: refreshed.variants }),
+                  ...(refreshed.variantCount && { variantCount: refreshed.variantCount }),
+                  ...(refreshed.variantAxes && { variantAxes: refreshed.variantAxes }),
+                  ...(refreshed.properties && { properties: refreshed.properties }),
+                  ...(refreshed.name && { sourceName: refreshed.name }),
+                  // Re-captured from the library, so earlier health warnings no longer apply
+                  health: undefined,
                 };
               }
               return t;
             });
           });
-          break;
+          // Update last refreshed timestamp (disabled for now)
+          // setTemplatesLastRefreshed(Date.now()).catch(console.error);
+        }
+      },
 
-        case 'TEMPLATE_REFRESH_ERROR':
-          setRefreshingId(null);
-          break;
+      NODE_NOT_FOUND: (msg) => {
+        // Component was not found on canvas - fall back to focusing template in UI
+        if (msg.assetId && msg.cloudId) {
+          const template = templates.find(t => t.id === msg.assetId);
+          const templateCategory = template?.category ?? msg.category ?? 'all';
+          const categoriesForCloud = (cloudCategories ?? {})[msg.cloudId] || defaultCategories;
+          const validCategory = categoriesForCloud.some(c => c.id === templateCategory) ? templateCategory : 'all';
+          setSelectedClouds([msg.cloudId]);
+          setView('home');
+          setShowWelcomeScreen(false);
+          setActiveCategory(validCategory);
+          setContentRefreshKey(k => k + 1);
+          setScrollToTemplateId(msg.assetId);
+          setShowActivityHistoryModal(false);
+        } else if (!msg.assetId) {
+          // Audit findings carry no template to fall back to
+          showToast('That layer is no longer in this file - re-run the audit');
+        }
+      },
 
-        case 'VARIANT_PREVIEW_RESULT':
-          if (variantPopoverVariantKeyRef.current === msg.variantKey) {
-            setVariantPopoverHighResPreview(msg.imageData || null);
-          }
-          break;
-
-        case 'VARIANT_PREVIEW_ERROR':
-          setVariantPopoverHighResPreview(null);
-          break;
-
-        case 'ALL_TEMPLATES_REFRESHED':
-          // Update all refreshed templates
-          setIsBackgroundSyncing(false);
-          // Bulletproof: never accept empty payload when we have data - prevents data loss
-          if (Array.isArray(msg.templates) && msg.templates.length === 0) {
-            console.warn('Ignored ALL_TEMPLATES_REFRESHED with empty templates');
-            break;
-          }
-          if (msg.templates && msg.templates.length > 0) {
-            const refreshedMap = new Map(msg.templates.map((t: any) => [t.id, t]));
-            // Use functional update to get latest templates (avoid stale closure)
-            setTemplates(prevTemplates => {
-              // Safety check - don't update if templates is empty
-              if (!prevTemplates || prevTemplates.length === 0) {
-                console.warn('Skipping bulk refresh update - templates is empty');
-                return prevTemplates;
-              }
-              return prevTemplates.map(t => {
-                const refreshed = refreshedMap.get(t.id);
-                if (refreshed) {
-                  return {
-                    ...t,
-                    preview: refreshed.preview,
-                    size: refreshed.size,
-                    ...(refreshed.variants && { variants: refreshed.variants }),
-                    ...(refreshed.variantCount && { variantCount: refreshed.variantCount }),
-                  };
-                }
-                return t;
-              });
-            });
-            // Update last refreshed timestamp (disabled for now)
-            // setTemplatesLastRefreshed(Date.now()).catch(console.error);
-          }
-          break;
-
-        case 'SCAFFOLD_SUCCESS':
-          setIsScaffolding(false);
-          setScaffoldExists(true);
-          setShowPagesCreatedMessage(true);
-          setView('home'); // Go back to home after creating
-          // Hide message after 3 seconds
-          setTimeout(() => setShowPagesCreatedMessage(false), 3000);
-          break;
-
-        case 'SCAFFOLD_ERROR':
-          setIsScaffolding(false);
-          break;
-          
-        // All data loading messages removed - now handled by backend hooks
-        // Data is automatically loaded when hooks mount
-
-        case 'SCAFFOLD_EXISTS':
-          setScaffoldExists(msg.exists);
-          setIsScaffolding(false);
-          break;
-
-        case 'NODE_NOT_FOUND':
-          // Component was not found on canvas - fall back to focusing template in UI
-          if (msg.assetId && msg.cloudId) {
-            const template = templates.find(t => t.id === msg.assetId);
-            const templateCategory = template?.category ?? msg.category ?? 'all';
-            const categoriesForCloud = (cloudCategories ?? {})[msg.cloudId] || defaultCategories;
-            const validCategory = categoriesForCloud.some(c => c.id === templateCategory) ? templateCategory : 'all';
-            setSelectedClouds([msg.cloudId]);
-            setView('home');
-            setShowWelcomeScreen(false);
-            setActiveCategory(validCategory);
-            setContentRefreshKey(k => k + 1);
-            setScrollToTemplateId(msg.assetId);
-            setShowActivityHistoryModal(false);
-          }
-          break;
-      }
-    }
+      // Data loading messages - handled by backend hooks (clientStorage fallback listens
+      // for these itself) and by the one-off migration listener, nothing to do here
+      MIGRATION_DATA: () => {},
+      TEMPLATES_LOADED: () => {},
+      TEMPLATES_SAVED: () => {},
+      FIGMA_LINKS_LOADED: () => {},
+      CLOUD_FIGMA_LINKS_LOADED: () => {},
+      DEFAULT_CLOUD_LOADED: () => {},
+      ONBOARDING_STATE_LOADED: () => {},
+      CUSTOM_CLOUDS_LOADED: () => {},
+      EDITABLE_CLOUDS_LOADED: () => {},
+      HIDDEN_CLOUDS_LOADED: () => {},
+      CLOUD_CATEGORIES_LOADED: () => {},
+      STATUS_SYMBOLS_LOADED: () => {},
+      SAVED_TEMPLATES_LOADED: () => {},
+      CLOUD_POCS_LOADED: () => {},
+
+      // Card previews are captured with the template; nothing requests these yet
+      PREVIEW_RESULT: () => {},
+      PREVIEW_NOT_AVAILABLE: () => {},
+    });
 
-    window.addEventListener('message', onMessage);
-    return () => window.removeEventListener('message', onMessage);
+    return onPluginMessage(handleMessage);
   }, [templates, cloudCategories, defaultCategories]);
 
   // Sync selectedClouds with defaultCloud when it loads
@@ -1579,6 +1520,7 @@ export function App() {
     setFormCategory('components');
     setFormDescription('');
     setFormGoogleSlideLink('');
+    setFormUsage('');
   }
 
   // Go back to home
@@ -1587,9 +1529,43 @@ export function App() {
   }
 
   // Capture component from Figma selection
-  function captureComponent() {
+  async function captureComponent() {
+    captureRequestRef.current?.abort();
+    const controller = new AbortController();
+    captureRequestRef.current = controller;
     setAddStep('loading');
-    parent.postMessage({ pluginMessage: { type: 'GET_COMPONENT_INFO' } }, '*');
+    try {
+      // Component sets export one preview per variant - allow time for large sets
+      const info = await sendAndWait(
+        { type: 'GET_COMPONENT_INFO' },
+        { timeout: 120000, signal: controller.signal }
+      );
+      // Successfully captured component - including variant data!
+      setCapturedComponent({
+        name: info.name,
+        key: info.key,
+        id: info.id,
+        width: info.width,
+        height: info.height,
+        preview: info.preview ?? undefined,
+        isComponentSet: info.isComponentSet,
+        variants: info.variants,
+        variantCount: info.variantCount,
+        variantAxes: info.variantAxes,
+        properties: info.properties,
+      });
+      setFormName(info.name); // Set editable name
+      setAddStep('configure');
+    } catch (error) {
+      if (isCancelledRequest(error)) return;
+      // Failed to capture - go back to instructions
+      if (error instanceof PluginRequestError && error.code === 'timeout') {
+        showToast('Capture timed out - try again');
+      }
+      setAddStep('instructions');
+    } finally {
+      if (captureRequestRef.current === controller) captureRequestRef.current = null;
+    }
   }
 
   // Save new template
@@ -1609,7 +1585,11 @@ export function App() {
       isComponentSet: capturedComponent.isComponentSet,
       variants: capturedComponent.variants,
       variantCount: capturedComponent.variantCount,
+      variantAxes: capturedComponent.variantAxes,
+      properties: capturedComponent.properties,
       googleSlideLink: formGoogleSlideLink || undefined,
+      usage: formUsage.trim() || undefined,
+      sourceName: capturedComponent.name,
     };
 
     const updated = [...templates, newTemplate];
@@ -1629,7 +1609,7 @@ export function App() {
     }
     
     // Show toast and go home
-    parent.postMessage({ pluginMessage: { type: 'SHOW_TOAST', message: `"${capturedComponent.name}" added!` } }, '*');
+    sendToPlugin({ type: 'SHOW_TOAST', message: `"${capturedComponent.name}" added!` });
     setView('home');
     
     // Scroll to the new template and category pill after view transition completes
@@ -1652,78 +1632,223 @@ export function App() {
   }
 
   // Insert template to canvas
-  function insertTemplate(template: Template) {
-    setInsertingId(template.id);
+  async function insertTemplate(template: Template) {
+    setInsertingIds(prev => [...prev, template.id]);
 
     // Get selected slides for multi-select mode
     const selected = selectedSlides[template.id] || [];
+    const cloudName = allClouds.find(c => c.id === template.cloudId)?.name;
+    const properties = propertyValues[template.id];
+    const variantAxes = template.variantAxes ?? [];
+    const variantSelection = selectedVariants[template.id] || {};
     
-    // If it's a component set with variants
-    if (template.isComponentSet && template.variants && template.variants.length > 0) {
-      // If no slides selected, use first one
-      let keysToInsert = selected.length > 0 
-        ? selected 
-        : [template.variants[0].key];
-      
-      // Sort by original order in component set (not selection order)
-      const originalOrder = template.variants.map(v => v.key);
-      keysToInsert = keysToInsert.sort((a, b) => {
-        return originalOrder.indexOf(a) - originalOrder.indexOf(b);
-      });
-      
-      // Get display names for notification (also in order)
-      const slideNames = keysToInsert.map(key => {
-        const variant = template.variants?.find(v => v.key === key);
-        return variant?.displayName || key;
-      });
-      
-      // Send message to insert all selected slides
-      parent.postMessage({
-        pluginMessage: {
+    try {
+      let result: ResponseOf<'IMPORT_COMPONENT'>;
+      if (template.isComponentSet && selected.length === 0 && variantAxes.length > 1 && isCompleteSelection(variantSelection, variantAxes)) {
+        // A value on every axis names one variant - the sandbox matches it in the set
+        result = await sendAndWait({
+          type: 'IMPORT_COMPONENT',
+          payload: {
+            templateId: template.id,
+            templateName: template.name,
+            componentKey: template.componentKey,
+            isComponentSet: true,
+            variantSelection,
+            properties,
+            cloudId: template.cloudId,
+            cloudName,
+            placement: insertPlacement,
+          },
+        }, { timeout: 30000 });
+      } else if (template.isComponentSet && template.variants && template.variants.length > 0) {
+        // If no slides selected, use the first one that fits the axes chosen so far
+        const firstMatch = template.variants.find(v => matchesSelection(getVariantProperties(v), variantSelection));
+        let keysToInsert = selected.length > 0 
+          ? selected 
+          : [(firstMatch ?? template.variants[0]).key];
+        
+        // Sort by original order in component set (not selection order)
+        const originalOrder = template.variants.map(v => v.key);
+        keysToInsert = keysToInsert.sort((a, b) => {
+          return originalOrder.indexOf(a) - originalOrder.indexOf(b);
+        });
+        
+        // Get display names for notification (also in order)
+        const slideNames = keysToInsert.map(key => {
+          const variant = template.variants?.find(v => v.key === key);
+          return variant?.displayName || key;
+        });
+        
+        // Insert all selected slides
+        result = await sendAndWait({
           type: 'IMPORT_MULTIPLE_COMPONENTS',
           payload: { 
             templateId: template.id, 
             templateName: template.name, 
             componentKeys: keysToInsert,
             slideNames: slideNames,
+            properties,
             cloudId: template.cloudId,
-            cloudName: allClouds.find(c => c.id === template.cloudId)?.name,
+            cloudName,
+            placement: insertPlacement,
           },
-        },
-      }, '*');
-    } else {
-      // Simple single component insert
-      parent.postMessage({
-        pluginMessage: {
+        }, { timeout: 60000 });
+      } else {
+        // Simple single component insert
+        result = await sendAndWait({
           type: 'IMPORT_COMPONENT',
           payload: { 
             templateId: template.id, 
             templateName: template.name, 
             componentKey: template.componentKey,
+            properties,
             cloudId: template.cloudId,
-            cloudName: allClouds.find(c => c.id === template.cloudId)?.name,
+            cloudName,
+            placement: insertPlacement,
           },
+        }, { timeout: 30000 });
+      }
+      logTemplateInsert(result);
+    } catch (error) {
+      // The sandbox already notified the user for plugin-side failures
+      if (error instanceof PluginRequestError && error.code === 'timeout') {
+        showToast(`Inserting "${template.name}" is taking too long - check the canvas`);
+      }
+    } finally {
+      setInsertingIds(prev => prev.filter(id => id !== template.id));
+    }
+  }
+
+  // Record a successful insert in the activity log
+  function logTemplateInsert(result: InsertRecord) {
+    const count = result.count ?? 1;
+    const templateName = result.templateName || 'Component';
+    const cloudId = result.cloudId || selectedClouds[0] || undefined;
+    const cloudName = result.cloudName || (() => {
+      const arr = Array.isArray(editableClouds) ? editableClouds : clouds;
+      const all = [...arr, ...(customClouds ?? [])];
+      return all.find((c: any) => c.id === cloudId)?.name;
+    })();
+    const template = templatesRef.current.find((t: Template) => t.id === result.templateId);
+    const preview = template?.preview ?? (template?.variants?.[0] as { preview?: string } | undefined)?.preview;
+    const assetData: { preview?: string; nodeId?: string; nodeIds?: string[] } = {};
+    if (preview) assetData.preview = preview;
+    if (result.nodeId) assetData.nodeId = result.nodeId;
+    // Store all nodeIds if multiple components were inserted
+    if (result.nodeIds && result.nodeIds.length > 0) assetData.nodeIds = result.nodeIds;
+    logActivityFromClient({
+      action: 'component_insert',
+      assetId: result.templateId || `insert-${Date.now()}`,
+      assetName: count > 1 ? `${templateName} (${count} items)` : templateName,
+      cloudId,
+      cloudName,
+      userName: result.userName ?? figmaUserName ?? undefined,
+      assetData: Object.keys(assetData).length > 0 ? assetData : undefined,
+    });
+    fetchCelebrationStats();
+  }
+
+  // Log the quick-action inserts made while the window was closed, once templates are in
+  // for their previews
+  const queuedInsertsTaken = useRef(false);
+  useEffect(() => {
+    if (templatesLoading || queuedInsertsTaken.current) return;
+    queuedInsertsTaken.current = true;
+    sendAndWait({ type: 'TAKE_QUEUED_INSERTS' }, { timeout: 5000 })
+      .then(msg => msg.inserts.forEach(logTemplateInsert))
+      .catch(console.error);
+  }, [templatesLoading]);
+
+  // Swap the instance selected on the canvas to this template (or its selected slide).
+  // The context panel passes the variant and the instance it's showing.
+  async function swapTemplate(template: Template, target?: { variantKey: string; nodeId: string }) {
+    setMoveMenuOpen(null);
+    setSwappingIds(prev => [...prev, template.id]);
+
+    // A single selected slide picks the variant; otherwise use the default one
+    const selected = selectedSlides[template.id] || [];
+    const componentKey = target?.variantKey ?? (selected.length === 1
+      ? selected[0]
+      : template.variants?.[0]?.key || template.componentKey);
+    const variant = template.variants?.find(v => v.key === componentKey);
+    const cloudName = allClouds.find(c => c.id === template.cloudId)?.name;
+
+    try {
+      const result = await sendAndWait({
+        type: 'SWAP_SELECTED_INSTANCE',
+        payload: {
+          templateId: template.id,
+          templateName: template.name,
+          componentKey,
+          variantName: template.isComponentSet ? variant?.displayName : undefined,
+          cloudId: template.cloudId,
+          cloudName,
+          nodeId: target?.nodeId,
         },
-      }, '*');
+      }, { timeout: 30000 });
+      const assetName = variant && template.isComponentSet
+        ? `${template.name} (${variant.displayName})`
+        : template.name;
+      logActivityFromClient({
+        action: 'component_swap',
+        assetId: template.id,
+        assetName: `${result.previousName} → ${assetName}`,
+        cloudId: result.cloudId || template.cloudId,
+        cloudName: result.cloudName || cloudName,
+        userName: result.userName ?? figmaUserName ?? undefined,
+        assetData: {
+          preview: variant?.preview || template.preview,
+          nodeId: result.nodeId,
+          previousName: result.previousName,
+          restoredOverrides: result.restoredOverrides,
+        },
+      });
+    } catch (error) {
+      // The sandbox already notified the user for plugin-side failures
+      if (error instanceof PluginRequestError && error.code === 'timeout') {
+        showToast(`Swapping to "${template.name}" is taking too long - check the canvas`);
+      }
+    } finally {
+      setSwappingIds(prev => prev.filter(id => id !== template.id));
     }
   }
 
+  // Template of the selected instance: by main component key, else by provenance
+  const selectedInstanceTemplate: Template | undefined = selectedInstance
+    ? templates.find(t => !t.deleted && selectedInstance.componentKey !== null && (
+        t.componentKey === selectedInstance.componentKey ||
+        t.variants?.some((v: VariantInfo) => v.key === selectedInstance.componentKey)
+      )) ?? templates.find(t => !t.deleted && t.id === selectedInstance.provenance?.templateId)
+    : undefined;
+
+  function updateTemplateUsage(templateId: string, usage: string) {
+    setTemplates(templates.map(t => (t.id === templateId ? { ...t, usage: usage || undefined } : t)));
+  }
+
   // Toggle variant panel
   function toggleVariantPanel(templateId: string) {
     setExpandedTemplate(prev => prev === templateId ? null : templateId);
   }
 
-  // Update variant selection
-  function updateVariantSelection(templateId: string, property: string, value: string) {
-    setSelectedVariants(prev => ({
+  // Choose a value on one variant axis (again clears it). Slides picked in the grid
+  // that the new choice rules out are deselected.
+  function updateVariantSelection(template: Template, property: string, value: string) {
+    const next = { ...(selectedVariants[template.id] || {}), [property]: value };
+    if (selectedVariants[template.id]?.[property] === value) delete next[property];
+    setSelectedVariants(prev => ({ ...prev, [template.id]: next }));
+    setSelectedSlides(prev => ({
       ...prev,
-      [templateId]: {
-        ...(prev[templateId] || {}),
-        [property]: value,
-      }
+      [template.id]: (prev[template.id] || []).filter(key => {
+        const variant = template.variants?.find(v => v.key === key);
+        return !!variant && matchesSelection(getVariantProperties(variant), next);
+      }),
     }));
   }
 
+  function clearVariantSelection(templateId: string) {
+    setSelectedVariants(prev => ({ ...prev, [templateId]: {} }));
+  }
+
   // Toggle slide selection for multi-select
   function toggleSlideSelection(templateId: string, slideName: string) {
     setSelectedSlides(prev => {
@@ -1891,19 +2016,95 @@ export function App() {
   }
 
   // Refresh template preview from published component
-  function refreshTemplate(template: Template) {
-    setRefreshingId(template.id);
+  async function refreshTemplate(template: Template) {
+    setRefreshingIds(prev => [...prev, template.id]);
     setMoveMenuOpen(null);
-    parent.postMessage({
-      pluginMessage: {
+    try {
+      const result = await sendAndWait({
         type: 'REFRESH_TEMPLATE',
         payload: {
           templateId: template.id,
           componentKey: template.componentKey,
           isComponentSet: template.isComponentSet,
         },
-      },
-    }, '*');
+      }, { timeout: 120000 });
+      // Use functional update to get latest templates (avoid stale closure)
+      setTemplates(prevTemplates => {
+        // Bulletproof: never update when we have no templates
+        if (!prevTemplates || prevTemplates.length === 0) {
+          console.warn('Skipping refresh update - templates is empty');
+          return prevTemplates;
+        }
+        return prevTemplates.map(t => {
+          if (t.id === result.templateId) {
+            return {
+              ...t,
+              ...(result.preview && { preview: result.preview }),
+              size: result.size,
+              ...(result.variants && { variants: result.variants }),
+              ...(result.variantCount && { variantCount: result.variantCount }),
+              ...(result.variantAxes && { variantAxes: result.variantAxes }),
+              ...(result.properties && { properties: result.properties }),
+              ...(result.name && { sourceName: result.name }),
+              // Re-captured from the library, so earlier health warnings no longer apply
+              health: undefined,
+            };
+          }
+          return t;
+        });
+      });
+    } catch (error) {
+      // The sandbox already notified the user for plugin-side failures
+      if (error instanceof PluginRequestError && error.code === 'timeout') {
+        showToast(`Refreshing "${template.name}" timed out`);
+      }
+    } finally {
+      setRefreshingIds(prev => prev.filter(id => id !== template.id));
+    }
+  }
+
+  // Check every template against the library and store the result on each record
+  async function checkLibraryHealth() {
+    const toCheck: Template[] = templates.filter((t: Template & { deleted?: boolean }) => !t.deleted);
+    if (toCheck.length === 0) return;
+    setIsCheckingHealth(true);
+    try {
+      const { results } = await sendAndWait({
+        type: 'CHECK_LIBRARY_HEALTH',
+        payload: {
+          templates: toCheck.map(t => ({
+            id: t.id,
+            name: t.name,
+            componentKey: t.componentKey,
+            isComponentSet: t.isComponentSet,
+            sourceName: t.sourceName,
+            size: t.size,
+            variants: t.variants?.map(v => ({ key: v.key, displayName: v.displayName })),
+          })),
+        },
+      }, { timeout: 600000 });
+      const resultMap = new Map(results.map(r => [r.templateId, r]));
+      // Use functional update to get latest templates (avoid stale closure)
+      setTemplates(prevTemplates => {
+        if (!prevTemplates || prevTemplates.length === 0) {
+          console.warn('Skipping health update - templates is empty');
+          return prevTemplates;
+        }
+        return prevTemplates.map(t => {
+          const result = resultMap.get(t.id);
+          if (!result) return t;
+          const { templateId: _templateId, currentName, ...health } = result;
+          // Older templates have no recorded source name; the first check sets the baseline
+          return { ...t, health, sourceName: t.sourceName ?? currentName };
+        });
+      });
+    } catch (error) {
+      if (error instanceof PluginRequestError && error.code === 'timeout') {
+        showToast('Health check timed out - try again');
+      }
+    } finally {
+      setIsCheckingHealth(false);
+    }
   }
 
   // Move template to different category
@@ -2026,7 +2227,7 @@ export function App() {
 
   function showToast(message: string) {
     try {
-      parent.postMessage({ pluginMessage: { type: 'SHOW_TOAST', message } }, '*');
+      sendToPlugin({ type: 'SHOW_TOAST', message });
     } catch {
       // no-op
     }
@@ -2071,7 +2272,7 @@ export function App() {
     setSelectedClouds([cloudId]);
       setDefaultCloud(cloudId);
     const cloudName = allClouds.find(c => c.id === cloudId)?.name || cloudId;
-    parent.postMessage({ pluginMessage: { type: 'SHOW_TOAST', message: `${cloudName} set as default` } }, '*');
+    sendToPlugin({ type: 'SHOW_TOAST', message: `${cloudName} set as default` });
     setShowCloudSelector(false);
     setHoveredCloud(null);
   }
@@ -2110,7 +2311,7 @@ export function App() {
         { id: 'resources', label: 'Resources' },
       ];
       setCloudCategories({ ...cloudCategories, [newCloud.id]: defaultCats });
-      parent.postMessage({ pluginMessage: { type: 'SHOW_TOAST', message: `${newCloud.name} added!` } }, '*');
+      sendToPlugin({ type: 'SHOW_TOAST', message: `${newCloud.name} added!` });
       
       // Reset form
       setNewCloudName('');
@@ -2209,6 +2410,41 @@ export function App() {
     const t = setTimeout(() => tryScroll(), 200);
     return () => clearTimeout(t);
   }, [scrollToTemplateId, view, contentRefreshKey]);
+
+  // Opened from a relaunch button: go to the Pages view, or to the template with its variant selected
+  useEffect(() => {
+    if (!launchTarget || templatesLoading || !cloudSelectionReady) return;
+    setLaunchTarget(null);
+    setShowSplash(false);
+    if (launchTarget.command === 'pages') {
+      setView('pages');
+      return;
+    }
+
+    const template: Template | undefined = templates.find(t => t.id === launchTarget.templateId && !t.deleted);
+    if (!template) {
+      showToast('That template is no longer in the Starter Kit');
+      return;
+    }
+    const cloudId = launchTarget.cloudId ?? template.cloudId;
+    const categoriesForCloud = (cloudCategories ?? {})[cloudId] || defaultCategories;
+    const variantKey = launchTarget.variantKey;
+    setSelectedClouds([cloudId]);
+    setView('home');
+    setShowWelcomeScreen(false);
+    setActiveCategory(categoriesForCloud.some((c: { id: string }) => c.id === template.category) ? template.category : 'all');
+    if (variantKey && template.variants?.some(v => v.key === variantKey)) {
+      setSelectedSlides(prev => ({ ...prev, [template.id]: [variantKey] }));
+    }
+    if (launchTarget.command === 'swap') {
+      setExpandedTemplate(template.id);
+    }
+    setContentRefreshKey(k => k + 1);
+    setScrollToTemplateId(template.id);
+    if (launchTarget.command === 'refresh') {
+      refreshTemplate(template);
+    }
+  }, [launchTarget, templatesLoading, cloudSelectionReady]);
     
   // Helper functions for settings
   function toggleCloudVisibility(cloudId: string) {
@@ -2291,7 +2527,7 @@ export function App() {
     }
     
     setDeleteCloudConfirmId(null);
-    parent.postMessage({ pluginMessage: { type: 'SHOW_TOAST', message: `${cloud.name} moved to trash` } }, '*');
+    sendToPlugin({ type: 'SHOW_TOAST', message: `${cloud.name} moved to trash` });
   }
   
   // Restore cloud from trash with all associated data
@@ -2330,7 +2566,7 @@ export function App() {
     // Remove from trash
     setDeletedClouds(deletedClouds.filter(d => d.cloud.id !== cloud.id));
     
-    parent.postMessage({ pluginMessage: { type: 'SHOW_TOAST', message: `${cloud.name} restored` } }, '*');
+    sendToPlugin({ type: 'SHOW_TOAST', message: `${cloud.name} restored` });
   }
   
   // Permanently delete cloud from trash
@@ -2374,7 +2610,7 @@ export function App() {
       setBackupList(backups);
     } catch (error) {
       console.error('Failed to load backups:', error);
-      parent.postMessage({ pluginMessage: { type: 'SHOW_TOAST', message: 'Failed to load backups' } }, '*');
+      sendToPlugin({ type: 'SHOW_TOAST', message: 'Failed to load backups' });
     } finally {
       setBackupLoading(false);
     }
@@ -2387,11 +2623,11 @@ export function App() {
     try {
       await restoreFromBackup('templates', backupId);
       // Reload the page to get fresh data
-      parent.postMessage({ pluginMessage: { type: 'SHOW_TOAST', message: 'Backup restored! Reloading...' } }, '*');
+      sendToPlugin({ type: 'SHOW_TOAST', message: 'Backup restored! Reloading...' });
       setTimeout(() => window.location.reload(), 1000);
     } catch (error) {
       console.error('Failed to restore backup:', error);
-      parent.postMessage({ pluginMessage: { type: 'SHOW_TOAST', message: 'Failed to restore backup' } }, '*');
+      sendToPlugin({ type: 'SHOW_TOAST', message: 'Failed to restore backup' });
     } finally {
       setBackupRestoring(null);
     }
@@ -2401,12 +2637,12 @@ export function App() {
     setBackupCreating(true);
     try {
       await createManualBackup('templates', figmaUserName || undefined);
-      parent.postMessage({ pluginMessage: { type: 'SHOW_TOAST', message: 'Backup created successfully!' } }, '*');
+      sendToPlugin({ type: 'SHOW_TOAST', message: 'Backup created successfully!' });
       // Reload backup list
       loadBackups();
     } catch (error) {
       console.error('Failed to create backup:', error);
-      parent.postMessage({ pluginMessage: { type: 'SHOW_TOAST', message: 'Failed to create backup' } }, '*');
+      sendToPlugin({ type: 'SHOW_TOAST', message: 'Failed to create backup' });
     } finally {
       setBackupCreating(false);
     }
@@ -2594,11 +2830,11 @@ export function App() {
       }
 
       if (errors.length > 0) {
-        parent.postMessage({ pluginMessage: { type: 'SHOW_TOAST', message: `Restore had errors: ${errors.join('; ')}` } }, '*');
+        sendToPlugin({ type: 'SHOW_TOAST', message: `Restore had errors: ${errors.join('; ')}` });
         setDataRecoveryError(`Some restores failed. You may need to refresh. ${errors.join('; ')}`);
         return;
       }
-      parent.postMessage({ pluginMessage: { type: 'SHOW_TOAST', message: 'Backup restored!' } }, '*');
+      sendToPlugin({ type: 'SHOW_TOAST', message: 'Backup restored!' });
       setShowDataRecoveryModal(false);
       setDataRecoveryError(null);
       // In-place refresh - sanitize data to prevent null/undefined causing white screen
@@ -2613,11 +2849,11 @@ export function App() {
         await refetchSavedItems();
       } catch (refreshErr) {
         console.error('Refresh after restore:', refreshErr);
-        parent.postMessage({ pluginMessage: { type: 'SHOW_TOAST', message: 'Data refreshed. If something looks wrong, close and reopen the plugin.' } }, '*');
+        sendToPlugin({ type: 'SHOW_TOAST', message: 'Data refreshed. If something looks wrong, close and reopen the plugin.' });
       }
     } catch (error) {
       console.error('Failed to restore:', error);
-      parent.postMessage({ pluginMessage: { type: 'SHOW_TOAST', message: 'Failed to restore backup' } }, '*');
+      sendToPlugin({ type: 'SHOW_TOAST', message: 'Failed to restore backup' });
       setDataRecoveryError('Restore failed. Your data was backed up before the attempt.');
     } finally {
       setDataRecoveryRestoring(false);
@@ -2633,7 +2869,7 @@ async function loadActivityLog(cloudId?: string) {
       setActivityLog(activities);
    } catch (error) {
       console.error('Failed to load activity log:', error);
-      parent.postMessage({ pluginMessage: { type: 'SHOW_TOAST', message: 'Failed to load activity history' } }, '*');
+      sendToPlugin({ type: 'SHOW_TOAST', message: 'Failed to load activity history' });
     } finally {
       setActivityLoading(false);
     }
@@ -2682,7 +2918,7 @@ async function loadActivityLog(cloudId?: string) {
     setActivityRestoring(true);
     try {
       const result = await restoreFromActivityLog(Array.from(selectedActivities), figmaUserName || undefined);
-      parent.postMessage({ pluginMessage: { type: 'SHOW_TOAST', message: result.message } }, '*');
+      sendToPlugin({ type: 'SHOW_TOAST', message: result.message });
       
       setShowActivityHistoryModal(false);
       setSelectedActivities(new Set());
@@ -2693,7 +2929,7 @@ async function loadActivityLog(cloudId?: string) {
       fetchActivityHistoryStats(cloudId);
     } catch (error) {
       console.error('Failed to restore items:', error);
-      parent.postMessage({ pluginMessage: { type: 'SHOW_TOAST', message: 'Failed to restore items' } }, '*');
+      sendToPlugin({ type: 'SHOW_TOAST', message: 'Failed to restore items' });
     } finally {
       setActivityRestoring(false);
     }
@@ -2714,6 +2950,9 @@ async function loadActivityLog(cloudId?: string) {
       case 'poc_update': return 'POC updated';
       case 'poc_delete': return 'POC removed';
       case 'component_insert': return 'Component inserted';
+      case 'component_swap': return 'Component swapped';
+      case 'page_archive': return 'Page archived';
+      case 'page_unarchive': return 'Page unarchived';
       default: return action.replace(/_/g, ' ');
     }
   }
@@ -2733,6 +2972,9 @@ async function loadActivityLog(cloudId?: string) {
       case 'poc_update': return 'activity-badge--updated';
       case 'poc_delete': return 'activity-badge--deleted';
       case 'component_insert': return 'activity-badge--added';
+      case 'component_swap': return 'activity-badge--updated';
+      case 'page_archive': return 'activity-badge--scaffold';
+      case 'page_unarchive': return 'activity-badge--scaffold';
       default: return 'activity-badge--updated';
     }
   }
@@ -2745,7 +2987,7 @@ async function loadActivityLog(cloudId?: string) {
       setSelectedClouds(['sales']);
       setCustomClouds([]);
       setStatusSymbols(defaultStatusSymbols);
-      setScaffoldSections(defaultScaffoldSections);
+      setScaffoldSections(cloneSections(DEFAULT_SCAFFOLD_SECTIONS));
       setCloudFigmaLinks({});
       setCloudPOCs({});
       setHiddenClouds([]);
@@ -2778,39 +3020,157 @@ async function loadActivityLog(cloudId?: string) {
     setShowSplash(false);
     
     const cloudName = customCloud?.name || clouds.find(c => c.id === selectedCloud)?.name || selectedCloud;
-    parent.postMessage({ pluginMessage: { type: 'SHOW_TOAST', message: `Welcome! Showing ${cloudName} templates` } }, '*');
+    sendToPlugin({ type: 'SHOW_TOAST', message: `Welcome! Showing ${cloudName} templates` });
   }
 
-  // Scaffold file structure
-  function scaffoldFileStructure() {
-    setIsScaffolding(true);
-    
-    // Use selected cover variant directly
-    let coverComponentKey: string | undefined;
-    
-    if (selectedCoverVariant) {
-      if (selectedCoverVariant.variantKey) {
-        // Direct variant key
-        coverComponentKey = selectedCoverVariant.variantKey;
-      } else {
-        // Single component - get its key
-        const template = templates.find(t => t.id === selectedCoverVariant.templateId);
-        coverComponentKey = template?.componentKey;
-      }
-      console.log('Using selected cover:', selectedCoverVariant.name, 'key:', coverComponentKey);
+  // Load a preset into the editor, starting a fresh undo history
+  function loadPageStructure(preset: PageStructurePreset, sections = preset.sections) {
+    isUndoRedoRef.current = true;
+    setActivePresetId(preset.id);
+    setScaffoldSections(cloneSections(sections));
+    setHistory([cloneSections(sections)]);
+    setHistoryIndex(0);
+  }
+
+  // Open the scaffold view on the named preset (rule links pass their label), else the cloud default
+  function openScaffold(presetName?: string) {
+    const { presets, defaultPresetId } = cloudPageStructures;
+    const preset =
+      presets.find(p => presetName && p.name.toLowerCase() === presetName.toLowerCase()) ??
+      presets.find(p => p.id === defaultPresetId) ??
+      presets[0];
+    loadPageStructure(preset);
+    setScaffoldPlan(null);
+    setView('scaffold');
+  }
+
+  function selectPageStructure(presetId: string) {
+    if (isScaffoldDirty && !confirm('Discard your unsaved changes to this page structure?')) return;
+    const preset = cloudPageStructures.presets.find(p => p.id === presetId);
+    if (preset) loadPageStructure(preset);
+  }
+
+  // Write the current cloud's presets back to the backend
+  function updatePageStructures(changes: Partial<CloudPageStructures>) {
+    const cloudId = selectedClouds[0];
+    if (!cloudId) return;
+    savePageStructures({ ...pageStructures, [cloudId]: { ...cloudPageStructures, ...changes } });
+  }
+
+  function logPageStructure(assetId: string, assetName: string) {
+    const cloud = allClouds.find(c => c.id === selectedClouds[0]);
+    logActivityFromClient({ action: 'page_structure', assetId, assetName, cloudId: selectedClouds[0] || undefined, cloudName: cloud?.name, userName: figmaUserName || undefined });
+  }
+
+  // One entry per page, named as it was before; the new name goes in assetData
+  function logPageArchive(action: 'page_archive' | 'page_unarchive', pages: { id: string; name: string; newName: string }[]) {
+    const cloud = allClouds.find(c => c.id === selectedClouds[0]);
+    for (const page of pages) {
+      logActivityFromClient({
+        action,
+        assetId: page.id,
+        assetName: page.name,
+        assetData: { newName: page.newName },
+        cloudId: selectedClouds[0] || undefined,
+        cloudName: cloud?.name,
+        userName: figmaUserName || undefined,
+      });
     }
-    
-    // Find cover template for logging
-    const coverTemplate = selectedCoverVariant 
-      ? templates.find(t => t.id === selectedCoverVariant.templateId) 
-      : null;
-    
-    console.log('Found cover template:', coverTemplate?.name, 'category:', coverTemplate?.category);
-    console.log('Has variants:', coverTemplate?.isComponentSet, 'count:', coverTemplate?.variants?.length);
-    console.log('Final cover component key:', coverComponentKey);
-    
-    // Build pages list from editable scaffold sections
-    const pages: Array<{ name: string; isRename: boolean }> = [];
+  }
+
+  function savePageStructureVersion() {
+    const saved = withPageStructureVersion(activePreset, cloneSections(scaffoldSections), figmaUserName);
+    updatePageStructures({ presets: cloudPageStructures.presets.map(p => (p.id === saved.id ? saved : p)) });
+    logPageStructure(saved.id, `Saved page structure "${saved.name}" v${saved.version}`);
+  }
+
+  function savePageStructureAs(name: string) {
+    const preset: PageStructurePreset = {
+      id: `preset-${Date.now()}`,
+      name,
+      version: 1,
+      sections: cloneSections(scaffoldSections),
+      updatedAt: new Date().toISOString(),
+      updatedBy: figmaUserName,
+      history: [],
+    };
+    updatePageStructures({ presets: [...cloudPageStructures.presets, preset] });
+    setActivePresetId(preset.id);
+    logPageStructure(preset.id, `Created page structure "${name}"`);
+  }
+
+  function setDefaultPageStructure() {
+    updatePageStructures({ defaultPresetId: activePreset.id });
+    logPageStructure(activePreset.id, `Set "${activePreset.name}" as the default page structure`);
+  }
+
+  function deletePageStructure() {
+    if (!confirm(`Delete the page structure "${activePreset.name}"?`)) return;
+    const remaining = cloudPageStructures.presets.filter(p => p.id !== activePreset.id);
+    const defaultPresetId = cloudPageStructures.defaultPresetId === activePreset.id
+      ? remaining[0].id
+      : cloudPageStructures.defaultPresetId;
+    updatePageStructures({ presets: remaining, defaultPresetId });
+    loadPageStructure(remaining.find(p => p.id === defaultPresetId) ?? remaining[0]);
+    logPageStructure(activePreset.id, `Deleted page structure "${activePreset.name}"`);
+  }
+
+  // Earlier versions load into the editor; saving makes them the next version
+  function restorePageStructureVersion(version: number) {
+    const previous = activePreset.history.find(v => v.version === version);
+    if (!previous) return;
+    if (isScaffoldDirty && !confirm('Discard your unsaved changes to this page structure?')) return;
+    setScaffoldSections(cloneSections(previous.sections));
+  }
+
+  function updateReadMeStyles(readMeStyles: ReadMeTextStyles) {
+    updatePageStructures({ readMeStyles });
+    logPageStructure('scaffold-readme-styles', 'Updated Read Me text styles');
+  }
+
+  // Team data the generated Read Me page lists for the current cloud
+  function buildReadMeContent(): ReadMeContent {
+    const cloudId = selectedClouds[0];
+    const cloud = allClouds.find(c => c.id === cloudId);
+    return {
+      cloudName: cloud?.name ?? 'Team',
+      pocs: (cloudPOCs[cloudId] || []).filter((poc: CloudPOC) => poc.name?.trim()),
+      links: (cloudFigmaLinks[cloudId] || []).map((link: { name: string; url: string }) => ({ name: link.name, url: link.url })),
+      statuses: (statusSymbols ?? []).map(s => ({ symbol: s.symbol, label: s.label })),
+      rules: housekeepingRules.map(rule => ({ title: rule.title, description: rule.description })),
+      textStyles: cloudPageStructures.readMeStyles,
+    };
+  }
+
+  function updateReleases(releases: string[]) {
+    updatePageStructures({ releases });
+    logPageStructure('scaffold-releases', `Updated release list (${releases.length})`);
+  }
+
+  // Replace the editor's sections with the current file's layout; saving it is left to the POC
+  async function captureFileStructure() {
+    if (isScaffoldDirty && !confirm('Replace your unsaved changes with this file\'s page structure?')) return;
+    try {
+      const { sections } = await sendAndWait({
+        type: 'CAPTURE_PAGE_STRUCTURE',
+        payload: { symbols: (statusSymbols ?? []).map(s => s.symbol), releases: cloudPageStructures.releases ?? [] },
+      });
+      const stamp = Date.now();
+      setScaffoldSections(sections.map((section, i) => ({
+        id: `captured-${stamp}-${i}`,
+        name: section.name,
+        pages: section.pages.map((page, j) => ({ id: `captured-${stamp}-${i}-${j}`, ...page })),
+      })));
+      const count = sections.reduce((total, section) => total + section.pages.length, 0);
+      showToast(`Captured ${count} pages from this file. Tidy them up, then Save as new.`);
+    } catch (error) {
+      showToast(error instanceof Error ? error.message : 'Could not read this file\'s pages');
+    }
+  }
+
+  // Page list as edited, placeholders and all
+  function buildScaffoldPages(): ScaffoldPageSpec[] {
+    const pages: ScaffoldPageSpec[] = [];
     
     scaffoldSections.forEach((section, sectionIndex) => {
       // Add divider before sections (except first and top-level)
@@ -2827,18 +3187,105 @@ async function loadActivityLog(cloudId?: string) {
       section.pages.forEach(page => {
         pages.push({
           name: page.status ? `${page.status} ${page.name}` : page.name,
-          isRename: page.isRename || false
+          isRename: page.isRename || false,
+          // Templates are looked up now so the latest published key is used
+          content: page.content?.map(item =>
+            item.kind === 'template'
+              ? { ...item, componentKey: templates.find(t => t.id === item.templateId)?.componentKey }
+              : item
+          ),
         });
       });
     });
     
-    parent.postMessage({ 
-      pluginMessage: { 
+    return pages;
+  }
+
+  // Placeholders in the page names and the values they'll be replaced with; dates default
+  // to today and the release to the cloud's newest
+  const scaffoldTokens = findPlaceholderTokens(buildScaffoldPages().map(page => page.name));
+  const resolvedTokenValues = Object.fromEntries(scaffoldTokens.map(token => [
+    token,
+    scaffoldTokenValues[token] ??
+      (isReleaseToken(token) ? cloudPageStructures.releases?.[0] ?? '' : defaultTokenValue(token)),
+  ]));
+
+  // Cover text: what's been typed or read from the cover, else the placeholders and the current user
+  const releaseToken = scaffoldTokens.find(isReleaseToken);
+  const featureToken = scaffoldTokens.find(token => token.toLowerCase().replace(/[^a-z]/g, '') === 'featurename');
+  const coverFields: CoverFields = {
+    featureName: featureToken ? resolvedTokenValues[featureToken] : undefined,
+    release: releaseToken ? resolvedTokenValues[releaseToken] : cloudPageStructures.releases?.[0],
+    owner: figmaUserName ?? undefined,
+    lastUpdated: new Date().toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' }),
+    ...coverFieldValues,
+  };
+
+  // Page list sent to the plugin, with placeholders filled in
+  function resolveScaffoldPages(): ScaffoldPageSpec[] {
+    return buildScaffoldPages().map(page => ({ ...page, name: resolvePlaceholders(page.name, resolvedTokenValues) }));
+  }
+
+  // Compare the page structure to the file and list the changes for approval
+  async function reviewScaffold() {
+    setIsScaffolding(true);
+    try {
+      const { plan } = await sendAndWait({ type: 'PLAN_SCAFFOLD', pages: resolveScaffoldPages() }, { timeout: 60000 });
+      setScaffoldPlan(plan);
+      setApprovedScaffoldSteps(plan.steps.filter(step => step.recommended).map(step => step.id));
+    } catch (error) {
+      showToast(error instanceof Error ? error.message : 'Could not compare the page structure');
+    } finally {
+      setIsScaffolding(false);
+    }
+  }
+
+  function toggleScaffoldStep(stepId: string) {
+    setApprovedScaffoldSteps(prev =>
+      prev.includes(stepId) ? prev.filter(id => id !== stepId) : [...prev, stepId]
+    );
+  }
+
+  // Apply the approved steps
+  async function scaffoldFileStructure() {
+    setIsScaffolding(true);
+    
+    // Use selected cover variant directly
+    let coverComponentKey: string | undefined;
+    
+    if (selectedCoverVariant) {
+      if (selectedCoverVariant.variantKey) {
+        // Direct variant key
+        coverComponentKey = selectedCoverVariant.variantKey;
+      } else {
+        // Single component - get its key
+        const template = templates.find(t => t.id === selectedCoverVariant.templateId);
+        coverComponentKey = template?.componentKey;
+      }
+    }
+    
+    try {
+      await sendAndWait({
         type: 'SCAFFOLD_FILE_STRUCTURE',
         coverComponentKey,
-        pages
-      } 
-    }, '*');
+        pages: resolveScaffoldPages(),
+        approvedStepIds: approvedScaffoldSteps,
+        readMe: buildReadMeContent(),
+        cover: Object.fromEntries(Object.entries(coverFields).filter(([, value]) => value)),
+      }, { timeout: 120000 });
+      setScaffoldPlan(null);
+      setShowPagesCreatedMessage(true);
+      setView('home'); // Go back to home after creating
+      // Hide message after 3 seconds
+      setTimeout(() => setShowPagesCreatedMessage(false), 3000);
+    } catch (error) {
+      // The sandbox already notified the user for plugin-side failures
+      if (error instanceof PluginRequestError && error.code === 'timeout') {
+        showToast('Creating pages is taking too long - check the file');
+      }
+    } finally {
+      setIsScaffolding(false);
+    }
   }
 
   // Get frame details (navigates to frame details view)
@@ -2850,13 +3297,27 @@ async function loadActivityLog(cloudId?: string) {
     
     const isInFigma = window.parent !== window && typeof parent.postMessage === 'function';
     if (isInFigma) {
-      parent.postMessage({ pluginMessage: { type: 'GET_FRAME_DETAILS' } }, '*');
+      loadFrameDetails();
     } else {
       setFrameDetailsError('This feature only works in Figma');
       setFrameDetailsLoading(false);
     }
   }
 
+  // Read the selected frame's details (also re-read after compliance fixes change it)
+  async function loadFrameDetails() {
+    try {
+      const result = await sendAndWait({ type: 'GET_FRAME_DETAILS' }, { timeout: 30000 });
+      setFrameDetails(result.error ? null : result.details);
+      setFrameDetailsError(result.error ?? null);
+    } catch (error) {
+      setFrameDetails(null);
+      setFrameDetailsError(error instanceof Error ? error.message : 'Could not read the frame');
+    } finally {
+      setFrameDetailsLoading(false);
+    }
+  }
+
   // Simple markdown renderer for descriptions
   function renderMarkdown(text: string) {
     if (!text) return null;
@@ -2947,21 +3408,6 @@ async function loadActivityLog(cloudId?: string) {
     });
   }
 
-  // Check frame compliance inline (doesn't navigate)
-  function checkFrameCompliance() {
-    setFrameDetailsLoading(true);
-    setFrameDetailsError(null);
-    setFrameDetails(null);
-    
-    const isInFigma = window.parent !== window && typeof parent.postMessage === 'function';
-    if (isInFigma) {
-      parent.postMessage({ pluginMessage: { type: 'GET_FRAME_DETAILS' } }, '*');
-    } else {
-      setFrameDetailsError('This feature only works in Figma');
-      setFrameDetailsLoading(false);
-    }
-  }
-
   const VERSION = '1.18.1';
 
   // Safety: after 10s, force show UI even if loading (prevents stuck blank screen)
@@ -3337,13 +3783,33 @@ async function loadActivityLog(cloudId?: string) {
                         </button>
                         <button 
                           className="header__dropdown-menu-item"
-                          onClick={() => { setView('scaffold'); setShowMoreMenu(false); }}
+                          onClick={() => { openScaffold(); setShowMoreMenu(false); }}
                         >
                           <svg width="14" height="14" viewBox="0 0 16 16" fill="currentColor">
                             <path d="M2 2h12v12H2V2zm1 1v10h10V3H3zm1 1h8v1H4V4zm0 2h8v1H4V6zm0 2h8v1H4V8zm0 2h5v1H4v-1z"/>
                           </svg>
                           Create Pages
                         </button>
+                        <button 
+                          className="header__dropdown-menu-item"
+                          onClick={() => { setView('audit'); setShowMoreMenu(false); }}
+                        >
+                          <svg width="14" height="14" viewBox="0 0 16 16" fill="none" stroke="currentColor" strokeWidth="1.2" strokeLinecap="round" strokeLinejoin="round">
+                            <circle cx="7" cy="7" r="4.5"/>
+                            <path d="M10.5 10.5l3 3M5 7h4"/>
+                          </svg>
+                          Audit File
+                        </button>
+                        <button 
+                          className="header__dropdown-menu-item"
+                          onClick={() => { setView('pages'); setShowMoreMenu(false); }}
+                        >
+                          <svg width="14" height="14" viewBox="0 0 16 16" fill="none" stroke="currentColor" strokeWidth="1.2" strokeLinecap="round" strokeLinejoin="round">
+                            <path d="M4 3h8M4 6h8M4 9h8M4 12h5"/>
+                            <circle cx="2" cy="3" r=".5"/>
+                          </svg>
+                          Pages
+                        </button>
                         {deletedTemplates.length > 0 && (
                           <>
                             <div className="header__dropdown-divider"></div>
@@ -3492,7 +3958,7 @@ async function loadActivityLog(cloudId?: string) {
                                 const updatedLinks = [...currentLinks, newLink];
                                 const updatedCloudLinks = { ...cloudFigmaLinks, [currentCloudId]: updatedLinks };
                                 setCloudFigmaLinks(updatedCloudLinks);
-                                parent.postMessage({ pluginMessage: { type: 'SAVE_CLOUD_FIGMA_LINKS', links: updatedCloudLinks } }, '*');
+                                sendToPlugin({ type: 'SAVE_CLOUD_FIGMA_LINKS', links: updatedCloudLinks });
                                 setNewLinkName('');
                                 setNewLinkUrl('');
                                 setIsAddingLink(false);
@@ -3522,7 +3988,7 @@ async function loadActivityLog(cloudId?: string) {
                                     const updatedLinks = currentLinks.filter(l => l.id !== link.id);
                                     const updatedCloudLinks = { ...cloudFigmaLinks, [currentCloudId]: updatedLinks };
                                     setCloudFigmaLinks(updatedCloudLinks);
-                                    parent.postMessage({ pluginMessage: { type: 'SAVE_CLOUD_FIGMA_LINKS', links: updatedCloudLinks } }, '*');
+                                    sendToPlugin({ type: 'SAVE_CLOUD_FIGMA_LINKS', links: updatedCloudLinks });
                                   }}
                                 >
                                   ×
@@ -3683,23 +4149,62 @@ async function loadActivityLog(cloudId?: string) {
       {/* Content Container - Scrollable */}
       <div className="content-container">
         <div className={`content ${view === 'scaffold' ? 'content--scaffold' : ''}`} key={view === 'home' ? `home-${contentRefreshKey}` : 'scaffold'}>
+        {view === 'home' && selectedInstance && selectedInstanceTemplate && (
+          <SelectionContextPanel
+            instance={selectedInstance}
+            template={selectedInstanceTemplate}
+            cloudName={allClouds.find(c => c.id === selectedInstanceTemplate.cloudId)?.name}
+            swapping={swappingIds.includes(selectedInstanceTemplate.id)}
+            refreshing={refreshingIds.includes(selectedInstanceTemplate.id)}
+            onSwap={(variantKey) => swapTemplate(selectedInstanceTemplate, { variantKey, nodeId: selectedInstance.nodeId })}
+            onRefresh={() => refreshTemplate(selectedInstanceTemplate)}
+            onUsageChange={(usage) => updateTemplateUsage(selectedInstanceTemplate.id, usage)}
+          />
+        )}
         {view === 'scaffold' ? (
           <div className="scaffold-section scaffold-section--fixed-footer">
             <div className="scaffold-section__scrollable">
               <button 
                 className="scaffold-section__back"
-                onClick={() => setView('home')}
+                onClick={() => { setScaffoldPlan(null); setView('home'); }}
               >
                 <svg width="12" height="12" viewBox="0 0 16 16" fill="currentColor">
                   <path fillRule="evenodd" d="M15 8a.5.5 0 0 0-.5-.5H2.707l3.147-3.146a.5.5 0 1 0-.708-.708l-4 4a.5.5 0 0 0 0 .708l4 4a.5.5 0 0 0 .708-.708L2.707 8.5H14.5A.5.5 0 0 0 15 8z"/>
                 </svg>
                 Back
               </button>
-              <h3 className="scaffold-section__title">Create Page Structure</h3>
+              <h3 className="scaffold-section__title">{scaffoldPlan ? 'Review Changes' : 'Create Page Structure'}</h3>
               <p className="scaffold-section__desc">
-                {isEditingScaffold ? 'Edit your page structure below' : 'Creates the team page structure in your Figma file'}
+                {scaffoldPlan
+                  ? 'Choose what to change in this file. Existing pages and their content are never removed.'
+                  : isEditingScaffold ? 'Edit your page structure below' : 'Adds the team page structure to your Figma file, keeping the pages already there'}
               </p>
               
+              {scaffoldPlan ? (
+                <ScaffoldPlanReview
+                  plan={scaffoldPlan}
+                  approved={approvedScaffoldSteps}
+                  onToggle={toggleScaffoldStep}
+                />
+              ) : (
+              <>
+              <PageStructurePresets
+                presets={cloudPageStructures.presets}
+                activePresetId={activePreset.id}
+                defaultPresetId={cloudPageStructures.defaultPresetId}
+                editing={isEditingScaffold}
+                dirty={isScaffoldDirty}
+                onSelect={selectPageStructure}
+                onSaveVersion={savePageStructureVersion}
+                onSaveAsNew={savePageStructureAs}
+                onSetDefault={setDefaultPageStructure}
+                onDelete={deletePageStructure}
+                onRestoreVersion={restorePageStructureVersion}
+                onCaptureFromFile={captureFileStructure}
+                releases={cloudPageStructures.releases ?? []}
+                onReleasesChange={updateReleases}
+              />
+
               {/* Editable or Read-only preview based on mode */}
               <div className={`scaffold-preview ${isEditingScaffold ? 'scaffold-preview--editable' : 'scaffold-preview--readonly'}`}>
                 {scaffoldSections.map((section, sectionIndex) => (
@@ -3899,8 +4404,8 @@ async function loadActivityLog(cloudId?: string) {
                     ) : null}
                     
                     {section.pages.map((page, pageIndex) => (
+                      <React.Fragment key={page.id}>
                       <div 
-                        key={page.id} 
                         className={`scaffold-preview__item ${section.name ? 'scaffold-preview__item--indent' : ''} ${!isEditingScaffold ? 'scaffold-preview__item--readonly' : ''}`}
                         draggable={isEditingScaffold}
                         onDragStart={(e) => { 
@@ -4034,6 +4539,15 @@ async function loadActivityLog(cloudId?: string) {
                             )}
                           </div>
                         )}
+                        {!page.isRename && (isEditingScaffold || (page.content?.length ?? 0) > 0) && (
+                          <button
+                            className={`scaffold-preview__content-btn ${starterContentPageId === page.id ? 'is-open' : ''}`}
+                            onClick={() => setStarterContentPageId(starterContentPageId === page.id ? null : page.id)}
+                            title="What this page starts with"
+                          >
+                            {page.content?.length ? `${page.content.length} item${page.content.length !== 1 ? 's' : ''}` : '+ Content'}
+                          </button>
+                        )}
                         {isEditingScaffold && !page.isRename && (
                           <button className="scaffold-preview__delete-btn" onClick={() => {
                             const newSections = [...scaffoldSections];
@@ -4043,6 +4557,32 @@ async function loadActivityLog(cloudId?: string) {
                           }}>×</button>
                         )}
             </div>
+                      {starterContentPageId === page.id && (
+                        isEditingScaffold ? (
+                          <StarterContentEditor
+                            content={page.content ?? []}
+                            templates={templates
+                              .filter((t: Template & { deleted?: boolean }) => !t.deleted)
+                              .map((t: Template) => ({ id: t.id, name: t.name }))}
+                            onChange={(content) => {
+                              const newSections = [...scaffoldSections];
+                              const newPages = [...section.pages];
+                              newPages[pageIndex] = { ...page, content: content.length > 0 ? content : undefined };
+                              newSections[sectionIndex] = { ...section, pages: newPages };
+                              setScaffoldSections(newSections);
+                            }}
+                          />
+                        ) : (
+                          <ul className="starter-content__summary">
+                            {(page.content ?? []).map((item, i) => (
+                              <li key={i}>
+                                {item.kind === 'frame' ? `${item.name} (${item.width} × ${item.height})` : item.kind === 'section' ? `Section: ${item.name}` : `Template: ${item.name}`}
+                              </li>
+                            ))}
+                          </ul>
+                        )
+                      )}
+                      </React.Fragment>
                     ))}
                     
                     {isEditingScaffold && (
@@ -4110,9 +4650,34 @@ async function loadActivityLog(cloudId?: string) {
                   >+ Add Section</button>
                 )}
               </div>
+
+              {!isEditingScaffold && (
+                <ScaffoldTokenForm
+                  tokens={scaffoldTokens}
+                  values={resolvedTokenValues}
+                  releases={cloudPageStructures.releases ?? []}
+                  onChange={(token, value) => setScaffoldTokenValues(prev => ({ ...prev, [token]: value }))}
+                />
+              )}
+
+              <ReadMeSettings
+                content={buildReadMeContent()}
+                editing={isEditingScaffold}
+                onStylesChange={updateReadMeStyles}
+              />
+
+              {!isEditingScaffold && (
+                <CoverSettings
+                  fields={coverFields}
+                  onChange={(fields) => setCoverFieldValues(prev => ({ ...prev, ...fields }))}
+                />
+              )}
+              </>
+              )}
             </div>
 
             {/* Status section above footer */}
+            {!scaffoldPlan && (
             <div className={`scaffold-status-bar ${isEditingStatusBadges ? 'scaffold-status-bar--editing' : ''}`}>
               <div className="scaffold-hint__header">
                 <strong>Status:</strong>
@@ -4183,23 +4748,46 @@ async function loadActivityLog(cloudId?: string) {
                 </div>
               )}
             </div>
+            )}
 
             {/* Fixed Footer with CTAs */}
             <div className="scaffold-section__footer">
-              <Button 
-                variant="brand"
-                onClick={() => { scaffoldFileStructure(); }}
-                loading={isScaffolding}
-                disabled={scaffoldExists || isEditingScaffold}
-              >
-                {scaffoldExists ? 'Already Exists' : 'Insert Pages'}
-              </Button>
-              <Button 
-                variant={isEditingScaffold ? 'brand-outline' : 'neutral'}
-                onClick={() => setIsEditingScaffold(!isEditingScaffold)}
-              >
-                {isEditingScaffold ? 'Done Editing' : 'Edit'}
-              </Button>
+              {scaffoldPlan ? (
+                <>
+                  <Button 
+                    variant="brand"
+                    onClick={() => { scaffoldFileStructure(); }}
+                    loading={isScaffolding}
+                    disabled={approvedScaffoldSteps.length === 0}
+                  >
+                    {`Apply ${approvedScaffoldSteps.length} Change${approvedScaffoldSteps.length !== 1 ? 's' : ''}`}
+                  </Button>
+                  <Button 
+                    variant="neutral"
+                    onClick={() => setScaffoldPlan(null)}
+                    disabled={isScaffolding}
+                  >
+                    Back to Structure
+                  </Button>
+                </>
+              ) : (
+                <>
+                  <Button 
+                    variant="brand"
+                    onClick={() => { reviewScaffold(); }}
+                    loading={isScaffolding}
+                    disabled={isEditingScaffold}
+                  >
+                    Review Changes
+                  </Button>
+                  <Button 
+                    variant={isEditingScaffold ? 'brand-outline' : 'neutral'}
+                    onClick={() => setIsEditingScaffold(!isEditingScaffold)}
+                  >
+                    {isEditingScaffold ? 'Done Editing' : 'Edit'}
+                  </Button>
+                </>
+              )}
             </div>
             </div>
         ) : view === 'settings' ? (
@@ -4278,7 +4866,7 @@ async function loadActivityLog(cloudId?: string) {
                                               c.id === cloud.id ? { ...c, icon: iconUrl } : c
                                             );
                                             setEditableClouds(updated);
-                                            parent.postMessage({ pluginMessage: { type: 'SAVE_EDITABLE_CLOUDS', clouds: updated } }, '*');
+                                            sendToPlugin({ type: 'SAVE_EDITABLE_CLOUDS', clouds: updated });
                                           }
                                         };
                                         reader.readAsDataURL(file);
@@ -4298,13 +4886,13 @@ async function loadActivityLog(cloudId?: string) {
                                         c.id === cloud.id ? { ...c, name: e.target.value } : c
                                       );
                                       setCustomClouds(updatedCustom);
-                                      parent.postMessage({ pluginMessage: { type: 'SAVE_CUSTOM_CLOUDS', clouds: updatedCustom } }, '*');
+                                      sendToPlugin({ type: 'SAVE_CUSTOM_CLOUDS', clouds: updatedCustom });
                                     } else if (Array.isArray(editableClouds)) {
                                       const updated = editableClouds.map(c => 
                                         c.id === cloud.id ? { ...c, name: e.target.value } : c
                                       );
                                       setEditableClouds(updated);
-                                      parent.postMessage({ pluginMessage: { type: 'SAVE_EDITABLE_CLOUDS', clouds: updated } }, '*');
+                                      sendToPlugin({ type: 'SAVE_EDITABLE_CLOUDS', clouds: updated });
                                     }
                                   }}
                                   onClick={(e) => e.stopPropagation()}
@@ -4317,7 +4905,7 @@ async function loadActivityLog(cloudId?: string) {
                                       setDefaultCloud(cloud.id);
                                       setSelectedClouds([cloud.id]);
                                       const cloudName = allClouds.find(c => c.id === cloud.id)?.name || cloud.id;
-                                      parent.postMessage({ pluginMessage: { type: 'SHOW_TOAST', message: `${cloudName} set as default` } }, '*');
+                                      sendToPlugin({ type: 'SHOW_TOAST', message: `${cloudName} set as default` });
                                     }
                                   }}
                                   disabled={safeHiddenClouds.includes(cloud.id)}
@@ -4619,6 +5207,15 @@ async function loadActivityLog(cloudId?: string) {
                       />
             </div>
           </div>
+
+                  <div className="form-field">
+                    <Input
+                      label="Usage Guidance"
+                      placeholder="When to use it, what to fill in..."
+                      value={formUsage}
+                      onChange={(e) => setFormUsage(e.target.value)}
+                    />
+                  </div>
                 </CardContent>
                 <CardFooter>
                   <Button variant="neutral" onClick={() => setAddStep('instructions')}>Cancel</Button>
@@ -4627,6 +5224,31 @@ async function loadActivityLog(cloudId?: string) {
               </Card>
             )}
           </div>
+        ) : view === 'audit' ? (
+          <UsageAudit
+            templates={templates
+              .filter((t: Template & { deleted?: boolean }) => !t.deleted)
+              .map((t: Template) => ({
+                id: t.id,
+                name: t.name,
+                componentKey: t.componentKey,
+                variants: t.variants?.map(v => ({ key: v.key, displayName: v.displayName })),
+              }))}
+            onBack={goHome}
+          />
+        ) : view === 'pages' ? (
+          <PagesView
+            statuses={(statusSymbols ?? []).map(s => ({ symbol: s.symbol, label: s.label }))}
+            conventions={activePreset.sections
+              .filter(section => section.name)
+              .map(section => ({
+                section: section.name,
+                patterns: section.pages.map(page => page.name).filter(hasPlaceholders),
+              }))}
+            archive={archiveConvention(activePreset.sections)}
+            onArchived={logPageArchive}
+            onBack={goHome}
+          />
         ) : view === 'frame-details' ? (
           <div className="frame-details-view">
             <div className="frame-details-view__header">
@@ -4699,72 +5321,11 @@ async function loadActivityLog(cloudId?: string) {
                   <CardContent>
                     <div className="frame-details-section">
                       <h4 className="frame-details-section__title">Guidelines Compliance</h4>
-                      <div className="frame-details-compliance">
-                        <div className={`frame-details-compliance-item ${frameDetails.is16x9 ? 'is-compliant' : 'is-non-compliant'}`}>
-                          <div className="frame-details-compliance-item__icon">
-                            {frameDetails.is16x9 ? (
-                              <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                                <path d="M20 6L9 17l-5-5"/>
-                              </svg>
-                            ) : (
-                              <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                                <circle cx="12" cy="12" r="10"/>
-                                <path d="M12 8v4M12 16h.01"/>
-                              </svg>
-                            )}
-                          </div>
-                          <div className="frame-details-compliance-item__content">
-                            <span className="frame-details-compliance-item__label">16:9 Aspect Ratio</span>
-                            <span className="frame-details-compliance-item__status">
-                              {frameDetails.is16x9 ? 'Compliant' : 'Not compliant'}
-                            </span>
-                          </div>
-                        </div>
-                        
-                        <div className={`frame-details-compliance-item ${frameDetails.hasAutoLayout ? 'is-compliant' : 'is-non-compliant'}`}>
-                          <div className="frame-details-compliance-item__icon">
-                            {frameDetails.hasAutoLayout ? (
-                              <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                                <path d="M20 6L9 17l-5-5"/>
-                              </svg>
-                            ) : (
-                              <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                                <circle cx="12" cy="12" r="10"/>
-                                <path d="M12 8v4M12 16h.01"/>
-                              </svg>
-                            )}
-                          </div>
-                          <div className="frame-details-compliance-item__content">
-                            <span className="frame-details-compliance-item__label">Auto Layout</span>
-                            <span className="frame-details-compliance-item__status">
-                              {frameDetails.hasAutoLayout ? 'Enabled' : 'Not enabled'}
-                            </span>
-                          </div>
-                        </div>
-                        
-                        <div className={`frame-details-compliance-item ${frameDetails.matchesRecommendedResolution ? 'is-compliant' : 'is-non-compliant'}`}>
-                          <div className="frame-details-compliance-item__icon">
-                            {frameDetails.matchesRecommendedResolution ? (
-                              <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                                <path d="M20 6L9 17l-5-5"/>
-                              </svg>
-                            ) : (
-                              <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                                <circle cx="12" cy="12" r="10"/>
-                                <path d="M12 8v4M12 16h.01"/>
-                              </svg>
-                            )}
-                          </div>
-                          <div className="frame-details-compliance-item__content">
-                            <span className="frame-details-compliance-item__label">Recommended Resolution</span>
-                            <span className="frame-details-compliance-item__status">
-                              {frameDetails.matchesRecommendedResolution 
-                                ? '1600×900 or 1920×1080' 
-                                : 'Not 1600×900 or 1920×1080'}
-                            </span>
-                          </div>
-                        </div>
-                      </div>
+                      <CompliancePanel
+                        rules={housekeepingRules.map((rule): ComplianceRule => ({ id: rule.id, title: rule.title, checks: rule.checks }))}
+                        runOnMount
+                        onFixesApplied={loadFrameDetails}
+                      />
                     </div>
                   </CardContent>
                 </Card>
@@ -4899,12 +5460,12 @@ async function loadActivityLog(cloudId?: string) {
                           ))}
                         </div>
                       )}
-                      {rule.hasComplianceCheck && (
+                      {rule.checks.length > 0 && (
                         <div className="housekeeping-rule__badge">
                           <svg width="12" height="12" viewBox="0 0 16 16" fill="none" stroke="currentColor" strokeWidth="2">
                             <path d="M3 8l3 3 7-7"/>
                           </svg>
-                          Has compliance check
+                          {rule.checks.length} compliance check{rule.checks.length !== 1 ? 's' : ''}
                         </div>
                       )}
                     </div>
@@ -5126,19 +5687,13 @@ async function loadActivityLog(cloudId?: string) {
                         />
                       </div>
                     </div>
-                    {/* Only show compliance check when editing an existing rule that has it */}
-                    {editingRule && editingRule.hasComplianceCheck && (
-                      <div className="rule-modal__field">
-                        <label className="rule-modal__checkbox-label">
-                          <input
-                            type="checkbox"
-                            checked={ruleForm.hasComplianceCheck}
-                            onChange={(e) => setRuleForm({ ...ruleForm, hasComplianceCheck: e.target.checked })}
-                          />
-                          <span>Has compliance check (Frame & Resolution)</span>
-                        </label>
-                      </div>
-                    )}
+                    <div className="rule-modal__field">
+                      <label className="rule-modal__label">Compliance Checks</label>
+                      <ComplianceChecksEditor
+                        checks={ruleForm.checks}
+                        onChange={(checks) => setRuleForm(form => ({ ...form, checks }))}
+                      />
+                    </div>
                     <div className="rule-modal__field">
                       <label className="rule-modal__label">Action Buttons</label>
                       <div className="rule-modal__links">
@@ -5227,102 +5782,9 @@ async function loadActivityLog(cloudId?: string) {
                     <div className="welcome-accordion__content-inner">
                       <div className="welcome-accordion__text">{renderMarkdown(rule.description)}</div>
                       
-                      {/* Compliance Check Button (for rules with hasComplianceCheck) */}
-                      {rule.hasComplianceCheck && (
-                        <>
-                          <button 
-                            className="welcome-accordion__check-btn"
-                            onClick={() => checkFrameCompliance()}
-                            disabled={frameDetailsLoading}
-                          >
-                            {frameDetailsLoading ? 'Checking...' : 'Check selected frame'}
-                          </button>
-
-                          {/* Inline Compliance Results */}
-                          {frameDetailsError && (
-                            <div className="welcome-accordion__error">
-                              {frameDetailsError}
-                            </div>
-                          )}
-
-                          {frameDetails && (
-                            <div className="welcome-accordion__compliance">
-                              <div className="compliance-header">
-                                <span>GUIDELINES COMPLIANCE</span>
-                                <button 
-                                  className="compliance-header__dismiss"
-                                  onClick={() => setFrameDetails(null)}
-                                >
-                                  <svg width="14" height="14" viewBox="0 0 16 16" fill="none" stroke="currentColor" strokeWidth="1.5">
-                                    <path d="M4 4l8 8M12 4l-8 8"/>
-                                  </svg>
-                                </button>
-                              </div>
-                              
-                              <div className={`compliance-item ${frameDetails.is16x9 ? 'compliance-item--success' : 'compliance-item--error'}`}>
-                                <div className={`compliance-item__icon ${frameDetails.is16x9 ? 'compliance-item__icon--success' : 'compliance-item__icon--error'}`}>
-                                  {frameDetails.is16x9 ? (
-                                    <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                                      <path d="M20 6L9 17l-5-5"/>
-                                    </svg>
-                                  ) : (
-                                    <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                                      <circle cx="12" cy="12" r="10"/>
-                                      <path d="M12 8v4M12 16h.01"/>
-                                    </svg>
-                                  )}
-                                </div>
-                                <div className="compliance-item__content">
-                                  <div className="compliance-item__title">16:9 Aspect Ratio</div>
-                                  <div className="compliance-item__status">{frameDetails.is16x9 ? 'Compliant' : `Current: ${frameDetails.aspectRatio}`}</div>
-                                </div>
-                              </div>
-
-                              <div className={`compliance-item ${frameDetails.hasAutoLayout ? 'compliance-item--success' : 'compliance-item--error'}`}>
-                                <div className={`compliance-item__icon ${frameDetails.hasAutoLayout ? 'compliance-item__icon--success' : 'compliance-item__icon--error'}`}>
-                                  {frameDetails.hasAutoLayout ? (
-                                    <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                                      <path d="M20 6L9 17l-5-5"/>
-                                    </svg>
-                                  ) : (
-                                    <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                                      <circle cx="12" cy="12" r="10"/>
-                                      <path d="M12 8v4M12 16h.01"/>
-                                    </svg>
-                                  )}
-                                </div>
-                                <div className="compliance-item__content">
-                                  <div className="compliance-item__title">Auto Layout</div>
-                                  <div className="compliance-item__status">{frameDetails.hasAutoLayout ? 'Enabled' : 'Not enabled'}</div>
-                                </div>
-                              </div>
-
-                              <div className={`compliance-item ${frameDetails.matchesRecommendedResolution ? 'compliance-item--success' : 'compliance-item--error'}`}>
-                                <div className={`compliance-item__icon ${frameDetails.matchesRecommendedResolution ? 'compliance-item__icon--success' : 'compliance-item__icon--error'}`}>
-                                  {frameDetails.matchesRecommendedResolution ? (
-                                    <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                                      <path d="M20 6L9 17l-5-5"/>
-                                    </svg>
-                                  ) : (
-                                    <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                                      <circle cx="12" cy="12" r="10"/>
-                                      <path d="M12 8v4M12 16h.01"/>
-                                    </svg>
-                                  )}
-                                </div>
-                                <div className="compliance-item__content">
-                                  <div className="compliance-item__title">Recommended Resolution</div>
-                                  <div className="compliance-item__status">
-                                    {frameDetails.matchesRecommendedResolution 
-                                      ? `${frameDetails.width}×${frameDetails.height}` 
-                                      : `Current: ${frameDetails.width}×${frameDetails.height}`}
-                                  </div>
-                                  <div className="compliance-item__hint">Recommended for web: 1600×900 or 1920×1080</div>
-                                </div>
-                              </div>
-                            </div>
-                          )}
-                        </>
+                      {/* Compliance checks (for rules that declare any) */}
+                      {rule.checks.length > 0 && (
+                        <CompliancePanel rules={[{ id: rule.id, title: rule.title, checks: rule.checks }]} />
                       )}
 
                       {/* Action Buttons (for rules with links) */}
@@ -5332,7 +5794,7 @@ async function loadActivityLog(cloudId?: string) {
                             <button 
                               key={i}
                               className="welcome-accordion__option"
-                              onClick={() => setView('scaffold')}
+                              onClick={() => openScaffold(link.label)}
                             >
                               {link.label}
                             </button>
@@ -5366,13 +5828,98 @@ async function loadActivityLog(cloudId?: string) {
             description="Try selecting different clouds or categories"
           />
         ) : (
-          filteredTemplates.map(template => {
+          <>
+          {/* Insert placement - remembered per user */}
+          <div className="insert-placement-bar">
+            <label className="insert-placement-bar__label" htmlFor="insert-placement-mode">Insert</label>
+            <select
+              id="insert-placement-mode"
+              className="insert-placement-bar__select"
+              value={insertPlacement.mode}
+              onChange={(e) => setInsertPlacement({ ...insertPlacement, mode: e.target.value as InsertPlacementMode })}
+            >
+              {INSERT_PLACEMENT_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+            {insertPlacement.mode === 'grid' && (
+              <label className="insert-placement-bar__field">
+                Columns
+                <input
+                  type="number"
+                  min={1}
+                  max={12}
+                  className="insert-placement-bar__number"
+                  value={insertPlacement.columns}
+                  onChange={(e) => {
+                    const columns = parseInt(e.target.value, 10);
+                    if (columns > 0) setInsertPlacement({ ...insertPlacement, columns });
+                  }}
+                />
+              </label>
+            )}
+            {insertPlacement.mode !== 'auto-layout' && (
+              <label className="insert-placement-bar__field">
+                Gap
+                <input
+                  type="number"
+                  min={0}
+                  className="insert-placement-bar__number"
+                  value={insertPlacement.gap}
+                  onChange={(e) => {
+                    const gap = parseInt(e.target.value, 10);
+                    if (gap >= 0) setInsertPlacement({ ...insertPlacement, gap });
+                  }}
+                />
+              </label>
+            )}
+          </div>
+          {/* Library health summary for the templates in view */}
+          {(() => {
+            const checked = filteredTemplates.filter(t => t.health);
+            const broken = checked.filter(t => t.health?.status === 'broken').length;
+            const changed = checked.filter(t => t.health?.status === 'changed').length;
+            const lastChecked = checked.reduce<string | null>(
+              (latest, t) => (!latest || t.health!.checkedAt > latest ? t.health!.checkedAt : latest),
+              null
+            );
+            return (
+              <div className="library-health">
+                <span className={`library-health__summary ${broken > 0 ? 'library-health__summary--broken' : changed > 0 ? 'library-health__summary--changed' : ''}`}>
+                  {checked.length === 0
+                    ? 'Library health not checked'
+                    : broken + changed === 0
+                      ? `All ${checked.length} templates healthy`
+                      : [broken > 0 && `${broken} broken`, changed > 0 && `${changed} changed`].filter(Boolean).join(' · ')}
+                </span>
+                {lastChecked && (
+                  <span className="library-health__time">{formatActivityTime(new Date(lastChecked))}</span>
+                )}
+                <button
+                  className="library-health__check"
+                  onClick={checkLibraryHealth}
+                  disabled={isCheckingHealth}
+                >
+                  {isCheckingHealth ? 'Checking...' : 'Check health'}
+                </button>
+              </div>
+            );
+          })()}
+          {filteredTemplates.map(template => {
             const cloud = clouds.find(c => c.id === template.cloudId);
             return (
               <div key={template.id} id={`template-${template.id}`} className="template-item">
                 <div className="template-item__header">
                   {cloud && <img src={cloud.icon} alt={cloud.name} className="template-item__icon" />}
                   <span className="template-item__title">{template.name}</span>
+                  {template.health && template.health.status !== 'healthy' && (
+                    <span
+                      className={`template-item__health-badge template-item__health-badge--${template.health.status}`}
+                      title={(template.health as TemplateHealth).issues.map(issue => issue.message).join('\n')}
+                    >
+                      {template.health.status === 'broken' ? 'Broken' : 'Changed'}
+                    </span>
+                  )}
                   {isAnyVariantSaved(template.id) && activeCategory !== 'saved' && (
                     <span className="template-item__saved-badge" title={`${getSavedVariantsCount(template.id)} saved`}>
                       <svg width="12" height="12" viewBox="0 0 16 16" fill="currentColor">
@@ -5478,32 +6025,51 @@ async function loadActivityLog(cloudId?: string) {
                     );
                   }
                   
+                  // Sets with several axes are narrowed axis by axis; the grid shows what's left
+                  const axes = template.variantAxes ?? [];
+                  const showPicker = activeCategory !== 'saved' && axes.length > 1;
+                  const variantSelection = selectedVariants[template.id] || {};
+                  const shownVariants = showPicker
+                    ? displayVariants.filter((v: VariantInfo) => matchesSelection(getVariantProperties(v), variantSelection))
+                    : displayVariants;
                   const selected = selectedSlides[template.id] || [];
-                  const allSelected = selected.length === displayVariants.length;
+                  const allSelected = selected.length === shownVariants.length;
+                  const pickedVariant = showPicker && isCompleteSelection(variantSelection, axes)
+                    ? describeSelection(variantSelection, axes)
+                    : null;
                   
                   return (
                     <div className="variant-grid">
                       {activeCategory !== 'saved' && (
                         <div className="variant-grid__header">
                           <span className="variant-grid__title">
-                            {selected.length > 0 ? `${selected.length} selected` : 'Click to select'}
+                            {selected.length > 0 ? `${selected.length} selected` : pickedVariant ?? 'Click to select'}
                           </span>
                           <button 
                             className="variant-grid__toggle-all"
                             onClick={() => allSelected 
                               ? deselectAllSlides(template.id) 
-                              : selectAllSlides(template.id, displayVariants.map(v => v.key))
+                              : selectAllSlides(template.id, shownVariants.map(v => v.key))
                             }
                           >
                             {allSelected ? 'Clear' : 'Select All'}
                           </button>
                         </div>
                       )}
+                      {showPicker && (
+                        <VariantAxisPicker
+                          axes={axes}
+                          variants={template.variants}
+                          selection={variantSelection}
+                          onSelect={(axis, value) => updateVariantSelection(template, axis, value)}
+                          onClear={() => clearVariantSelection(template.id)}
+                        />
+                      )}
                       <div 
                         className={`variant-grid__items variant-grid__items--${
-                          displayVariants.length === 1 ? 'single' :
-                          displayVariants.length === 2 ? 'duo' :
-                          displayVariants.length === 4 ? 'quad' :
+                          shownVariants.length === 1 ? 'single' :
+                          shownVariants.length === 2 ? 'duo' :
+                          shownVariants.length === 4 ? 'quad' :
                           'default'
                         }`}
                         onMouseLeave={() => {
@@ -5515,7 +6081,7 @@ async function loadActivityLog(cloudId?: string) {
                           }, 200);
                         }}
                       >
-                        {displayVariants.map(variant => {
+                        {shownVariants.map(variant => {
                           const isSelected = selected.includes(variant.key);
                           const isSaved = isTemplateSaved(template.id, variant.key);
                           return (
@@ -5597,7 +6163,7 @@ async function loadActivityLog(cloudId?: string) {
                     const isSaved = isTemplateSaved(template.id);
                     return (
                   <div
-                    className={`template-item__preview ${refreshingId === template.id ? 'template-item__preview--refreshing' : ''}`}
+                    className={`template-item__preview ${refreshingIds.includes(template.id) ? 'template-item__preview--refreshing' : ''}`}
                     onMouseEnter={() => {
                       if (variantPopoverHideTimerRef.current) {
                         clearTimeout(variantPopoverHideTimerRef.current);
@@ -5627,7 +6193,7 @@ async function loadActivityLog(cloudId?: string) {
                     }}
                   >
                     <img src={template.preview} alt={template.name} />
-                    {refreshingId === template.id && (
+                    {refreshingIds.includes(template.id) && (
                       <div className="template-item__refresh-overlay">
                         <svg className="template-item__refresh-spinner" width="24" height="24" viewBox="0 0 16 16" fill="currentColor">
                           <path fillRule="evenodd" d="M8 3a5 5 0 1 0 4.546 2.914.5.5 0 0 1 .908-.417A6 6 0 1 1 8 2v1z"/>
@@ -5660,7 +6226,7 @@ async function loadActivityLog(cloudId?: string) {
                     variant="brand-outline" 
                     size="small"
                     onClick={() => insertTemplate(template)}
-                    loading={insertingId === template.id}
+                    loading={insertingIds.includes(template.id)}
                   >
                     Insert
               </Button>
@@ -5787,17 +6353,30 @@ async function loadActivityLog(cloudId?: string) {
 
                         <div className="template-item__more-divider"></div>
 
+                        {/* Swap the selected canvas instance to this template */}
+                        <button
+                          className="template-item__more-option"
+                          onClick={() => swapTemplate(template)}
+                          disabled={swappingIds.includes(template.id)}
+                          title="Replace the instance selected on the canvas, keeping its position and text"
+                        >
+                          <svg width="14" height="14" viewBox="0 0 16 16" fill="currentColor">
+                            <path fillRule="evenodd" d="M1 11.5a.5.5 0 0 0 .5.5h11.793l-3.147 3.146a.5.5 0 0 0 .708.708l4-4a.5.5 0 0 0 0-.708l-4-4a.5.5 0 0 0-.708.708L13.293 11H1.5a.5.5 0 0 0-.5.5zm14-7a.5.5 0 0 1-.5.5H2.707l3.147 3.146a.5.5 0 1 1-.708.708l-4-4a.5.5 0 0 1 0-.708l4-4a.5.5 0 1 1 .708.708L2.707 4H14.5a.5.5 0 0 1 .5.5z"/>
+                          </svg>
+                          {swappingIds.includes(template.id) ? 'Swapping...' : 'Swap Selection'}
+                        </button>
+
                         {/* Refresh Preview */}
                         <button
                           className="template-item__more-option"
                           onClick={() => refreshTemplate(template)}
-                          disabled={refreshingId === template.id}
+                          disabled={refreshingIds.includes(template.id)}
                         >
                           <svg width="14" height="14" viewBox="0 0 16 16" fill="currentColor">
                             <path fillRule="evenodd" d="M8 3a5 5 0 1 0 4.546 2.914.5.5 0 0 1 .908-.417A6 6 0 1 1 8 2v1z"/>
                             <path d="M8 4.466V.534a.25.25 0 0 1 .41-.192l2.36 1.966c.12.1.12.284 0 .384L8.41 4.658A.25.25 0 0 1 8 4.466z"/>
                           </svg>
-                          {refreshingId === template.id ? 'Refreshing...' : 'Refresh Preview'}
+                          {refreshingIds.includes(template.id) ? 'Refreshing...' : 'Refresh Preview'}
                         </button>
 
                         <div className="template-item__more-divider"></div>
@@ -5817,9 +6396,17 @@ async function loadActivityLog(cloudId?: string) {
                     )}
                   </div>
             </div>
+                {template.properties && (
+                  <ComponentPropertiesForm
+                    properties={template.properties}
+                    values={propertyValues[template.id] ?? {}}
+                    onChange={(values) => setPropertyValues(prev => ({ ...prev, [template.id]: values }))}
+                  />
+                )}
           </div>
             );
-          })
+          })}
+          </>
         )}
         </div>
       </div>
@@ -6275,7 +6862,7 @@ async function loadActivityLog(cloudId?: string) {
                   const isRestorable = (activity.action === 'delete' || activity.action === 'delete_forever') && !activity.isRestored;
                   const isSelected = selectedActivities.has(activity.id);
                   const storedPreview = activity.assetData?.preview;
-                  const templatePreview = ['add', 'update', 'component_insert'].includes(activity.action) && activity.assetId
+                  const templatePreview = ['add', 'update', 'component_insert', 'component_swap'].includes(activity.action) && activity.assetId
                     ? (templates.find(t => t.id === activity.assetId)?.preview ?? (templates.find(t => t.id === activity.assetId)?.variants?.[0] as { preview?: string } | undefined)?.preview)
                     : undefined;
                   const preview = storedPreview ?? templatePreview;
@@ -6284,7 +6871,7 @@ async function loadActivityLog(cloudId?: string) {
                   // Use nodeIds array if available, otherwise fall back to single nodeId
                   const allNodeIds = nodeIds && nodeIds.length > 0 ? nodeIds : (nodeId ? [nodeId] : []);
                   const canGoToComponent = !isRestorable && allNodeIds.length > 0;
-                  const canFocusTemplate = !isRestorable && allNodeIds.length === 0 && activity.assetId && activity.cloudId && ['add', 'update', 'component_insert', 'restore'].includes(activity.action);
+                  const canFocusTemplate = !isRestorable && allNodeIds.length === 0 && activity.assetId && activity.cloudId && ['add', 'update', 'component_insert', 'component_swap', 'restore'].includes(activity.action);
                   const focusTemplate = (assetId: string, cloudId: string, category: string | null) => {
                     const template = templates.find(t => t.id === assetId);
                     const templateCategory = template?.category ?? category ?? 'all';
@@ -6301,16 +6888,14 @@ async function loadActivityLog(cloudId?: string) {
 
                   const handleActivityClick = () => {
                     if (canGoToComponent) {
-                      parent.postMessage({ 
-                        pluginMessage: { 
-                          type: 'SELECT_NODE', 
-                          nodeId: allNodeIds[0], 
-                          nodeIds: allNodeIds.length > 1 ? allNodeIds : undefined,
-                          assetId: activity.assetId,
-                          cloudId: activity.cloudId,
-                          category: activity.category
-                        } 
-                      }, '*');
+                      sendToPlugin({ 
+                        type: 'SELECT_NODE', 
+                        nodeId: allNodeIds[0], 
+                        nodeIds: allNodeIds.length > 1 ? allNodeIds : undefined,
+                        assetId: activity.assetId,
+                        cloudId: activity.cloudId ?? undefined,
+                        category: activity.category ?? undefined
+                      });
                       setShowActivityHistoryModal(false);
                     } else if (canFocusTemplate) {
                       focusTemplate(activity.assetId!, activity.cloudId!, activity.category);
@@ -6346,7 +6931,7 @@ async function loadActivityLog(cloudId?: string) {
                     </div>
                   );
                 };
-                const tagOrder = ['add', 'update', 'component_insert', 'restore', 'delete', 'delete_forever', 'page_structure', 'section_create', 'section_update', 'section_delete', 'poc_add', 'poc_update', 'poc_delete'];
+                const tagOrder = ['add', 'update', 'component_insert', 'component_swap', 'restore', 'delete', 'delete_forever', 'page_structure', 'page_archive', 'page_unarchive', 'section_create', 'section_update', 'section_delete', 'poc_add', 'poc_update', 'poc_delete'];
                 return filteredActivityLog.length === 0 ? (
                   <div className="activity-history__empty">
                     <img src={ActivityEmptyIllustration} alt="" className="activity-history__empty-illustration" />
@@ -1,7 +1,53 @@
 // Launchpad - Figma Plugin
 // Helps designers quickly insert pre-built templates from Team Library
 
-const STORAGE_KEY = 'launchpad_templates';
+import { runUsageAudit } from './lib/audit';
+import {
+  FULL_RENDITION,
+  PREVIEW_RENDITION,
+  captureByKey,
+  captureNode,
+  exportRendition,
+  toRefreshedTemplate,
+} from './lib/capture';
+import { runComplianceCheck } from './lib/compliance';
+import { applyComplianceFixes } from './lib/complianceFixes';
+import { placeCover, readCover, refreshCover, setCoverThumbnail, updateCover } from './lib/cover';
+import { CUSTOM_CLOUDS_KEY, EDITABLE_CLOUDS_KEY, TEMPLATES_KEY } from './lib/clientStorage';
+import { checkLibraryHealth } from './lib/health';
+import { applyNamingFixes, lintPageNames } from './lib/naming';
+import { placeInstances, resolvePlacement } from './lib/placement';
+import { applyProperties } from './lib/properties';
+import {
+  archivePages,
+  captureFileStructure,
+  listFilePages,
+  movePagesToSection,
+  setPageStatus,
+  unarchivePages,
+} from './lib/pages';
+import { createPluginMessageHandler, sendToUI } from './lib/pluginMessaging';
+import { createProvenance, findStampedInstance, stampProvenance } from './lib/provenance';
+import { resolveQuickInsert, suggestParameter } from './lib/quickInsert';
+import { findReadMePage, generateReadMe, isEmptyReadMePage } from './lib/readme';
+import { readLaunchTarget, setPageRelaunch, setTemplateRelaunch } from './lib/relaunch';
+import { DEFAULT_SCAFFOLD_PAGES, applyScaffold, planScaffold } from './lib/scaffold';
+import { describeSelectedInstance, detachInstance } from './lib/selection';
+import { fillStarterContent } from './lib/starter';
+import { swapInstance } from './lib/swap';
+import { matchesSelection, parseVariantName } from './lib/variants';
+import type { ComponentPropertyValues, InsertPlacement, InsertRecord, RefreshedTemplate } from './lib/protocol';
+
+const FIGMA_LINKS_KEY = 'starter-kit-figma-links';
+const CLOUD_FIGMA_LINKS_KEY = 'starter-kit-cloud-figma-links';
+const DEFAULT_CLOUD_KEY = 'starter-kit-default-cloud';
+const ONBOARDING_KEY = 'starter-kit-onboarding';
+const HIDDEN_CLOUDS_KEY = 'starter-kit-hidden-clouds';
+const CLOUD_CATEGORIES_KEY = 'starter-kit-cloud-categories';
+const STATUS_SYMBOLS_KEY = 'starter-kit-status-symbols';
+const CLOUD_POCS_KEY = 'starter-kit-cloud-pocs';
+const INSERT_PLACEMENT_KEY = 'starter-kit-insert-placement';
+const QUEUED_INSERTS_KEY = 'starter-kit-queued-inserts';
 const PLUGIN_VERSION = '1.18.1';
 
 // Build identifiers injected at build time - these make each build unique
@@ -32,45 +78,186 @@ figma.clientStorage.getAsync('plugin_version').then(storedVersion => {
 // Store build ID for cache invalidation
 figma.clientStorage.setAsync('plugin_build_id', _buildCacheBuster).catch(() => {});
 
-figma.showUI(__html__, { 
-  width: 420, 
-  height: 720,
-  themeColors: true 
+// Quick actions: suggest clouds, templates and variants while the parameters are typed
+figma.parameters.on('input', (event) => {
+  suggestParameter(event).catch((error) => {
+    console.error('Quick insert suggestions failed:', error);
+    event.result.setError('Could not load templates');
+  });
+});
+
+// Run from quick actions with parameters: insert without the window. Otherwise open it.
+figma.on('run', ({ parameters }) => {
+  if (parameters) {
+    runQuickInsert(parameters);
+  } else {
+    openUI();
+  }
 });
 
-// Send ready signal immediately to ensure UI knows plugin is loaded
-// This is critical for published plugins where initialization might be delayed
-// Use setTimeout to ensure UI is fully ready to receive messages
-setTimeout(() => {
-  // Include user info for backend API calls (user-specific data)
-  const currentUser = figma.currentUser;
-  figma.ui.postMessage({ 
-    type: 'PLUGIN_READY',
-    user: currentUser ? {
-      id: currentUser.id,
-      name: currentUser.name,
-      photoUrl: currentUser.photoUrl
-    } : null
+// Quick inserts run without the window, so there's nothing to tell about selection changes
+let isUIOpen = false;
+
+function openUI(): void {
+  isUIOpen = true;
+  figma.showUI(__html__, { 
+    width: 420, 
+    height: 720,
+    themeColors: true 
   });
-}, 0);
 
-// Helper to generate preview from a node
-async function generatePreview(node: SceneNode): Promise<string | null> {
-  try {
-    const bytes = await node.exportAsync({
-      format: 'PNG',
-      constraint: { type: 'WIDTH', value: 800 }
+  // Send ready signal immediately to ensure UI knows plugin is loaded
+  // This is critical for published plugins where initialization might be delayed
+  // Use setTimeout to ensure UI is fully ready to receive messages
+  setTimeout(() => {
+    // Include user info for backend API calls (user-specific data)
+    const currentUser = figma.currentUser;
+    sendToUI({ 
+      type: 'PLUGIN_READY',
+      user: currentUser ? {
+        id: currentUser.id,
+        name: currentUser.name,
+        photoUrl: currentUser.photoUrl
+      } : null,
+      // Set when started from a relaunch button on an inserted template or page
+      launch: readLaunchTarget(),
     });
-    return `data:image/png;base64,${figma.base64Encode(bytes)}`;
-  } catch {
-    return null;
+    sendSelectedInstance();
+  }, 0);
+}
+
+// ============ SELECTED INSTANCE ============
+// Tell the UI which library instance is selected, for its context panel. Reading the
+// main component is async, so only the newest selection's result is sent.
+let selectedInstanceRequest = 0;
+async function sendSelectedInstance(): Promise<void> {
+  const request = ++selectedInstanceRequest;
+  try {
+    const instance = await describeSelectedInstance();
+    if (request !== selectedInstanceRequest) return;
+    sendToUI({ type: 'SELECTED_INSTANCE_CHANGED', instance });
+  } catch (error) {
+    console.error('Failed to read the selected instance:', error);
   }
 }
 
-figma.ui.onmessage = async (msg) => {
+// ============ CREATE TEMPLATE INSTANCES ============
+// Import each component key and add a stamped instance to the current page, with the
+// properties filled in before insert (skipped by variants that don't have them)
+async function createTemplateInstances(
+  componentKeys: string[],
+  slideNames: string[] | undefined,
+  templateId: string,
+  templateName: string,
+  cloudId: string | undefined,
+  properties?: ComponentPropertyValues
+): Promise<{ instances: InstanceNode[]; errors: string[] }> {
+  const instances: InstanceNode[] = [];
+  const errors: string[] = [];
   
+  for (let i = 0; i < componentKeys.length; i++) {
+    const key = componentKeys[i];
+    const slideName = slideNames?.[i] || `Slide ${i + 1}`;
+    try {
+      const component = await figma.importComponentByKeyAsync(key);
+      const instance = component.createInstance();
+      if (properties) await applyProperties(instance, properties);
+      stampProvenance(instance, createProvenance(templateId, cloudId, component.key, PLUGIN_VERSION));
+      setTemplateRelaunch(instance, templateName);
+      figma.currentPage.appendChild(instance);
+      instances.push(instance);
+    } catch (err) {
+      console.error(`Failed to import "${slideName}" with key ${key}:`, err);
+      errors.push(slideName);
+    }
+  }
+  return { instances, errors };
+}
+
+// ============ QUICK INSERT ============
+// Insert what the quick-actions parameters chose with the placement the UI last cached,
+// then close. The activity log is written by the UI, so the insert is queued for it to
+// log the next time it opens.
+async function runQuickInsert(parameters: ParameterValues): Promise<void> {
+  try {
+    const insert = await resolveQuickInsert(parameters);
+    const { instances, errors } = await createTemplateInstances(
+      insert.componentKeys,
+      insert.slideNames,
+      insert.templateId,
+      insert.templateName,
+      insert.cloudId
+    );
+    if (instances.length === 0) {
+      figma.closePlugin('⚠️ Component not published to Team Library. Please publish first.');
+      return;
+    }
+    const placement = await figma.clientStorage.getAsync(INSERT_PLACEMENT_KEY).catch(() => undefined);
+    await placeAndSelect(instances, placement, insert.templateName);
+    const nodeIds = instances.map(instance => instance.id);
+    await queueInsert({
+      templateName: insert.templateName,
+      templateId: insert.templateId,
+      cloudId: insert.cloudId,
+      cloudName: insert.cloudName,
+      count: instances.length,
+      nodeId: nodeIds[0],
+      nodeIds: nodeIds.length > 1 ? nodeIds : undefined,
+      userName: figma.currentUser?.name ?? null,
+    });
+    const label = instances.length > 1
+      ? `${instances.length} slides from "${insert.templateName}"`
+      : `"${insert.templateName}"`;
+    figma.closePlugin(errors.length > 0 ? `✓ Inserted ${label}, ${errors.length} failed` : `✓ Inserted ${label}`);
+  } catch (error) {
+    console.error('Quick insert failed:', error);
+    figma.closePlugin(`⚠️ ${error instanceof Error ? error.message : 'Failed to import template'}`);
+  }
+}
+
+async function queueInsert(record: InsertRecord): Promise<void> {
+  try {
+    const queued: InsertRecord[] = (await figma.clientStorage.getAsync(QUEUED_INSERTS_KEY)) || [];
+    await figma.clientStorage.setAsync(QUEUED_INSERTS_KEY, [...queued, record]);
+  } catch (error) {
+    console.error('Failed to queue insert for the activity log:', error);
+  }
+}
+
+// ============ INSERT PLACEMENT ============
+// Position new instances per the user's placement mode, then select and zoom to them
+async function placeAndSelect(
+  instances: InstanceNode[],
+  placement: Partial<InsertPlacement> | undefined,
+  templateName: string
+): Promise<void> {
+  const requested = resolvePlacement(placement);
+  const result = await placeInstances(instances, requested, templateName);
+  if (result.mode !== requested.mode) {
+    const reason = requested.mode === 'auto-layout' ? 'No editable auto-layout frame selected' : 'Nothing selected';
+    figma.notify(`${reason} - placed at viewport center`);
+  }
+  figma.currentPage.selection = result.nodes;
+  figma.viewport.scrollAndZoomIntoView(result.nodes);
+}
+
+// ============ REVEAL NODE ============
+// Switch to the node's page if needed, then select and zoom to it
+async function revealNode(node: SceneNode): Promise<void> {
+  let page: BaseNode | null = node.parent;
+  while (page && page.type !== 'PAGE') {
+    page = page.parent;
+  }
+  if (page && page.id !== figma.currentPage.id) {
+    await figma.setCurrentPageAsync(page as PageNode);
+  }
+  figma.currentPage.selection = [node];
+  figma.viewport.scrollAndZoomIntoView([node]);
+}
+
+figma.ui.onmessage = createPluginMessageHandler({
   // ============ MIGRATE FROM CLIENT STORAGE ============
-  if (msg.type === 'MIGRATE_FROM_CLIENT_STORAGE') {
+  MIGRATE_FROM_CLIENT_STORAGE: async (_msg, reply) => {
     try {
       console.log('🔄 Reading data from clientStorage for migration...');
       
@@ -89,11 +276,11 @@ figma.ui.onmessage = async (msg) => {
       // Read all data from clientStorage
       // NOTE: savedItems are NOT migrated - they are per-user and stored in database only
       // Reading them from clientStorage would restore old data when user intentionally unsaved items
-      const templates = await figma.clientStorage.getAsync(STORAGE_KEY) || [];
+      const templates = await figma.clientStorage.getAsync(TEMPLATES_KEY) || [];
       const figmaLinks = await figma.clientStorage.getAsync('starter-kit-figma-links') || [];
       const cloudFigmaLinks = await figma.clientStorage.getAsync('starter-kit-cloud-figma-links') || {};
-      const customClouds = await figma.clientStorage.getAsync('starter-kit-custom-clouds') || [];
-      const editableClouds = await figma.clientStorage.getAsync('starter-kit-editable-clouds') || null;
+      const customClouds = await figma.clientStorage.getAsync(CUSTOM_CLOUDS_KEY) || [];
+      const editableClouds = await figma.clientStorage.getAsync(EDITABLE_CLOUDS_KEY) || null;
       const cloudCategories = await figma.clientStorage.getAsync('starter-kit-cloud-categories') || {};
       const statusSymbols = await figma.clientStorage.getAsync('starter-kit-status-symbols') || [];
       const cloudPOCs = await figma.clientStorage.getAsync('starter-kit-cloud-pocs') || {};
@@ -103,7 +290,7 @@ figma.ui.onmessage = async (msg) => {
       
       // Send all data to UI for migration to backend
       // savedItems are NOT included - they are per-user and managed by database only
-      figma.ui.postMessage({
+      reply({
         type: 'MIGRATION_DATA',
         templates,
         figmaLinks,
@@ -121,120 +308,102 @@ figma.ui.onmessage = async (msg) => {
       console.log(`✓ Migration data prepared: ${templates.length} templates (saved items are per-user, stored in database only)`);
     } catch (error) {
       console.error('❌ Migration error:', error);
-      figma.ui.postMessage({ type: 'MIGRATION_DATA', error: String(error) });
+      reply({ type: 'MIGRATION_DATA', error: String(error) });
     }
-    return;
-  }
+  },
   
   // ============ LOAD TEMPLATES ============
-  if (msg.type === 'LOAD_TEMPLATES') {
+  LOAD_TEMPLATES: async (_msg, reply) => {
     try {
-      const templates = await figma.clientStorage.getAsync(STORAGE_KEY);
-      figma.ui.postMessage({ type: 'TEMPLATES_LOADED', templates: templates || [] });
+      const templates = await figma.clientStorage.getAsync(TEMPLATES_KEY);
+      reply({ type: 'TEMPLATES_LOADED', templates: templates || [] });
     } catch {
-      figma.ui.postMessage({ type: 'TEMPLATES_LOADED', templates: [] });
+      reply({ type: 'TEMPLATES_LOADED', templates: [] });
     }
-    return;
-  }
+  },
 
   // ============ SAVE TEMPLATES ============
-  if (msg.type === 'SAVE_TEMPLATES') {
+  SAVE_TEMPLATES: async (msg, reply) => {
     try {
-      await figma.clientStorage.setAsync(STORAGE_KEY, msg.templates);
-      figma.ui.postMessage({ type: 'TEMPLATES_SAVED' });
+      await figma.clientStorage.setAsync(TEMPLATES_KEY, msg.templates);
+      reply({ type: 'TEMPLATES_SAVED' });
     } catch (error) {
       figma.notify('⚠️ Failed to save templates', { error: true });
     }
-    return;
-  }
+  },
   
   // ============ LOAD FIGMA LINKS ============
-  const FIGMA_LINKS_KEY = 'starter-kit-figma-links';
-  
-  if (msg.type === 'LOAD_FIGMA_LINKS') {
+  LOAD_FIGMA_LINKS: async (_msg, reply) => {
     try {
       const links = await figma.clientStorage.getAsync(FIGMA_LINKS_KEY);
-      figma.ui.postMessage({ type: 'FIGMA_LINKS_LOADED', links: links || [] });
+      reply({ type: 'FIGMA_LINKS_LOADED', links: links || [] });
     } catch (error) {
-      figma.ui.postMessage({ type: 'FIGMA_LINKS_LOADED', links: [] });
+      reply({ type: 'FIGMA_LINKS_LOADED', links: [] });
     }
-    return;
-  }
+  },
   
   // ============ SAVE FIGMA LINKS ============
-  if (msg.type === 'SAVE_FIGMA_LINKS') {
+  SAVE_FIGMA_LINKS: async (msg) => {
     try {
       await figma.clientStorage.setAsync(FIGMA_LINKS_KEY, msg.links);
     } catch (error) {
       figma.notify('⚠️ Failed to save links', { error: true });
     }
-    return;
-  }
+  },
   
   // ============ CLOUD-SPECIFIC FIGMA LINKS ============
-  const CLOUD_FIGMA_LINKS_KEY = 'starter-kit-cloud-figma-links';
-  
-  if (msg.type === 'LOAD_CLOUD_FIGMA_LINKS') {
+  LOAD_CLOUD_FIGMA_LINKS: async (_msg, reply) => {
     try {
       const links = await figma.clientStorage.getAsync(CLOUD_FIGMA_LINKS_KEY);
-      figma.ui.postMessage({ type: 'CLOUD_FIGMA_LINKS_LOADED', links: links || {} });
+      reply({ type: 'CLOUD_FIGMA_LINKS_LOADED', links: links || {} });
     } catch (error) {
-      figma.ui.postMessage({ type: 'CLOUD_FIGMA_LINKS_LOADED', links: {} });
+      reply({ type: 'CLOUD_FIGMA_LINKS_LOADED', links: {} });
     }
-    return;
-  }
+  },
   
-  if (msg.type === 'SAVE_CLOUD_FIGMA_LINKS') {
+  SAVE_CLOUD_FIGMA_LINKS: async (msg) => {
     try {
       await figma.clientStorage.setAsync(CLOUD_FIGMA_LINKS_KEY, msg.links);
     } catch (error) {
       figma.notify('⚠️ Failed to save links', { error: true });
     }
-    return;
-  }
+  },
   
   // ============ LOAD DEFAULT CLOUD ============
-  const DEFAULT_CLOUD_KEY = 'starter-kit-default-cloud';
-  
-  if (msg.type === 'LOAD_DEFAULT_CLOUD') {
+  LOAD_DEFAULT_CLOUD: async (_msg, reply) => {
     try {
       const cloudId = await figma.clientStorage.getAsync(DEFAULT_CLOUD_KEY);
-      figma.ui.postMessage({ type: 'DEFAULT_CLOUD_LOADED', cloudId: cloudId || null });
+      reply({ type: 'DEFAULT_CLOUD_LOADED', cloudId: cloudId || null });
     } catch (error) {
-      figma.ui.postMessage({ type: 'DEFAULT_CLOUD_LOADED', cloudId: null });
+      reply({ type: 'DEFAULT_CLOUD_LOADED', cloudId: null });
     }
-    return;
-  }
+  },
   
   // ============ SAVE DEFAULT CLOUD ============
-  if (msg.type === 'SAVE_DEFAULT_CLOUD') {
+  SAVE_DEFAULT_CLOUD: async (msg) => {
     try {
       await figma.clientStorage.setAsync(DEFAULT_CLOUD_KEY, msg.cloudId);
     } catch (error) {
       figma.notify('⚠️ Failed to save default cloud', { error: true });
     }
-    return;
-  }
+  },
   
   // ============ LOAD ONBOARDING STATE ============
-  const ONBOARDING_KEY = 'starter-kit-onboarding';
-  
-  if (msg.type === 'LOAD_ONBOARDING_STATE') {
+  LOAD_ONBOARDING_STATE: async (_msg, reply) => {
     try {
       const state = await figma.clientStorage.getAsync(ONBOARDING_KEY);
-      figma.ui.postMessage({ 
+      reply({ 
         type: 'ONBOARDING_STATE_LOADED', 
         hasCompleted: state?.hasCompleted || false,
         skipSplash: state?.skipSplash || false
       });
     } catch (error) {
-      figma.ui.postMessage({ type: 'ONBOARDING_STATE_LOADED', hasCompleted: false, skipSplash: false });
+      reply({ type: 'ONBOARDING_STATE_LOADED', hasCompleted: false, skipSplash: false });
     }
-    return;
-  }
+  },
   
   // ============ SAVE ONBOARDING STATE ============
-  if (msg.type === 'SAVE_ONBOARDING_STATE') {
+  SAVE_ONBOARDING_STATE: async (msg) => {
     try {
       const existingState: any = await figma.clientStorage.getAsync(ONBOARDING_KEY) || {};
       const newState: any = {
@@ -250,293 +419,166 @@ figma.ui.onmessage = async (msg) => {
     } catch (error) {
       figma.notify('⚠️ Failed to save onboarding state', { error: true });
     }
-    return;
-  }
+  },
 
   // ============ CUSTOM CLOUDS ============
-  const CUSTOM_CLOUDS_KEY = 'starter-kit-custom-clouds';
-  
-  if (msg.type === 'LOAD_CUSTOM_CLOUDS') {
+  LOAD_CUSTOM_CLOUDS: async (_msg, reply) => {
     try {
       const clouds = await figma.clientStorage.getAsync(CUSTOM_CLOUDS_KEY);
-      figma.ui.postMessage({ type: 'CUSTOM_CLOUDS_LOADED', clouds: clouds || [] });
+      reply({ type: 'CUSTOM_CLOUDS_LOADED', clouds: clouds || [] });
     } catch (error) {
-      figma.ui.postMessage({ type: 'CUSTOM_CLOUDS_LOADED', clouds: [] });
+      reply({ type: 'CUSTOM_CLOUDS_LOADED', clouds: [] });
     }
-    return;
-  }
+  },
   
-  if (msg.type === 'SAVE_CUSTOM_CLOUDS') {
+  SAVE_CUSTOM_CLOUDS: async (msg) => {
     try {
       await figma.clientStorage.setAsync(CUSTOM_CLOUDS_KEY, msg.clouds);
     } catch (error) {
       figma.notify('⚠️ Failed to save custom clouds', { error: true });
     }
-    return;
-  }
+  },
   
   // ============ EDITABLE CLOUDS ============
-  const EDITABLE_CLOUDS_KEY = 'starter-kit-editable-clouds';
-  
-  if (msg.type === 'LOAD_EDITABLE_CLOUDS') {
+  LOAD_EDITABLE_CLOUDS: async (_msg, reply) => {
     try {
       const clouds = await figma.clientStorage.getAsync(EDITABLE_CLOUDS_KEY);
-      figma.ui.postMessage({ type: 'EDITABLE_CLOUDS_LOADED', clouds: clouds || null });
+      reply({ type: 'EDITABLE_CLOUDS_LOADED', clouds: clouds || null });
     } catch (error) {
-      figma.ui.postMessage({ type: 'EDITABLE_CLOUDS_LOADED', clouds: null });
+      reply({ type: 'EDITABLE_CLOUDS_LOADED', clouds: null });
     }
-    return;
-  }
+  },
   
-  if (msg.type === 'SAVE_EDITABLE_CLOUDS') {
+  SAVE_EDITABLE_CLOUDS: async (msg) => {
     try {
       await figma.clientStorage.setAsync(EDITABLE_CLOUDS_KEY, msg.clouds);
     } catch (error) {
       figma.notify('⚠️ Failed to save clouds', { error: true });
     }
-    return;
-  }
+  },
   
   // ============ HIDDEN CLOUDS ============
-  const HIDDEN_CLOUDS_KEY = 'starter-kit-hidden-clouds';
-  
-  if (msg.type === 'LOAD_HIDDEN_CLOUDS') {
+  LOAD_HIDDEN_CLOUDS: async (_msg, reply) => {
     try {
       const hiddenClouds = await figma.clientStorage.getAsync(HIDDEN_CLOUDS_KEY);
-      figma.ui.postMessage({ type: 'HIDDEN_CLOUDS_LOADED', hiddenClouds: hiddenClouds || [] });
+      reply({ type: 'HIDDEN_CLOUDS_LOADED', hiddenClouds: hiddenClouds || [] });
     } catch (error) {
-      figma.ui.postMessage({ type: 'HIDDEN_CLOUDS_LOADED', hiddenClouds: [] });
+      reply({ type: 'HIDDEN_CLOUDS_LOADED', hiddenClouds: [] });
     }
-    return;
-  }
+  },
   
-  if (msg.type === 'SAVE_HIDDEN_CLOUDS') {
+  SAVE_HIDDEN_CLOUDS: async (msg) => {
     try {
       await figma.clientStorage.setAsync(HIDDEN_CLOUDS_KEY, msg.hiddenClouds);
     } catch (error) {
       figma.notify('⚠️ Failed to save hidden clouds', { error: true });
     }
-    return;
-  }
+  },
   
   // ============ CLOUD CATEGORIES ============
-  const CLOUD_CATEGORIES_KEY = 'starter-kit-cloud-categories';
-  
-  if (msg.type === 'LOAD_CLOUD_CATEGORIES') {
+  LOAD_CLOUD_CATEGORIES: async (_msg, reply) => {
     try {
       const categories = await figma.clientStorage.getAsync(CLOUD_CATEGORIES_KEY);
-      figma.ui.postMessage({ type: 'CLOUD_CATEGORIES_LOADED', categories: categories || {} });
+      reply({ type: 'CLOUD_CATEGORIES_LOADED', categories: categories || {} });
     } catch (error) {
-      figma.ui.postMessage({ type: 'CLOUD_CATEGORIES_LOADED', categories: {} });
+      reply({ type: 'CLOUD_CATEGORIES_LOADED', categories: {} });
     }
-    return;
-  }
+  },
   
-  if (msg.type === 'SAVE_CLOUD_CATEGORIES') {
+  SAVE_CLOUD_CATEGORIES: async (msg) => {
     try {
       await figma.clientStorage.setAsync(CLOUD_CATEGORIES_KEY, msg.categories);
     } catch (error) {
       figma.notify('⚠️ Failed to save cloud categories', { error: true });
     }
-    return;
-  }
+  },
   
   // ============ STATUS SYMBOLS ============
-  const STATUS_SYMBOLS_KEY = 'starter-kit-status-symbols';
-  
-  if (msg.type === 'LOAD_STATUS_SYMBOLS') {
+  LOAD_STATUS_SYMBOLS: async (_msg, reply) => {
     try {
       const symbols = await figma.clientStorage.getAsync(STATUS_SYMBOLS_KEY);
-      figma.ui.postMessage({ type: 'STATUS_SYMBOLS_LOADED', symbols: symbols || [] });
+      reply({ type: 'STATUS_SYMBOLS_LOADED', symbols: symbols || [] });
     } catch (error) {
-      figma.ui.postMessage({ type: 'STATUS_SYMBOLS_LOADED', symbols: [] });
+      reply({ type: 'STATUS_SYMBOLS_LOADED', symbols: [] });
     }
-    return;
-  }
+  },
   
-  if (msg.type === 'SAVE_STATUS_SYMBOLS') {
+  SAVE_STATUS_SYMBOLS: async (msg) => {
     try {
       await figma.clientStorage.setAsync(STATUS_SYMBOLS_KEY, msg.symbols);
     } catch (error) {
       figma.notify('⚠️ Failed to save status symbols', { error: true });
     }
-    return;
-  }
+  },
   
   // ============ SAVED TEMPLATES ============
-  if (msg.type === 'LOAD_SAVED_TEMPLATES') {
+  LOAD_SAVED_TEMPLATES: async (_msg, reply) => {
     try {
       const savedItems = await figma.clientStorage.getAsync('starter-kit-saved') || [];
-      figma.ui.postMessage({ type: 'SAVED_TEMPLATES_LOADED', savedItems });
+      reply({ type: 'SAVED_TEMPLATES_LOADED', savedItems });
     } catch (error) {
-      figma.ui.postMessage({ type: 'SAVED_TEMPLATES_LOADED', savedItems: [] });
+      reply({ type: 'SAVED_TEMPLATES_LOADED', savedItems: [] });
     }
-    return;
-  }
+  },
   
-  if (msg.type === 'SAVE_SAVED_TEMPLATES') {
+  SAVE_SAVED_TEMPLATES: async (msg) => {
     try {
       await figma.clientStorage.setAsync('starter-kit-saved', msg.savedItems);
     } catch (error) {
       figma.notify('⚠️ Failed to save', { error: true });
     }
-    return;
-  }
+  },
   
   // ============ SHOW TOAST ============
-  if (msg.type === 'SHOW_TOAST') {
+  SHOW_TOAST: async (msg) => {
     figma.notify(`✓ ${msg.message}`, { timeout: 2500 });
-    return;
-  }
+  },
   
   // ============ GET COMPONENT INFO ============
-  if (msg.type === 'GET_COMPONENT_INFO') {
+  GET_COMPONENT_INFO: async (msg, reply) => {
     const selection = figma.currentPage.selection;
     
     if (selection.length === 0) {
       figma.notify('⚠️ Select a component first', { error: true });
-      figma.ui.postMessage({ type: 'COMPONENT_ERROR', error: 'Select a component first' });
+      reply({ type: 'COMPONENT_ERROR', error: 'Select a component first' });
       return;
     }
     
     const node = selection[0];
     
-    // Handle COMPONENT_SET (component with variants)
-    if (node.type === 'COMPONENT_SET') {
-      const preview = await generatePreview(node);
-      
-      // Get the correct order from variant property definitions
-      let variantOrder: string[] = [];
-      if (node.componentPropertyDefinitions) {
-        for (const [key, def] of Object.entries(node.componentPropertyDefinitions)) {
-          if (def.type === 'VARIANT' && def.variantOptions) {
-            variantOrder = def.variantOptions;
-            break; // Use the first variant property's order
-          }
-        }
-      }
-      
-      // Build variants array with individual previews
-      const variants: Array<{
-        name: string;
-        displayName: string;
-        key: string;
-        preview: string | null;
-        orderIndex: number;
-      }> = [];
-      
-      figma.notify(`Capturing ${node.children.length} slides...`);
-      
-      // Generate preview for each variant
-      for (const child of node.children) {
-        if (child.type === 'COMPONENT') {
-          // Extract display name (remove property prefix like "Slides=")
-          let displayName = child.name;
-          const eqIndex = child.name.indexOf('=');
-          if (eqIndex > 0) {
-            displayName = child.name.substring(eqIndex + 1).trim();
-          }
-          
-          // Find order index from variant property definition
-          const orderIndex = variantOrder.indexOf(displayName);
-          
-          // Generate individual preview (smaller for grid)
-          let variantPreview: string | null = null;
-          try {
-            const bytes = await child.exportAsync({
-              format: 'PNG',
-              constraint: { type: 'WIDTH', value: 960 }
-            });
-            variantPreview = `data:image/png;base64,${figma.base64Encode(bytes)}`;
-          } catch {
-            // Skip preview if it fails
-          }
-          
-          variants.push({
-            name: child.name,
-            displayName: displayName,
-            key: child.key,
-            preview: variantPreview,
-            orderIndex: orderIndex >= 0 ? orderIndex : 999,
-          });
-        }
-      }
-      
-      // Sort variants by the order defined in Figma's variant property
-      variants.sort((a, b) => a.orderIndex - b.orderIndex);
-      
-      // Get default variant (first child)
-      const defaultVariant = node.children[0] as ComponentNode;
-      
-      figma.notify(`✓ ${node.name}: ${variants.length} slides captured`);
-      
-      figma.ui.postMessage({
-        type: 'COMPONENT_INFO',
-        name: node.name,
-        key: defaultVariant?.key || '',
-        id: node.id,
-        width: node.width,
-        height: node.height,
-        preview: preview,
-        isComponentSet: true,
-        variants: variants,
-        variantCount: variants.length,
-      });
+    // Not a component
+    if (node.type !== 'COMPONENT_SET' && node.type !== 'COMPONENT' && node.type !== 'INSTANCE') {
+      figma.notify('⚠️ Convert to component first (⌘⌥K)', { error: true });
+      reply({ type: 'COMPONENT_ERROR', error: 'Convert to component first (⌘⌥K)' });
       return;
     }
-
-    // Handle COMPONENT
-    if (node.type === 'COMPONENT') {
-      const preview = await generatePreview(node);
-      figma.notify(`✓ Found: ${node.name}`);
-      figma.ui.postMessage({
-        type: 'COMPONENT_INFO',
-        name: node.name,
-        key: node.key,
-        id: node.id,
-        width: node.width,
-        height: node.height,
-        preview: preview,
-        isComponentSet: false,
-      });
-      return;
+    
+    if (node.type === 'COMPONENT_SET') {
+      figma.notify(`Capturing ${node.children.length} slides...`);
     }
     
-    // Handle INSTANCE
-    if (node.type === 'INSTANCE') {
-      const mainComponent = await node.getMainComponentAsync();
-      if (mainComponent) {
-        const preview = await generatePreview(node);
-        figma.notify(`✓ Found: ${mainComponent.name}`);
-        figma.ui.postMessage({
-          type: 'COMPONENT_INFO',
-          name: mainComponent.name,
-          key: mainComponent.key,
-          id: mainComponent.id,
-          width: node.width,
-          height: node.height,
-          preview: preview,
-        });
+    try {
+      const captured = await captureNode(node, msg.capture);
+      if (captured.isComponentSet) {
+        figma.notify(`✓ ${captured.name}: ${captured.variantCount} slides captured`);
       } else {
-        figma.notify('⚠️ Could not find main component', { error: true });
-        figma.ui.postMessage({ type: 'COMPONENT_ERROR', error: 'Could not find main component' });
+        figma.notify(`✓ Found: ${captured.name}`);
       }
-      return;
+      reply({ type: 'COMPONENT_INFO', ...captured });
+    } catch (error) {
+      figma.notify('⚠️ Could not find main component', { error: true });
+      reply({ type: 'COMPONENT_ERROR', error: 'Could not find main component' });
     }
-    
-    // Not a component
-    figma.notify('⚠️ Convert to component first (⌘⌥K)', { error: true });
-    figma.ui.postMessage({ type: 'COMPONENT_ERROR', error: 'Convert to component first (⌘⌥K)' });
-    return;
-  }
+  },
 
   // ============ IMPORT COMPONENT ============
-  if (msg.type === 'IMPORT_COMPONENT') {
-    const { templateName, componentKey, isComponentSet, variantSelection, templateId, cloudId, cloudName } = msg.payload;
+  IMPORT_COMPONENT: async (msg, reply) => {
+    const { templateName, componentKey, isComponentSet, variantSelection, properties, templateId, cloudId, cloudName, placement } = msg.payload;
     
     try {
       const component = await figma.importComponentByKeyAsync(componentKey);
       let instance: InstanceNode;
+      let variantKey = component.key;
       
       if (isComponentSet && variantSelection && Object.keys(variantSelection).length > 0) {
         // For component sets, find the matching variant
@@ -547,17 +589,15 @@ figma.ui.onmessage = async (msg) => {
             .map(([key, value]) => `${key}=${value}`)
             .join(', ');
           
-          // Find matching child component
-          const matchingVariant = parent.children.find(child => {
-            if (child.type !== 'COMPONENT') return false;
-            return Object.entries(variantSelection).every(([key, value]) => {
-              const propValue = (child as ComponentNode).variantProperties?.[key];
-              return propValue === value;
-            });
-          }) as ComponentNode | undefined;
+          // Find the child with every chosen value (the UI only sends combinations that exist)
+          const matchingVariant = parent.children.find((child): child is ComponentNode =>
+            child.type === 'COMPONENT' &&
+            matchesSelection(child.variantProperties ?? parseVariantName(child.name), variantSelection)
+          );
           
           if (matchingVariant) {
             instance = matchingVariant.createInstance();
+            variantKey = matchingVariant.key;
             figma.notify(`✓ Inserted "${templateName}" (${variantProps})`);
           } else {
             instance = component.createInstance();
@@ -572,57 +612,29 @@ figma.ui.onmessage = async (msg) => {
         figma.notify(`✓ Inserted "${templateName}"`);
       }
       
-      // Position at viewport center
-      const center = figma.viewport.center;
-      instance.x = center.x - instance.width / 2;
-      instance.y = center.y - instance.height / 2;
-      
+      if (properties) await applyProperties(instance, properties);
+      stampProvenance(instance, createProvenance(templateId, cloudId, variantKey, PLUGIN_VERSION));
+      setTemplateRelaunch(instance, templateName);
       figma.currentPage.appendChild(instance);
-      figma.currentPage.selection = [instance];
-      figma.viewport.scrollAndZoomIntoView([instance]);
+      await placeAndSelect([instance], placement, templateName);
       
-      figma.ui.postMessage({ type: 'INSERT_SUCCESS', templateName, templateId, cloudId, cloudName, nodeId: instance.id, userName: figma.currentUser?.name ?? null });
+      reply({ type: 'INSERT_SUCCESS', templateName, templateId, cloudId, cloudName, nodeId: instance.id, userName: figma.currentUser?.name ?? null });
       
     } catch (error) {
       figma.notify('⚠️ Failed to import template', { error: true });
-      figma.ui.postMessage({ type: 'INSERT_ERROR', error: 'Failed to import template' });
+      reply({ type: 'INSERT_ERROR', error: 'Failed to import template' });
     }
-    return;
-  }
+  },
 
   // ============ IMPORT MULTIPLE COMPONENTS ============
-  if (msg.type === 'IMPORT_MULTIPLE_COMPONENTS') {
-    const { templateName, componentKeys, slideNames, templateId, cloudId, cloudName } = msg.payload;
+  IMPORT_MULTIPLE_COMPONENTS: async (msg, reply) => {
+    const { templateName, componentKeys, slideNames, properties, templateId, cloudId, cloudName, placement } = msg.payload;
     
     try {
-      const instances: InstanceNode[] = [];
-      const center = figma.viewport.center;
-      let xOffset = 0;
-      const errors: string[] = [];
-      
-      for (let i = 0; i < componentKeys.length; i++) {
-        const key = componentKeys[i];
-        const slideName = slideNames?.[i] || `Slide ${i + 1}`;
-        try {
-          const component = await figma.importComponentByKeyAsync(key);
-          const instance = component.createInstance();
-          
-          // Position side by side with spacing
-          instance.x = center.x - (componentKeys.length * instance.width / 2) + xOffset;
-          instance.y = center.y - instance.height / 2;
-          xOffset += instance.width + 201; // 201px gap between slides
-          
-          figma.currentPage.appendChild(instance);
-          instances.push(instance);
-        } catch (err) {
-          console.error(`Failed to import "${slideName}" with key ${key}:`, err);
-          errors.push(slideName);
-        }
-      }
+      const { instances, errors } = await createTemplateInstances(componentKeys, slideNames, templateId, templateName, cloudId, properties);
       
       if (instances.length > 0) {
-        figma.currentPage.selection = instances;
-        figma.viewport.scrollAndZoomIntoView(instances);
+        await placeAndSelect(instances, placement, templateName);
         if (errors.length > 0) {
           figma.notify(`✓ Inserted ${instances.length} slide${instances.length !== 1 ? 's' : ''}, ${errors.length} failed`);
         } else {
@@ -630,403 +642,485 @@ figma.ui.onmessage = async (msg) => {
         }
         // Send all nodeIds so we can locate any of them if one is deleted
         const nodeIds = instances.map(inst => inst.id);
-        figma.ui.postMessage({ type: 'INSERT_SUCCESS', templateName, templateId, cloudId, cloudName, count: instances.length, nodeId: instances[0]?.id, nodeIds: nodeIds.length > 1 ? nodeIds : undefined, userName: figma.currentUser?.name ?? null });
+        reply({ type: 'INSERT_SUCCESS', templateName, templateId, cloudId, cloudName, count: instances.length, nodeId: instances[0]?.id, nodeIds: nodeIds.length > 1 ? nodeIds : undefined, userName: figma.currentUser?.name ?? null });
       } else {
         figma.notify('⚠️ Component not published to Team Library. Please publish first.', { error: true, timeout: 5000 });
-        figma.ui.postMessage({ type: 'INSERT_ERROR', error: 'Component not in Team Library' });
+        reply({ type: 'INSERT_ERROR', error: 'Component not in Team Library' });
       }
       
     } catch (error) {
       figma.notify('⚠️ Failed to import - ensure component is published', { error: true });
-      figma.ui.postMessage({ type: 'INSERT_ERROR', error: 'Failed to import templates' });
+      reply({ type: 'INSERT_ERROR', error: 'Failed to import templates' });
     }
-    return;
-  }
+  },
+
+  // ============ SWAP SELECTED INSTANCE ============
+  SWAP_SELECTED_INSTANCE: async (msg, reply) => {
+    const { templateName, componentKey, variantName, templateId, cloudId, cloudName, nodeId } = msg.payload;
+    const selection = figma.currentPage.selection;
+    const instance = nodeId
+      ? await figma.getNodeByIdAsync(nodeId)
+      : selection.length === 1 ? selection[0] : null;
+
+    if (!instance || instance.type !== 'INSTANCE') {
+      figma.notify('Select one inserted template on the canvas to swap', { error: true });
+      reply({ type: 'SWAP_ERROR', error: 'Select a single instance to swap' });
+      return;
+    }
+
+    try {
+      const component = await figma.importComponentByKeyAsync(componentKey);
+      const { previousName, restoredOverrides } = await swapInstance(instance, component);
+      stampProvenance(instance, createProvenance(templateId, cloudId, component.key, PLUGIN_VERSION));
+      setTemplateRelaunch(instance, templateName);
+      const label = variantName ? `${templateName} (${variantName})` : templateName;
+      figma.notify(
+        restoredOverrides > 0
+          ? `✓ Swapped to "${label}", kept ${restoredOverrides} text override${restoredOverrides !== 1 ? 's' : ''}`
+          : `✓ Swapped to "${label}"`
+      );
+      figma.currentPage.selection = [instance];
+
+      reply({
+        type: 'SWAP_SUCCESS',
+        templateName,
+        templateId,
+        cloudId,
+        cloudName,
+        previousName,
+        nodeId: instance.id,
+        restoredOverrides,
+        userName: figma.currentUser?.name ?? null,
+      });
+    } catch (error) {
+      console.error('Failed to swap instance:', error);
+      figma.notify('⚠️ Failed to swap - ensure component is published', { error: true });
+      reply({ type: 'SWAP_ERROR', error: 'Failed to swap instance' });
+    }
+  },
+
+  // ============ DETACH INSTANCE ============
+  DETACH_INSTANCE: async (msg, reply) => {
+    try {
+      const name = await detachInstance(msg.payload.nodeId);
+      figma.notify(`Detached "${name}" - it no longer gets library updates`);
+      reply({ type: 'INSTANCE_DETACHED', nodeId: msg.payload.nodeId, name });
+    } catch (error) {
+      reply({ type: 'DETACH_ERROR', error: error instanceof Error ? error.message : String(error) });
+    }
+  },
+
+  // ============ RUN USAGE AUDIT ============
+  RUN_USAGE_AUDIT: async (msg, reply) => {
+    try {
+      const report = await runUsageAudit(msg.payload.templates);
+      reply({ type: 'USAGE_AUDIT_RESULT', report });
+    } catch (error) {
+      console.error('Usage audit failed:', error);
+      reply({ type: 'USAGE_AUDIT_ERROR', error: `Audit failed: ${error}` });
+    }
+  },
 
   // ============ SELECT NODE (go to component from Activity History) ============
-  if (msg.type === 'SELECT_NODE') {
+  SELECT_NODE: async (msg, reply) => {
     const { nodeId, nodeIds, assetId, cloudId, category } = msg;
     // Use nodeIds array if available, otherwise use single nodeId
     const idsToTry = (nodeIds && nodeIds.length > 0) ? nodeIds : (nodeId ? [nodeId] : []);
     
-    if (idsToTry.length > 0) {
-      (async () => {
+    if (idsToTry.length === 0 && !assetId) return;
+    
+    try {
+      let foundNode: SceneNode | null = null;
+      
+      // Try each nodeId in sequence until we find one that exists
+      for (const id of idsToTry) {
         try {
-          await figma.loadAllPagesAsync();
-          
-          let foundNode: SceneNode | null = null;
-          
-          // Try each nodeId in sequence until we find one that exists
-          for (const id of idsToTry) {
-            try {
-              const node = figma.getNodeById(id);
-              
-              if (node && 'visible' in node) {
-                const sceneNode = node as SceneNode;
-                
-                // Check if node is removed from the document
-                if (!sceneNode.removed) {
-                  foundNode = sceneNode;
-                  break; // Found a valid node, stop searching
-                }
-              }
-            } catch (error) {
-              // Invalid node ID or node doesn't exist, try next one
-              continue;
-            }
-          }
-          
-          if (foundNode) {
-            // Select and zoom to the found node
-            figma.currentPage.selection = [foundNode];
-            figma.viewport.scrollAndZoomIntoView([foundNode]);
-            figma.notify('Located component');
-          } else {
-            // Component not found - notify UI to fall back to template focus
-            // Don't show error to user, let UI handle graceful fallback
-            figma.ui.postMessage({ 
-              type: 'NODE_NOT_FOUND', 
-              assetId, 
-              cloudId, 
-              category 
-            });
+          const node = await figma.getNodeByIdAsync(id);
+          // Check if node is a scene node still in the document
+          if (node && 'visible' in node && !node.removed) {
+            foundNode = node as SceneNode;
+            break; // Found a valid node, stop searching
           }
         } catch (error) {
-          console.error('Error locating component:', error);
-          // Notify UI to fall back to template focus
-          figma.ui.postMessage({ 
-            type: 'NODE_NOT_FOUND', 
-            assetId, 
-            cloudId, 
-            category 
-          });
+          // Invalid node ID or node doesn't exist, try next one
+          continue;
         }
-      })();
+      }
+      
+      // Remembered nodes can be deleted; any instance stamped with the template will do
+      if (!foundNode && assetId) {
+        foundNode = await findStampedInstance(assetId);
+      }
+      
+      if (foundNode) {
+        await revealNode(foundNode);
+        figma.notify('Located component');
+      } else {
+        // Component not found - notify UI to fall back to template focus
+        // Don't show error to user, let UI handle graceful fallback
+        reply({ 
+          type: 'NODE_NOT_FOUND', 
+          assetId, 
+          cloudId, 
+          category 
+        });
+      }
+    } catch (error) {
+      console.error('Error locating component:', error);
+      // Notify UI to fall back to template focus
+      reply({ 
+        type: 'NODE_NOT_FOUND', 
+        assetId, 
+        cloudId, 
+        category 
+      });
     }
-    return;
-  }
+  },
 
-  // ============ CHECK SCAFFOLD EXISTS ============
-  if (msg.type === 'CHECK_SCAFFOLD_EXISTS') {
-    // With dynamic-page access, we need to load all pages first
-    figma.loadAllPagesAsync()
-      .then(() => {
-        // Check if scaffold pages already exist by looking for "CURRENT DESIGNS" page
-        const exists = figma.root.children.some(page => 
-          page.name.includes('CURRENT DESIGNS') || page.name.includes('Read Me')
-        );
-        figma.ui.postMessage({ type: 'SCAFFOLD_EXISTS', exists });
-      })
-      .catch((error) => {
-        console.error('Error checking scaffold:', error);
-        // Default to false if check fails
-        figma.ui.postMessage({ type: 'SCAFFOLD_EXISTS', exists: false });
-      });
-    return;
-  }
+  // ============ PLAN SCAFFOLD ============
+  PLAN_SCAFFOLD: async (msg, reply) => {
+    try {
+      const plan = await planScaffold(msg.pages?.length ? msg.pages : DEFAULT_SCAFFOLD_PAGES);
+      reply({ type: 'SCAFFOLD_PLAN', plan });
+    } catch (error) {
+      console.error('Error planning scaffold:', error);
+      reply({ type: 'SCAFFOLD_ERROR', error: String(error) });
+    }
+  },
 
   // ============ SCAFFOLD FILE STRUCTURE ============
-  if (msg.type === 'SCAFFOLD_FILE_STRUCTURE') {
-    // With dynamic-page access, we need to load all pages first
-    figma.loadAllPagesAsync()
-      .then(async () => {
-        try {
-          // Check if scaffold already exists
-          const alreadyExists = figma.root.children.some(page => 
-            page.name.includes('CURRENT DESIGNS') || page.name === 'Read Me'
-          );
-          
-          if (alreadyExists) {
-            figma.notify('⚠️ Scaffold already exists in this file', { error: true });
-            figma.ui.postMessage({ type: 'SCAFFOLD_EXISTS', exists: true });
-            return;
-          }
-          
-          // Rename existing "Page 1" to "Cover Page" or use first page
-          let coverPage: PageNode | null = null;
-          const page1 = figma.root.children.find(p => p.name === 'Page 1') as PageNode | undefined;
-      
-      if (page1) {
-        page1.name = 'Cover Page';
-        coverPage = page1;
-      } else {
-        // Use the first page if no "Page 1" exists
-        coverPage = figma.root.children[0] as PageNode;
-        if (coverPage) {
-          coverPage.name = 'Cover Page';
-        }
+  SCAFFOLD_FILE_STRUCTURE: async (msg, reply) => {
+    try {
+      // Merge into whatever the file already has; only approved (or recommended) steps run
+      const specs = msg.pages?.length ? msg.pages : DEFAULT_SCAFFOLD_PAGES;
+      const { added, renamed, moved, coverPage, firstNewPage, specPages } = await applyScaffold(specs, msg.approvedStepIds);
+      for (const page of specPages) {
+        if (page) setPageRelaunch(page);
       }
       
-      console.log('Cover page after setup:', coverPage?.name);
-      
-      // Try to insert default cover from saved templates
+      // Insert the default cover, but never on top of an existing one
       const coverComponentKey = msg.coverComponentKey;
-      console.log('Cover component key received:', coverComponentKey);
-      console.log('Cover page exists:', !!coverPage);
-      
-      if (coverComponentKey && coverPage) {
+      if (coverComponentKey && coverPage && coverPage.children.length === 0) {
+        let instance: InstanceNode | null = null;
         try {
-          console.log('Attempting to import component...');
           const component = await figma.importComponentByKeyAsync(coverComponentKey);
-          console.log('Component imported:', component.name);
-          const instance = component.createInstance();
+          instance = component.createInstance();
           
           // Position at origin of page
           instance.x = 0;
           instance.y = 0;
           
           coverPage.appendChild(instance);
-          console.log('Instance added to cover page');
           figma.notify('✓ Default cover inserted!', { timeout: 2000 });
         } catch (err) {
           console.error('Failed to insert cover:', err);
           figma.notify('Cover not in Team Library - insert manually', { timeout: 3000 });
         }
-      } else {
-        console.log('Skipping cover insert - no key or no cover page');
-      }
-      
-      // Use custom pages from UI if provided, otherwise use default structure
-      const customPages = msg.pages as Array<{ name: string; isRename: boolean }> | undefined;
-      
-      // Create pages
-      let createdCount = 0;
-      let firstNewPage: PageNode | null = null;
-      
-      if (customPages && customPages.length > 0) {
-        // Use custom pages from UI
-        for (const pageData of customPages) {
-          if (pageData.isRename) {
-            // Skip the rename page - it's already handled above as Cover Page
-            continue;
+        
+        // Frame it as the file thumbnail and fill in its text
+        if (instance) {
+          try {
+            const frame = await placeCover(instance);
+            if (msg.cover) await updateCover(msg.cover, frame);
+          } catch (err) {
+            console.error('Failed to set up cover:', err);
+            figma.notify('⚠️ Cover inserted, but its thumbnail or text could not be set', { timeout: 3000 });
           }
-          const page = figma.createPage();
-          page.name = pageData.name;
-          if (!firstNewPage) firstNewPage = page;
-          createdCount++;
         }
-      } else {
-        // Use default structure as fallback
-        const structure = [
-          'Read Me',
-          '───────────────────',
-          'CURRENT DESIGNS',
-          '🟢 {Release} {Feature Name}',
-          '🟡 {Release} {Feature Name} • Variation 2',
-          '───────────────────',
-          'MILESTONES + E2E FLOWS/DEMOS',
-          '🟢 {YYYY.MM.DD}_Product Demo',
-          '───────────────────',
-          'ARCHIVED EXPLORATIONS',
-          '{YYYY.MM.DD}_{Exploration Name}',
-          '───────────────────',
-          'BELOW THE LINE',
-          '❌ {Deprecated Feature}',
-        ];
-        
-        for (const name of structure) {
-          const page = figma.createPage();
-          page.name = name;
-          if (!firstNewPage) firstNewPage = page;
-          createdCount++;
+      }
+      
+      // Fill an empty Read Me page; one the team already wrote stays as it is
+      if (msg.readMe && (await isEmptyReadMePage(findReadMePage()))) {
+        try {
+          await generateReadMe(msg.readMe);
+        } catch (err) {
+          console.error('Failed to generate Read Me:', err);
+          figma.notify('⚠️ Could not fill the Read Me page - regenerate it from the plugin', { timeout: 3000 });
         }
       }
       
-      // Navigate to Cover Page (the renamed Page 1)
-      try {
-        if (coverPage) {
-          figma.currentPage = coverPage;
-        } else if (firstNewPage) {
-          figma.currentPage = firstNewPage;
+      // Starter content only goes on pages that are still empty, so a re-run never duplicates it
+      let missingTemplates = 0;
+      for (let i = 0; i < specs.length; i++) {
+        const page = specPages[i];
+        const content = specs[i].content;
+        if (!page || !content?.length) continue;
+        await page.loadAsync();
+        if (page.children.length > 0) continue;
+        try {
+          missingTemplates += (await fillStarterContent(page, content, PLUGIN_VERSION)).missing;
+        } catch (err) {
+          console.error(`Failed to add starter content to "${page.name}":`, err);
         }
-      } catch {
-        // Navigation failed, but pages were created
+      }
+      if (missingTemplates > 0) {
+        figma.notify(
+          `${missingTemplates} starter template${missingTemplates !== 1 ? 's' : ''} not in Team Library - placeholders added`,
+          { timeout: 3000 }
+        );
       }
       
-          figma.notify(`✓ Created ${createdCount} pages!`, { timeout: 3000 });
-          figma.ui.postMessage({ type: 'SCAFFOLD_SUCCESS', count: createdCount });
-        } catch (error) {
-          console.error('Error creating scaffold:', error);
-          figma.notify('⚠️ Error creating scaffold', { error: true });
-          figma.ui.postMessage({ type: 'SCAFFOLD_ERROR', error: String(error) });
+      // Navigate to Cover Page (or the first page added)
+      const target = coverPage ?? firstNewPage;
+      if (target) {
+        try {
+          await figma.setCurrentPageAsync(target);
+        } catch {
+          // Navigation failed, but the structure was applied
         }
-      })
-      .catch((error) => {
-        console.error('Error loading pages for scaffold:', error);
-        figma.notify('⚠️ Error loading pages', { error: true });
-        figma.ui.postMessage({ type: 'SCAFFOLD_ERROR', error: 'Failed to load pages' });
-      });
-    return;
-  }
+      }
+      
+      const count = added + renamed + moved;
+      const summary = [
+        added > 0 ? `added ${added}` : '',
+        renamed > 0 ? `renamed ${renamed}` : '',
+        moved > 0 ? `moved ${moved}` : '',
+      ].filter(Boolean).join(', ');
+      figma.notify(
+        count > 0 ? `✓ Page structure updated: ${summary}` : '✓ Page structure already up to date',
+        { timeout: 3000 }
+      );
+      reply({ type: 'SCAFFOLD_SUCCESS', count });
+    } catch (error) {
+      console.error('Error creating scaffold:', error);
+      figma.notify('⚠️ Error creating scaffold', { error: true });
+      reply({ type: 'SCAFFOLD_ERROR', error: String(error) });
+    }
+  },
+
+  // ============ PAGES ============
+  LIST_PAGES: async (msg, reply) => {
+    reply({ type: 'PAGES_LIST', report: listFilePages(msg.payload.symbols) });
+  },
+
+  SET_PAGE_STATUS: async (msg, reply) => {
+    const { pageIds, status, symbols } = msg.payload;
+    const count = setPageStatus(pageIds, status, symbols);
+    figma.notify(`✓ ${status ? `Set ${status} on` : 'Cleared the status of'} ${count} page${count !== 1 ? 's' : ''}`);
+    reply({ type: 'PAGES_LIST', report: listFilePages(symbols) });
+  },
+
+  MOVE_PAGES_TO_SECTION: async (msg, reply) => {
+    const { pageIds, section, symbols } = msg.payload;
+    try {
+      const count = movePagesToSection(pageIds, section, symbols);
+      figma.notify(`✓ Moved ${count} page${count !== 1 ? 's' : ''} to ${section}`);
+      reply({ type: 'PAGES_LIST', report: listFilePages(symbols) });
+    } catch (error) {
+      reply({ type: 'PAGES_ERROR', error: error instanceof Error ? error.message : String(error) });
+    }
+  },
+
+  ARCHIVE_PAGES: async (msg, reply) => {
+    const { pageIds, section, pattern, status, symbols } = msg.payload;
+    try {
+      const count = archivePages(pageIds, section, pattern, status, symbols);
+      figma.notify(`✓ Archived ${count} page${count !== 1 ? 's' : ''}`);
+      reply({ type: 'PAGES_LIST', report: listFilePages(symbols) });
+    } catch (error) {
+      reply({ type: 'PAGES_ERROR', error: error instanceof Error ? error.message : String(error) });
+    }
+  },
+
+  UNARCHIVE_PAGES: async (msg, reply) => {
+    const { pageIds, section, pattern, symbols } = msg.payload;
+    try {
+      const count = unarchivePages(pageIds, section, pattern, symbols);
+      figma.notify(`✓ Unarchived ${count} page${count !== 1 ? 's' : ''}`);
+      reply({ type: 'PAGES_LIST', report: listFilePages(symbols) });
+    } catch (error) {
+      reply({ type: 'PAGES_ERROR', error: error instanceof Error ? error.message : String(error) });
+    }
+  },
+
+  CAPTURE_PAGE_STRUCTURE: async (msg, reply) => {
+    reply({ type: 'PAGE_STRUCTURE_CAPTURED', sections: captureFileStructure(msg.payload.symbols, msg.payload.releases) });
+  },
+
+  // Page names checked against the naming patterns of their page structure section
+  LINT_PAGE_NAMES: async (msg, reply) => {
+    const { conventions, symbols } = msg.payload;
+    reply({ type: 'PAGE_NAMES_LINTED', issues: lintPageNames(conventions, symbols) });
+  },
+
+  FIX_PAGE_NAMES: async (msg, reply) => {
+    const { fixes, conventions, symbols } = msg.payload;
+    try {
+      const count = applyNamingFixes(fixes, symbols);
+      figma.notify(`✓ Fixed ${count} page name${count !== 1 ? 's' : ''}`);
+      reply({ type: 'PAGE_NAMES_LINTED', issues: lintPageNames(conventions, symbols) });
+    } catch (error) {
+      reply({ type: 'PAGE_NAMES_ERROR', error: error instanceof Error ? error.message : String(error) });
+    }
+  },
+
+  // ============ COVER ============
+  READ_COVER: async (_msg, reply) => {
+    try {
+      reply({ type: 'COVER_INFO', cover: await readCover() });
+    } catch (error) {
+      reply({ type: 'COVER_ERROR', error: error instanceof Error ? error.message : String(error) });
+    }
+  },
+
+  UPDATE_COVER: async (msg, reply) => {
+    try {
+      const cover = await updateCover(msg.payload.fields);
+      figma.notify('✓ Cover updated');
+      reply({ type: 'COVER_INFO', cover });
+    } catch (error) {
+      reply({ type: 'COVER_ERROR', error: error instanceof Error ? error.message : String(error) });
+    }
+  },
+
+  REFRESH_COVER: async (_msg, reply) => {
+    try {
+      const cover = await refreshCover();
+      figma.notify(cover.available.includes('lastUpdated') ? '✓ Cover date updated' : '⚠️ The cover has no last-updated property');
+      reply({ type: 'COVER_INFO', cover });
+    } catch (error) {
+      reply({ type: 'COVER_ERROR', error: error instanceof Error ? error.message : String(error) });
+    }
+  },
+
+  SET_COVER_THUMBNAIL: async (_msg, reply) => {
+    try {
+      const cover = await setCoverThumbnail();
+      figma.notify('✓ Cover set as the file thumbnail');
+      reply({ type: 'COVER_INFO', cover });
+    } catch (error) {
+      reply({ type: 'COVER_ERROR', error: error instanceof Error ? error.message : String(error) });
+    }
+  },
+
+  // ============ READ ME ============
+  GENERATE_READ_ME: async (msg, reply) => {
+    try {
+      const page = await generateReadMe(msg.payload);
+      await figma.setCurrentPageAsync(page);
+      figma.notify('✓ Read Me page updated');
+      reply({ type: 'READ_ME_GENERATED', pageId: page.id });
+    } catch (error) {
+      console.error('Error generating Read Me:', error);
+      figma.notify('⚠️ Could not generate the Read Me page', { error: true });
+      reply({ type: 'READ_ME_ERROR', error: error instanceof Error ? error.message : String(error) });
+    }
+  },
+
+  // Library text style of the selected text layer, for the Read Me's typography
+  CAPTURE_TEXT_STYLE: async (_msg, reply) => {
+    const [node] = figma.currentPage.selection;
+    if (!node || node.type !== 'TEXT') {
+      reply({ type: 'TEXT_STYLE_ERROR', error: 'Select a text layer that uses a text style.' });
+      return;
+    }
+    const style = typeof node.textStyleId === 'string' && node.textStyleId
+      ? await figma.getStyleByIdAsync(node.textStyleId)
+      : null;
+    if (!style) {
+      reply({ type: 'TEXT_STYLE_ERROR', error: 'The selected text has no single text style applied.' });
+      return;
+    }
+    reply({ type: 'TEXT_STYLE_CAPTURED', style: { key: style.key, name: style.name } });
+  },
 
   // ============ CLOUD POCs ============
-  const CLOUD_POCS_KEY = 'starter-kit-cloud-pocs';
-  
-  if (msg.type === 'LOAD_CLOUD_POCS') {
+  LOAD_CLOUD_POCS: async (_msg, reply) => {
     try {
       const pocs = await figma.clientStorage.getAsync(CLOUD_POCS_KEY);
-      figma.ui.postMessage({ type: 'CLOUD_POCS_LOADED', pocs: pocs || {} });
+      reply({ type: 'CLOUD_POCS_LOADED', pocs: pocs || {} });
     } catch (error) {
-      figma.ui.postMessage({ type: 'CLOUD_POCS_LOADED', pocs: {} });
+      reply({ type: 'CLOUD_POCS_LOADED', pocs: {} });
     }
-    return;
-  }
+  },
   
-  if (msg.type === 'SAVE_CLOUD_POCS') {
+  SAVE_CLOUD_POCS: async (msg) => {
     try {
       await figma.clientStorage.setAsync(CLOUD_POCS_KEY, msg.pocs);
     } catch (error) {
       figma.notify('⚠️ Failed to save POCs', { error: true });
     }
-    return;
-  }
+  },
+
+  // ============ INSERT PLACEMENT CACHE (for quick inserts) ============
+  SAVE_INSERT_PLACEMENT: async (msg) => {
+    try {
+      await figma.clientStorage.setAsync(INSERT_PLACEMENT_KEY, msg.placement);
+    } catch (error) {
+      console.error('Failed to cache insert placement:', error);
+    }
+  },
+
+  // ============ TAKE QUEUED INSERTS (quick inserts awaiting the activity log) ============
+  TAKE_QUEUED_INSERTS: async (_msg, reply) => {
+    try {
+      const inserts: InsertRecord[] = (await figma.clientStorage.getAsync(QUEUED_INSERTS_KEY)) || [];
+      if (inserts.length > 0) await figma.clientStorage.deleteAsync(QUEUED_INSERTS_KEY);
+      reply({ type: 'QUEUED_INSERTS', inserts });
+    } catch (error) {
+      reply({ type: 'QUEUED_INSERTS', inserts: [] });
+    }
+  },
 
   // ============ REQUEST VARIANT PREVIEW (high-res for popover) ============
-  if (msg.type === 'REQUEST_VARIANT_PREVIEW') {
-    const { variantKey } = msg.payload;
-    if (!variantKey) return;
+  REQUEST_VARIANT_PREVIEW: async (msg, reply) => {
+    const { variantKey, rendition } = msg.payload;
+    if (!variantKey) {
+      reply({ type: 'VARIANT_PREVIEW_ERROR', variantKey });
+      return;
+    }
     try {
       const component = await figma.importComponentByKeyAsync(variantKey);
-      const bytes = await component.exportAsync({
-        format: 'PNG',
-        constraint: { type: 'WIDTH', value: 960 }
-      });
-      figma.ui.postMessage({
-        type: 'VARIANT_PREVIEW_RESULT',
-        variantKey,
-        imageData: `data:image/png;base64,${figma.base64Encode(bytes)}`,
-      });
+      const imageData = await exportRendition(component, rendition ?? FULL_RENDITION);
+      if (imageData) {
+        reply({ type: 'VARIANT_PREVIEW_RESULT', variantKey, imageData });
+      } else {
+        reply({ type: 'VARIANT_PREVIEW_ERROR', variantKey });
+      }
     } catch {
-      figma.ui.postMessage({ type: 'VARIANT_PREVIEW_ERROR', variantKey });
+      reply({ type: 'VARIANT_PREVIEW_ERROR', variantKey });
     }
-    return;
-  }
+  },
 
   // ============ GET PREVIEW ============
-  if (msg.type === 'GET_PREVIEW') {
-    const { componentKey } = msg.payload;
+  GET_PREVIEW: async (msg, reply) => {
+    const { componentKey, rendition } = msg.payload;
     
     try {
       const component = await figma.importComponentByKeyAsync(componentKey);
-      const instance = component.createInstance();
-      
-      const bytes = await instance.exportAsync({
-        format: 'PNG',
-        constraint: { type: 'WIDTH', value: 400 }
-      });
-      
-      instance.remove();
-      
-      const base64 = figma.base64Encode(bytes);
-      figma.ui.postMessage({
-        type: 'PREVIEW_RESULT',
-        componentKey,
-        imageData: `data:image/png;base64,${base64}`,
-      });
+      const imageData = await exportRendition(
+        component,
+        rendition ?? PREVIEW_RENDITION
+      );
+      if (imageData) {
+        reply({ type: 'PREVIEW_RESULT', componentKey, imageData });
+      } else {
+        reply({ type: 'PREVIEW_NOT_AVAILABLE', componentKey });
+      }
     } catch {
-      figma.ui.postMessage({ type: 'PREVIEW_NOT_AVAILABLE', componentKey });
+      reply({ type: 'PREVIEW_NOT_AVAILABLE', componentKey });
     }
-  }
+  },
 
   // ============ REFRESH ALL TEMPLATES ============
-  if (msg.type === 'REFRESH_ALL_TEMPLATES') {
-    const { templates } = msg.payload;
+  REFRESH_ALL_TEMPLATES: async (msg, reply) => {
+    const { templates, capture } = msg.payload;
     
     if (!templates || templates.length === 0) {
-      figma.ui.postMessage({ type: 'ALL_TEMPLATES_REFRESHED', templates: [] });
+      reply({ type: 'ALL_TEMPLATES_REFRESHED', templates: [] });
       return;
     }
     
     figma.notify(`Refreshing ${templates.length} templates...`);
-    const refreshedTemplates: any[] = [];
+    const refreshedTemplates: RefreshedTemplate[] = [];
     let successCount = 0;
     let errorCount = 0;
     
     for (const template of templates) {
       try {
-        const component = await figma.importComponentByKeyAsync(template.componentKey);
-        
-        if (template.isComponentSet) {
-          const parent = component.parent;
-          if (parent && parent.type === 'COMPONENT_SET') {
-            // Generate main preview
-            const mainPreviewBytes = await parent.exportAsync({
-              format: 'PNG',
-              constraint: { type: 'WIDTH', value: 400 }
-            });
-            const mainPreview = `data:image/png;base64,${figma.base64Encode(mainPreviewBytes)}`;
-            
-            // Get variant order
-            let variantOrder: string[] = [];
-            if (parent.componentPropertyDefinitions) {
-              for (const [key, def] of Object.entries(parent.componentPropertyDefinitions)) {
-                if (def.type === 'VARIANT' && def.variantOptions) {
-                  variantOrder = def.variantOptions;
-                  break;
-                }
-              }
-            }
-            
-            // Build variants array
-            const variants: any[] = [];
-            for (const child of parent.children) {
-              if (child.type === 'COMPONENT') {
-                let displayName = child.name;
-                const eqIndex = child.name.indexOf('=');
-                if (eqIndex > 0) {
-                  displayName = child.name.substring(eqIndex + 1).trim();
-                }
-                
-                const orderIndex = variantOrder.indexOf(displayName);
-                
-                let variantPreview: string | null = null;
-                try {
-                  const bytes = await child.exportAsync({
-                    format: 'PNG',
-                    constraint: { type: 'WIDTH', value: 960 }
-                  });
-                  variantPreview = `data:image/png;base64,${figma.base64Encode(bytes)}`;
-                } catch {
-                  // Skip preview if it fails
-                }
-                
-                variants.push({
-                  name: child.name,
-                  displayName,
-                  key: child.key,
-                  preview: variantPreview,
-                  orderIndex: orderIndex >= 0 ? orderIndex : 999,
-                });
-              }
-            }
-            
-            variants.sort((a, b) => a.orderIndex - b.orderIndex);
-            
-            refreshedTemplates.push({
-              id: template.id,
-              preview: mainPreview,
-              size: { width: Math.round(parent.width), height: Math.round(parent.height) },
-              variants,
-              variantCount: variants.length,
-            });
-            successCount++;
-          }
-        } else {
-          // Single component
-          const instance = component.createInstance();
-          const bytes = await instance.exportAsync({
-            format: 'PNG',
-            constraint: { type: 'WIDTH', value: 400 }
-          });
-          instance.remove();
-          
-          refreshedTemplates.push({
-            id: template.id,
-            preview: `data:image/png;base64,${figma.base64Encode(bytes)}`,
-            size: { width: Math.round(component.width), height: Math.round(component.height) },
-          });
-          successCount++;
-        }
+        const captured = await captureByKey(template.componentKey, template.isComponentSet, capture);
+        refreshedTemplates.push(toRefreshedTemplate(template.id, captured));
+        successCount++;
       } catch (error) {
         console.error(`Failed to refresh template ${template.id}:`, error);
         errorCount++;
@@ -1040,130 +1134,59 @@ figma.ui.onmessage = async (msg) => {
       figma.notify(`✓ All ${successCount} templates refreshed`);
     }
     
-    figma.ui.postMessage({ type: 'ALL_TEMPLATES_REFRESHED', templates: refreshedTemplates });
-    return;
-  }
+    reply({ type: 'ALL_TEMPLATES_REFRESHED', templates: refreshedTemplates });
+  },
 
   // ============ REFRESH TEMPLATE ============
-  if (msg.type === 'REFRESH_TEMPLATE') {
-    const { templateId, componentKey, isComponentSet } = msg.payload;
+  REFRESH_TEMPLATE: async (msg, reply) => {
+    const { templateId, componentKey, isComponentSet, capture } = msg.payload;
     
     try {
       figma.notify('Refreshing template...');
-      const component = await figma.importComponentByKeyAsync(componentKey);
+      const captured = await captureByKey(componentKey, isComponentSet, capture);
+      const { id: _id, ...refreshed } = toRefreshedTemplate(templateId, captured);
       
-      if (isComponentSet) {
-        // For component sets, get the parent and refresh all variants
-        const parent = component.parent;
-        if (parent && parent.type === 'COMPONENT_SET') {
-          // Generate main preview
-          const mainPreviewBytes = await parent.exportAsync({
-            format: 'PNG',
-            constraint: { type: 'WIDTH', value: 400 }
-          });
-          const mainPreview = `data:image/png;base64,${figma.base64Encode(mainPreviewBytes)}`;
-          
-          // Get variant order from property definitions
-          let variantOrder: string[] = [];
-          if (parent.componentPropertyDefinitions) {
-            for (const [key, def] of Object.entries(parent.componentPropertyDefinitions)) {
-              if (def.type === 'VARIANT' && def.variantOptions) {
-                variantOrder = def.variantOptions;
-                break;
-              }
-            }
-          }
-          
-          // Build updated variants array
-          const variants: Array<{
-            name: string;
-            displayName: string;
-            key: string;
-            preview: string | null;
-            orderIndex: number;
-          }> = [];
-          
-          for (const child of parent.children) {
-            if (child.type === 'COMPONENT') {
-              let displayName = child.name;
-              const eqIndex = child.name.indexOf('=');
-              if (eqIndex > 0) {
-                displayName = child.name.substring(eqIndex + 1).trim();
-              }
-              
-              const orderIndex = variantOrder.indexOf(displayName);
-              
-              let variantPreview: string | null = null;
-              try {
-                const bytes = await child.exportAsync({
-                  format: 'PNG',
-                  constraint: { type: 'WIDTH', value: 960 }
-                });
-                variantPreview = `data:image/png;base64,${figma.base64Encode(bytes)}`;
-              } catch {
-                // Skip preview if it fails
-              }
-              
-              variants.push({
-                name: child.name,
-                displayName: displayName,
-                key: child.key,
-                preview: variantPreview,
-                orderIndex: orderIndex >= 0 ? orderIndex : 999,
-              });
-            }
-          }
-          
-          variants.sort((a, b) => a.orderIndex - b.orderIndex);
-          
-          figma.notify(`✓ Refreshed: ${variants.length} variants updated`);
-          figma.ui.postMessage({
-            type: 'TEMPLATE_REFRESHED',
-            templateId,
-            preview: mainPreview,
-            size: { width: Math.round(parent.width), height: Math.round(parent.height) },
-            variants: variants,
-            variantCount: variants.length,
-          });
-        }
+      if (captured.isComponentSet) {
+        figma.notify(`✓ Refreshed: ${captured.variantCount} variants updated`);
       } else {
-        // Single component
-        const instance = component.createInstance();
-        const bytes = await instance.exportAsync({
-          format: 'PNG',
-          constraint: { type: 'WIDTH', value: 400 }
-        });
-        instance.remove();
-        
-        const preview = `data:image/png;base64,${figma.base64Encode(bytes)}`;
-        
-        figma.notify(`✓ Refreshed: ${component.name}`);
-        figma.ui.postMessage({
-          type: 'TEMPLATE_REFRESHED',
-          templateId,
-          preview: preview,
-          size: { width: Math.round(component.width), height: Math.round(component.height) },
-        });
+        figma.notify(`✓ Refreshed: ${captured.name}`);
       }
+      reply({ type: 'TEMPLATE_REFRESHED', templateId, ...refreshed });
     } catch (error) {
       figma.notify('⚠️ Failed to refresh - ensure component is published', { error: true });
-      figma.ui.postMessage({ type: 'TEMPLATE_REFRESH_ERROR', templateId, error: 'Failed to refresh template' });
+      reply({ type: 'TEMPLATE_REFRESH_ERROR', templateId, error: 'Failed to refresh template' });
     }
-    return;
-  }
+  },
+
+  // ============ CHECK LIBRARY HEALTH ============
+  CHECK_LIBRARY_HEALTH: async (msg, reply) => {
+    const { templates } = msg.payload;
+    
+    figma.notify(`Checking ${templates.length} templates...`);
+    const results = await checkLibraryHealth(templates);
+    const broken = results.filter(r => r.status === 'broken').length;
+    const changed = results.filter(r => r.status === 'changed').length;
+    
+    if (broken > 0 || changed > 0) {
+      figma.notify(`⚠️ ${broken} broken, ${changed} changed out of ${results.length} templates`);
+    } else {
+      figma.notify(`✓ All ${results.length} templates are healthy`);
+    }
+    
+    reply({ type: 'LIBRARY_HEALTH_RESULT', results });
+  },
 
   // ============ OPEN EXTERNAL URL ============
-  if (msg.type === 'OPEN_EXTERNAL_URL') {
+  OPEN_EXTERNAL_URL: async (msg) => {
     try {
       await figma.openExternal(msg.url);
     } catch (error) {
       figma.notify('Failed to open link', { error: true });
     }
-    return;
-  }
+  },
 
   // ============ GET SELECTED FRAME BRANDING ============
-  if (msg.type === 'GET_SELECTED_FRAME_BRANDING') {
+  GET_SELECTED_FRAME_BRANDING: async (_msg, reply) => {
     try {
       const selection = figma.currentPage.selection;
       if (selection.length > 0) {
@@ -1175,30 +1198,29 @@ figma.ui.onmessage = async (msg) => {
             constraint: { type: 'WIDTH', value: 200 }
           });
           const imageData = `data:image/png;base64,${figma.base64Encode(bytes)}`;
-          figma.ui.postMessage({ 
+          reply({ 
             type: 'SELECTED_FRAME_BRANDING_LOADED', 
             branding: imageData,
             frameName: node.name
           });
         } else {
-          figma.ui.postMessage({ type: 'SELECTED_FRAME_BRANDING_LOADED', branding: null });
+          reply({ type: 'SELECTED_FRAME_BRANDING_LOADED', branding: null });
         }
       } else {
-        figma.ui.postMessage({ type: 'SELECTED_FRAME_BRANDING_LOADED', branding: null });
+        reply({ type: 'SELECTED_FRAME_BRANDING_LOADED', branding: null });
       }
     } catch (error) {
-      figma.ui.postMessage({ type: 'SELECTED_FRAME_BRANDING_LOADED', branding: null });
+      reply({ type: 'SELECTED_FRAME_BRANDING_LOADED', branding: null });
     }
-    return;
-  }
+  },
 
   // ============ GET FRAME DETAILS ============
-  if (msg.type === 'GET_FRAME_DETAILS') {
+  GET_FRAME_DETAILS: async (_msg, reply) => {
     try {
       const selection = figma.currentPage.selection;
       
       if (selection.length === 0) {
-        figma.ui.postMessage({ 
+        reply({ 
           type: 'FRAME_DETAILS_RESULT', 
           error: 'No frame selected. Please select a frame, component, or instance.' 
         });
@@ -1209,31 +1231,20 @@ figma.ui.onmessage = async (msg) => {
       
       // Check if it's a frame, component, or instance
       if (node.type !== 'FRAME' && node.type !== 'COMPONENT' && node.type !== 'INSTANCE') {
-        figma.ui.postMessage({ 
+        reply({ 
           type: 'FRAME_DETAILS_RESULT', 
           error: 'Selected node is not a frame, component, or instance.' 
         });
         return;
       }
       
-      // Calculate aspect ratio
+      // Calculate aspect ratio (guideline checks run through RUN_COMPLIANCE_CHECK)
       const aspectRatio = node.width / node.height;
-      const is16x9 = Math.abs(aspectRatio - 16/9) < 0.01; // Allow small tolerance
       
       // Check if it has auto layout
       const hasAutoLayout = 'layoutMode' in node && 
                            (node.layoutMode === 'HORIZONTAL' || node.layoutMode === 'VERTICAL');
       
-      // Check recommended resolutions
-      const recommendedResolutions = [
-        { width: 1600, height: 900 },
-        { width: 1920, height: 1080 }
-      ];
-      
-      const matchesRecommended = recommendedResolutions.some(res => 
-        node.width === res.width && node.height === res.height
-      );
-      
       // Get layout properties if available
       const layoutProps = hasAutoLayout ? {
         layoutMode: node.layoutMode,
@@ -1246,7 +1257,7 @@ figma.ui.onmessage = async (msg) => {
         itemSpacing: node.itemSpacing,
       } : null;
       
-      figma.ui.postMessage({
+      reply({
         type: 'FRAME_DETAILS_RESULT',
         details: {
           name: node.name,
@@ -1254,25 +1265,49 @@ figma.ui.onmessage = async (msg) => {
           width: Math.round(node.width),
           height: Math.round(node.height),
           aspectRatio: aspectRatio.toFixed(2),
-          is16x9: is16x9,
           hasAutoLayout: hasAutoLayout,
-          matchesRecommendedResolution: matchesRecommended,
           layoutProps: layoutProps,
         }
       });
       
     } catch (error) {
-      figma.ui.postMessage({ 
+      reply({ 
         type: 'FRAME_DETAILS_RESULT', 
         error: `Error getting frame details: ${error}` 
       });
     }
-    return;
-  }
-};
+  },
+
+  // ============ RUN COMPLIANCE CHECK ============
+  RUN_COMPLIANCE_CHECK: async (msg, reply) => {
+    const { rules, scope } = msg.payload;
+    try {
+      const report = await runComplianceCheck(rules, scope);
+      reply({ type: 'COMPLIANCE_RESULT', report });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      reply({ type: 'COMPLIANCE_ERROR', error: message });
+    }
+  },
+
+  // ============ APPLY COMPLIANCE FIXES ============
+  APPLY_COMPLIANCE_FIXES: async (msg, reply) => {
+    const { applied, failed } = await applyComplianceFixes(msg.payload.fixes);
+    
+    if (failed.length > 0) {
+      figma.notify(`⚠️ Applied ${applied} fix${applied !== 1 ? 'es' : ''}, ${failed.length} failed`, { error: true });
+    } else {
+      figma.notify(`✓ Applied ${applied} fix${applied !== 1 ? 'es' : ''} - undo to revert them all`);
+    }
+    
+    reply({ type: 'COMPLIANCE_FIXES_APPLIED', applied, failed });
+  },
+});
 
-// Listen for selection changes to update branding
+// Listen for selection changes to update branding and the context panel
 figma.on('selectionchange', async () => {
+  if (!isUIOpen) return;
+  sendSelectedInstance();
   const selection = figma.currentPage.selection;
   if (selection.length > 0) {
     const node = selection[0];
@@ -1283,7 +1318,7 @@ figma.on('selectionchange', async () => {
           constraint: { type: 'WIDTH', value: 200 }
         });
         const imageData = `data:image/png;base64,${figma.base64Encode(bytes)}`;
-        figma.ui.postMessage({ 
+        sendToUI({ 
           type: 'SELECTED_FRAME_BRANDING_LOADED', 
           branding: imageData,
           frameName: node.name
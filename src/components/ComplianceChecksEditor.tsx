@@ -0,0 +1,195 @@
+import type { ComplianceCheck, ComplianceCheckType, TemplateSize } from '../lib/protocol';
+import { describeComplianceCheck } from './CompliancePanel';
+
+interface ComplianceChecksEditorProps {
+  checks: ComplianceCheck[];
+  onChange: (checks: ComplianceCheck[]) => void;
+}
+
+/** Check types an admin can add, with the values a new check starts from */
+const CHECK_TYPES: { type: ComplianceCheckType; label: string; create: () => ComplianceCheck }[] = [
+  {
+    type: 'aspect-ratio',
+    label: 'Aspect ratio',
+    create: () => ({ type: 'aspect-ratio', ratioWidth: 16, ratioHeight: 9, tolerance: 0.01 }),
+  },
+  {
+    type: 'resolution',
+    label: 'Resolution list',
+    create: () => ({ type: 'resolution', sizes: [{ width: 1920, height: 1080 }] }),
+  },
+  { type: 'auto-layout', label: 'Auto Layout required', create: () => ({ type: 'auto-layout' }) },
+  { type: 'naming', label: 'Naming pattern', create: () => ({ type: 'naming', pattern: '^.+$' }) },
+  { type: 'fonts', label: 'Allowed fonts', create: () => ({ type: 'fonts', families: [] }) },
+  { type: 'fills', label: 'Allowed fills', create: () => ({ type: 'fills', colors: [] }) },
+  {
+    type: 'spacing',
+    label: 'Spacing tokens',
+    create: () => ({ type: 'spacing', tokens: [0, 4, 8, 12, 16, 24, 32, 48, 64] }),
+  },
+];
+
+function parseList(text: string): string[] {
+  return text.split(',').map(item => item.trim()).filter(Boolean);
+}
+
+/** "1600x900, 1920×1080" -> sizes; entries that aren't WxH are dropped */
+function parseSizes(text: string): TemplateSize[] {
+  return parseList(text).flatMap(item => {
+    const match = item.match(/^(\d+)\s*[x×]\s*(\d+)$/i);
+    return match ? [{ width: Number(match[1]), height: Number(match[2]) }] : [];
+  });
+}
+
+/** "#0176d3, 032d60" -> ["#0176D3", "#032D60"]; entries that aren't hex colors are dropped */
+function parseColors(text: string): string[] {
+  return parseList(text)
+    .map(color => (color.startsWith('#') ? color : `#${color}`).toUpperCase())
+    .filter(color => /^#[0-9A-F]{6}$/.test(color));
+}
+
+/** "0, 4, 8" -> [0, 4, 8]; negative or non-numeric entries are dropped */
+function parseTokens(text: string): number[] {
+  return parseList(text)
+    .map(Number)
+    .filter(token => Number.isFinite(token) && token >= 0)
+    .sort((a, b) => a - b);
+}
+
+function CheckFields({ check, onChange }: { check: ComplianceCheck; onChange: (check: ComplianceCheck) => void }) {
+  switch (check.type) {
+    case 'aspect-ratio':
+      return (
+        <div className="compliance-editor__fields">
+          <input
+            type="number"
+            min={1}
+            className="compliance-editor__number"
+            value={check.ratioWidth}
+            onChange={(e) => onChange({ ...check, ratioWidth: Math.max(1, Number(e.target.value)) })}
+          />
+          <span>:</span>
+          <input
+            type="number"
+            min={1}
+            className="compliance-editor__number"
+            value={check.ratioHeight}
+            onChange={(e) => onChange({ ...check, ratioHeight: Math.max(1, Number(e.target.value)) })}
+          />
+          <span>±</span>
+          <input
+            type="number"
+            min={0}
+            step={0.01}
+            className="compliance-editor__number"
+            value={check.tolerance}
+            onChange={(e) => onChange({ ...check, tolerance: Math.max(0, Number(e.target.value)) })}
+            title="Tolerance"
+          />
+        </div>
+      );
+    case 'resolution':
+      // List fields commit on blur so partially typed entries aren't dropped while typing
+      return (
+        <input
+          type="text"
+          className="compliance-editor__text"
+          placeholder="1600x900, 1920x1080"
+          defaultValue={check.sizes.map(size => `${size.width}x${size.height}`).join(', ')}
+          onBlur={(e) => onChange({ ...check, sizes: parseSizes(e.target.value) })}
+        />
+      );
+    case 'naming':
+      return (
+        <input
+          type="text"
+          className="compliance-editor__text"
+          placeholder="Regular expression, e.g. ^Slide \d+"
+          value={check.pattern}
+          onChange={(e) => onChange({ ...check, pattern: e.target.value })}
+        />
+      );
+    case 'fonts':
+      return (
+        <input
+          type="text"
+          className="compliance-editor__text"
+          placeholder="Salesforce Sans, Inter"
+          defaultValue={check.families.join(', ')}
+          onBlur={(e) => onChange({ ...check, families: parseList(e.target.value) })}
+        />
+      );
+    case 'fills':
+      return (
+        <input
+          type="text"
+          className="compliance-editor__text"
+          placeholder="#FFFFFF, #0176D3"
+          defaultValue={check.colors.join(', ')}
+          onBlur={(e) => onChange({ ...check, colors: parseColors(e.target.value) })}
+        />
+      );
+    case 'spacing':
+      return (
+        <input
+          type="text"
+          className="compliance-editor__text"
+          placeholder="0, 4, 8, 12, 16, 24, 32"
+          defaultValue={check.tokens.join(', ')}
+          onBlur={(e) => onChange({ ...check, tokens: parseTokens(e.target.value) })}
+        />
+      );
+    case 'auto-layout':
+      return null;
+  }
+}
+
+/** Edits the checks a housekeeping rule runs (see the compliance engine in lib/compliance.ts) */
+export function ComplianceChecksEditor({ checks, onChange }: ComplianceChecksEditorProps) {
+  const available = CHECK_TYPES.filter(option => !checks.some(check => check.type === option.type));
+
+  const updateCheck = (index: number, check: ComplianceCheck) =>
+    onChange(checks.map((existing, i) => (i === index ? check : existing)));
+
+  return (
+    <div className="compliance-editor">
+      {checks.length === 0 && (
+        <p className="compliance-editor__empty">No checks - this rule is guidance only.</p>
+      )}
+      {checks.map((check, index) => (
+        <div key={check.type} className="compliance-editor__check">
+          <div className="compliance-editor__check-header">
+            <span className="compliance-editor__check-label">{describeComplianceCheck(check)}</span>
+            <button
+              className="compliance-editor__remove"
+              onClick={() => onChange(checks.filter((_, i) => i !== index))}
+              title="Remove check"
+            >
+              <svg width="12" height="12" viewBox="0 0 16 16" fill="none" stroke="currentColor" strokeWidth="2">
+                <path d="M4 4l8 8M12 4l-8 8"/>
+              </svg>
+            </button>
+          </div>
+          <CheckFields check={check} onChange={(updated) => updateCheck(index, updated)} />
+        </div>
+      ))}
+      {available.length > 0 && (
+        <select
+          className="compliance-editor__add"
+          value=""
+          onChange={(e) => {
+            const option = CHECK_TYPES.find(o => o.type === e.target.value);
+            if (option) onChange([...checks, option.create()]);
+          }}
+        >
+          <option value="">+ Add check...</option>
+          {available.map(option => (
+            <option key={option.type} value={option.type}>{option.label}</option>
+          ))}
+        </select>
+      )}
+    </div>
+  );
+}
+
+export default ComplianceChecksEditor;
@@ -0,0 +1,326 @@
+import { useEffect, useState } from 'react';
+
+import { sendToPlugin, usePluginRequest } from '../lib/messaging';
+import type {
+  ComplianceCheck,
+  ComplianceCheckResult,
+  ComplianceFix,
+  ComplianceNodeResult,
+  ComplianceReport,
+  ComplianceRule,
+  ComplianceScope,
+} from '../lib/protocol';
+
+interface CompliancePanelProps {
+  /** Rules to run; rules without checks are skipped */
+  rules: ComplianceRule[];
+  initialScope?: ComplianceScope;
+  /** Run against the initial scope as soon as the panel opens */
+  runOnMount?: boolean;
+  /** Called after a batch of fixes was applied (the panel re-runs its own check) */
+  onFixesApplied?: () => void;
+}
+
+/** Selected fixes by id; at most one per fix group */
+type FixSelection = Record<string, ComplianceFix>;
+
+const SCOPE_OPTIONS: { value: ComplianceScope; label: string }[] = [
+  { value: 'selection', label: 'Selection' },
+  { value: 'page', label: 'Current page' },
+  { value: 'file', label: 'Whole file' },
+];
+
+/** Human-readable name of a check, e.g. "16:9 Aspect Ratio" */
+export function describeComplianceCheck(check: ComplianceCheck): string {
+  switch (check.type) {
+    case 'aspect-ratio':
+      return `${check.ratioWidth}:${check.ratioHeight} Aspect Ratio`;
+    case 'resolution':
+      return `Resolution ${check.sizes.map(size => `${size.width}×${size.height}`).join(' or ')}`;
+    case 'auto-layout':
+      return 'Auto Layout';
+    case 'naming':
+      return `Name matches /${check.pattern}/`;
+    case 'fonts':
+      return `Fonts: ${check.families.join(', ')}`;
+    case 'fills':
+      return `Fill colors: ${check.colors.join(', ')}`;
+    case 'spacing':
+      return `Spacing tokens: ${check.tokens.join(', ')}`;
+  }
+}
+
+function StatusIcon({ passed }: { passed: boolean }) {
+  return passed ? (
+    <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+      <path d="M20 6L9 17l-5-5"/>
+    </svg>
+  ) : (
+    <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+      <circle cx="12" cy="12" r="10"/>
+      <path d="M12 8v4M12 16h.01"/>
+    </svg>
+  );
+}
+
+function CheckResultItem({ result, showRule, selectedFixes, onToggleFix }: {
+  result: ComplianceCheckResult;
+  showRule: boolean;
+  selectedFixes: FixSelection;
+  onToggleFix: (fix: ComplianceFix) => void;
+}) {
+  const tone = result.passed ? 'success' : 'error';
+  return (
+    <div className={`compliance-item compliance-item--${tone}`}>
+      <div className={`compliance-item__icon compliance-item__icon--${tone}`}>
+        <StatusIcon passed={result.passed} />
+      </div>
+      <div className="compliance-item__content">
+        <div className="compliance-item__title">{describeComplianceCheck(result.check)}</div>
+        <div className="compliance-item__status">{result.passed ? result.detail : `Current: ${result.detail}`}</div>
+        {showRule && <div className="compliance-item__hint">{result.ruleTitle}</div>}
+        {result.fixes && (
+          <div className="compliance-item__fixes">
+            {result.fixes.map(fix => (
+              <label key={fix.id} className="compliance-item__fix">
+                <input
+                  type="checkbox"
+                  checked={!!selectedFixes[fix.id]}
+                  onChange={() => onToggleFix(fix)}
+                />
+                <span>{fix.label}</span>
+              </label>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function NodeResult({ node, expanded, showPage, showRule, selectedFixes, onToggleFix }: {
+  node: ComplianceNodeResult;
+  expanded: boolean;
+  showPage: boolean;
+  showRule: boolean;
+  selectedFixes: FixSelection;
+  onToggleFix: (fix: ComplianceFix) => void;
+}) {
+  const failed = node.checks.filter(result => !result.passed).length;
+  return (
+    <div className="compliance-panel__node">
+      <button
+        className="compliance-panel__node-header"
+        onClick={() => sendToPlugin({ type: 'SELECT_NODE', nodeId: node.nodeId })}
+        title="Select on canvas"
+      >
+        <span className={`compliance-panel__node-status compliance-panel__node-status--${node.passed ? 'pass' : 'fail'}`}>
+          <StatusIcon passed={node.passed} />
+        </span>
+        <span className="compliance-panel__node-name">{node.name}</span>
+        {showPage && <span className="compliance-panel__node-page">{node.pageName}</span>}
+        {!node.passed && <span className="compliance-panel__node-count">{failed} failed</span>}
+      </button>
+      {expanded && node.checks.map((result, i) => (
+        <CheckResultItem
+          key={`${result.ruleId}-${i}`}
+          result={result}
+          showRule={showRule}
+          selectedFixes={selectedFixes}
+          onToggleFix={onToggleFix}
+        />
+      ))}
+    </div>
+  );
+}
+
+/** Preview of the selected fixes with the button that applies them as one undo step */
+function FixPreview({ fixes, nodes, applying, onApply, onClear }: {
+  fixes: ComplianceFix[];
+  nodes: ComplianceNodeResult[];
+  applying: boolean;
+  onApply: () => void;
+  onClear: () => void;
+}) {
+  const nodeName = (nodeId: string) => nodes.find(node => node.nodeId === nodeId)?.name ?? nodeId;
+  return (
+    <div className="compliance-panel__preview">
+      <div className="compliance-panel__preview-title">
+        Preview · {fixes.length} fix{fixes.length !== 1 ? 'es' : ''}
+      </div>
+      <ul className="compliance-panel__preview-list">
+        {fixes.map(fix => (
+          <li key={fix.id}>
+            <span className="compliance-panel__preview-node">{nodeName(fix.nodeId)}</span>
+            <ul>
+              {fix.changes.map((change, i) => <li key={i}>{change}</li>)}
+            </ul>
+          </li>
+        ))}
+      </ul>
+      <div className="compliance-panel__preview-actions">
+        <button className="compliance-panel__run" onClick={onApply} disabled={applying}>
+          {applying ? 'Applying...' : `Apply ${fixes.length} fix${fixes.length !== 1 ? 'es' : ''}`}
+        </button>
+        <button className="compliance-panel__clear" onClick={onClear} disabled={applying}>
+          Clear
+        </button>
+      </div>
+      <p className="compliance-panel__preview-hint">Applied as one step - a single undo reverts them all.</p>
+    </div>
+  );
+}
+
+/**
+ * Runs housekeeping compliance rules against the selection, the current page or the
+ * whole file and lists pass/fail per node. Failing nodes show every check and any
+ * automatic fixes; clicking a node selects it on the canvas.
+ */
+export function CompliancePanel({
+  rules,
+  initialScope = 'selection',
+  runOnMount = false,
+  onFixesApplied,
+}: CompliancePanelProps) {
+  const [scope, setScope] = useState<ComplianceScope>(initialScope);
+  const [dismissed, setDismissed] = useState<ComplianceReport | null>(null);
+  const [selectedFixes, setSelectedFixes] = useState<FixSelection>({});
+  const [fixErrors, setFixErrors] = useState<string[]>([]);
+  // Whole-file checks walk every layer of every page
+  const { data, loading, error, execute } = usePluginRequest('RUN_COMPLIANCE_CHECK', { timeout: 300000 });
+  const fixRequest = usePluginRequest('APPLY_COMPLIANCE_FIXES', { timeout: 60000 });
+
+  const runCheck = () => {
+    setSelectedFixes({});
+    setFixErrors([]);
+    return execute({ type: 'RUN_COMPLIANCE_CHECK', payload: { rules, scope } });
+  };
+
+  // Alternatives (e.g. scale vs. anchor) share a group; picking one drops the other
+  const toggleFix = (fix: ComplianceFix) => {
+    setSelectedFixes(current => {
+      if (current[fix.id]) {
+        const { [fix.id]: _removed, ...rest } = current;
+        return rest;
+      }
+      const rest = Object.fromEntries(Object.entries(current).filter(([, f]) => f.group !== fix.group));
+      return { ...rest, [fix.id]: fix };
+    });
+  };
+
+  // First (preferred) fix of every group in the report
+  const selectAllFixes = (nodes: ComplianceNodeResult[]) => {
+    const selection: FixSelection = {};
+    const groups = new Set<string>();
+    for (const fix of nodes.flatMap(node => node.checks.flatMap(result => result.fixes ?? []))) {
+      if (groups.has(fix.group)) continue;
+      groups.add(fix.group);
+      selection[fix.id] = fix;
+    }
+    setSelectedFixes(selection);
+  };
+
+  const applyFixes = async () => {
+    const fixes = Object.values(selectedFixes);
+    const result = await fixRequest.execute({ type: 'APPLY_COMPLIANCE_FIXES', payload: { fixes } });
+    if (!result) return;
+    await runCheck();
+    setFixErrors(result.failed.map(failure => {
+      const fix = fixes.find(f => f.id === failure.fixId);
+      return `${fix?.label ?? failure.fixId}: ${failure.error}`;
+    }));
+    onFixesApplied?.();
+  };
+
+  useEffect(() => {
+    if (runOnMount) runCheck();
+  }, []);
+
+  const report = data && data.report !== dismissed ? data.report : null;
+  const fixCount = report
+    ? new Set(report.nodes.flatMap(node => node.checks.flatMap(result => (result.fixes ?? []).map(fix => fix.group)))).size
+    : 0;
+  const selectedFixList = Object.values(selectedFixes);
+  const showRule = rules.filter(rule => rule.checks.length > 0).length > 1;
+  // Failing nodes first, in canvas order otherwise
+  const nodes = report ? [...report.nodes].sort((a, b) => Number(a.passed) - Number(b.passed)) : [];
+
+  return (
+    <div className="compliance-panel">
+      <div className="compliance-panel__controls">
+        <select
+          className="compliance-panel__scope"
+          value={scope}
+          onChange={(e) => setScope(e.target.value as ComplianceScope)}
+          disabled={loading}
+        >
+          {SCOPE_OPTIONS.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+        <button className="compliance-panel__run" onClick={runCheck} disabled={loading}>
+          {loading ? 'Checking...' : 'Run check'}
+        </button>
+      </div>
+
+      {error && !loading && <div className="compliance-panel__error">{error.message}</div>}
+      {fixRequest.error && <div className="compliance-panel__error">{fixRequest.error.message}</div>}
+      {fixErrors.length > 0 && (
+        <div className="compliance-panel__error">
+          {fixErrors.map((message, i) => <div key={i}>{message}</div>)}
+        </div>
+      )}
+
+      {report && !loading && (
+        <div className="compliance-panel__results">
+          <div className="compliance-header">
+            <span>
+              GUIDELINES COMPLIANCE · {report.totals.passed}/{report.totals.nodes} PASSED
+            </span>
+            {fixCount > 0 && (
+              <button className="compliance-header__fix-all" onClick={() => selectAllFixes(report.nodes)}>
+                Select all fixes
+              </button>
+            )}
+            <button
+              className="compliance-header__dismiss"
+              onClick={() => setDismissed(report)}
+            >
+              <svg width="14" height="14" viewBox="0 0 16 16" fill="none" stroke="currentColor" strokeWidth="1.5">
+                <path d="M4 4l8 8M12 4l-8 8"/>
+              </svg>
+            </button>
+          </div>
+
+          {nodes.length === 0 && (
+            <p className="compliance-panel__empty">No frames, components or instances to check.</p>
+          )}
+
+          {nodes.map(node => (
+            <NodeResult
+              key={node.nodeId}
+              node={node}
+              expanded={!node.passed || nodes.length === 1}
+              showPage={report.scope === 'file'}
+              showRule={showRule}
+              selectedFixes={selectedFixes}
+              onToggleFix={toggleFix}
+            />
+          ))}
+
+          {selectedFixList.length > 0 && (
+            <FixPreview
+              fixes={selectedFixList}
+              nodes={report.nodes}
+              applying={fixRequest.loading}
+              onApply={applyFixes}
+              onClear={() => setSelectedFixes({})}
+            />
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default CompliancePanel;
@@ -0,0 +1,96 @@
+import { useState } from 'react';
+
+import type { ComponentPropertyInfo, ComponentPropertyValues } from '../lib/protocol';
+
+interface ComponentPropertiesFormProps {
+  properties: ComponentPropertyInfo[];
+  /** Values set so far; anything missing inserts with the component's default */
+  values: ComponentPropertyValues;
+  onChange: (values: ComponentPropertyValues) => void;
+}
+
+/**
+ * The template's text, boolean and instance-swap properties, filled in before insert
+ * so the copy and toggles are right from the start. Collapsed until opened.
+ */
+export function ComponentPropertiesForm({ properties, values, onChange }: ComponentPropertiesFormProps) {
+  const [open, setOpen] = useState(false);
+  if (properties.length === 0) return null;
+
+  const edited = properties.filter(property => property.name in values).length;
+
+  // A cleared text field goes back to the default rather than inserting empty text
+  function set(name: string, value: string | boolean) {
+    const next = { ...values, [name]: value };
+    if (value === '') delete next[name];
+    onChange(next);
+  }
+
+  return (
+    <div className="component-properties">
+      <div className="component-properties__header">
+        <button className="component-properties__toggle" onClick={() => setOpen(!open)} aria-expanded={open}>
+          <svg
+            className={`component-properties__chevron ${open ? 'component-properties__chevron--open' : ''}`}
+            width="10"
+            height="10"
+            viewBox="0 0 16 16"
+            fill="currentColor"
+          >
+            <path fillRule="evenodd" d="M4.646 1.646a.5.5 0 0 1 .708 0l6 6a.5.5 0 0 1 0 .708l-6 6a.5.5 0 0 1-.708-.708L10.293 8 4.646 2.354a.5.5 0 0 1 0-.708z"/>
+          </svg>
+          Properties ({properties.length})
+          {edited > 0 && <span className="component-properties__count">{edited} set</span>}
+        </button>
+        {open && edited > 0 && (
+          <button className="component-properties__reset" onClick={() => onChange({})}>
+            Reset
+          </button>
+        )}
+      </div>
+
+      {open && (
+        <div className="component-properties__fields">
+          {properties.map(property => {
+            const value = values[property.name];
+            return (
+              <label key={property.name} className="component-properties__field">
+                <span className="component-properties__label" title={property.label}>{property.label}</span>
+                {property.type === 'TEXT' && (
+                  <input
+                    type="text"
+                    className="component-properties__input"
+                    value={typeof value === 'string' ? value : ''}
+                    placeholder={String(property.defaultValue)}
+                    onChange={(e) => set(property.name, e.target.value)}
+                  />
+                )}
+                {property.type === 'BOOLEAN' && (
+                  <input
+                    type="checkbox"
+                    className="component-properties__checkbox"
+                    checked={typeof value === 'boolean' ? value : Boolean(property.defaultValue)}
+                    onChange={(e) => set(property.name, e.target.checked)}
+                  />
+                )}
+                {property.type === 'INSTANCE_SWAP' && (
+                  <select
+                    className="component-properties__input"
+                    value={typeof value === 'string' ? value : String(property.defaultValue)}
+                    onChange={(e) => set(property.name, e.target.value)}
+                  >
+                    {(property.options ?? []).map(option => (
+                      <option key={option.key} value={option.key}>{option.name}</option>
+                    ))}
+                  </select>
+                )}
+              </label>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default ComponentPropertiesForm;
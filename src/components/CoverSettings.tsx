@@ -0,0 +1,114 @@
+import { useEffect, useState } from 'react';
+
+import { usePluginRequest } from '../lib/messaging';
+import type { CoverFields, CoverInfo } from '../lib/protocol';
+
+interface CoverSettingsProps {
+  /** Values for the cover's text properties, used when the scaffold inserts the cover */
+  fields: CoverFields;
+  onChange: (fields: CoverFields) => void;
+}
+
+const FIELD_LABELS: { field: keyof CoverFields; label: string }[] = [
+  { field: 'featureName', label: 'Feature name' },
+  { field: 'release', label: 'Release' },
+  { field: 'owner', label: 'Owner' },
+  { field: 'status', label: 'Status' },
+  { field: 'lastUpdated', label: 'Last updated' },
+];
+
+/**
+ * The cover's text (feature name, release, owner, status, last updated) and the file
+ * thumbnail. Before the file has a cover the values wait for the scaffold to insert
+ * one; once it has, they can be written to it directly.
+ */
+export function CoverSettings({ fields, onChange }: CoverSettingsProps) {
+  const [cover, setCover] = useState<CoverInfo | null>(null);
+  const read = usePluginRequest('READ_COVER');
+  const update = usePluginRequest('UPDATE_COVER');
+  const refresh = usePluginRequest('REFRESH_COVER');
+  const thumbnail = usePluginRequest('SET_COVER_THUMBNAIL');
+  const busy = update.loading || refresh.loading || thumbnail.loading;
+  const error = update.error ?? refresh.error ?? thumbnail.error;
+
+  useEffect(() => {
+    read.execute({ type: 'READ_COVER' }).then(result => {
+      if (!result?.cover) return;
+      setCover(result.cover);
+      onChange(result.cover.fields);
+    });
+  }, []);
+
+  const refreshDate = async () => {
+    const result = await refresh.execute({ type: 'REFRESH_COVER' });
+    if (!result?.cover) return;
+    setCover(result.cover);
+    onChange({ lastUpdated: result.cover.fields.lastUpdated });
+  };
+
+  const shown = cover ? FIELD_LABELS.filter(({ field }) => cover.available.includes(field)) : FIELD_LABELS;
+
+  return (
+    <div className="cover-settings">
+      <div className="cover-settings__header">
+        <span className="cover-settings__title">Cover</span>
+        {/* Also offered before a framed cover is found: a cover placed by hand on the
+            Cover page gets framed by this explicit action */}
+        <button
+          className="cover-settings__btn"
+          onClick={async () => {
+            const result = await thumbnail.execute({ type: 'SET_COVER_THUMBNAIL' });
+            if (result) setCover(result.cover);
+          }}
+          disabled={busy || !!cover?.isThumbnail}
+        >
+          {cover?.isThumbnail ? 'File thumbnail ✓' : 'Set as thumbnail'}
+        </button>
+      </div>
+      <p className="cover-settings__desc">
+        {cover
+          ? 'Text on this file\'s cover. Refresh the date whenever the designs change.'
+          : 'Filled into the cover when it\'s inserted, which also becomes the file thumbnail.'}
+      </p>
+
+      {shown.map(({ field, label }) => (
+        <label key={field} className="cover-settings__field">
+          <span className="cover-settings__label">{label}</span>
+          <input
+            type="text"
+            className="cover-settings__input"
+            value={fields[field] ?? ''}
+            onChange={(e) => onChange({ [field]: e.target.value })}
+          />
+        </label>
+      ))}
+      {cover && shown.length === 0 && (
+        <p className="cover-settings__desc">This cover has no text properties to fill in.</p>
+      )}
+
+      {cover && shown.length > 0 && (
+        <div className="cover-settings__actions">
+          <button
+            className="cover-settings__btn"
+            onClick={async () => {
+              const result = await update.execute({ type: 'UPDATE_COVER', payload: { fields } });
+              if (result) setCover(result.cover);
+            }}
+            disabled={busy}
+          >
+            {update.loading ? 'Updating...' : 'Update cover'}
+          </button>
+          {cover.available.includes('lastUpdated') && (
+            <button className="cover-settings__btn" onClick={refreshDate} disabled={busy}>
+              Refresh date
+            </button>
+          )}
+        </div>
+      )}
+
+      {error && <div className="cover-settings__error">{error.message}</div>}
+    </div>
+  );
+}
+
+export default CoverSettings;
@@ -0,0 +1,173 @@
+import { useState } from 'react';
+
+import type { PageStructurePreset } from '../lib/useBackendStorage';
+
+interface PageStructurePresetsProps {
+  presets: PageStructurePreset[];
+  activePresetId: string;
+  defaultPresetId: string | null;
+  /** Management actions only show while the structure is being edited */
+  editing: boolean;
+  /** The editor holds changes that aren't saved to the active preset */
+  dirty: boolean;
+  onSelect: (presetId: string) => void;
+  onSaveVersion: () => void;
+  onSaveAsNew: (name: string) => void;
+  onSetDefault: () => void;
+  onDelete: () => void;
+  onRestoreVersion: (version: number) => void;
+  /** Load the current file's pages into the editor */
+  onCaptureFromFile: () => void;
+  /** The cloud's release names, offered when filling in {Release} */
+  releases: string[];
+  onReleasesChange: (releases: string[]) => void;
+}
+
+function formatUpdated(preset: PageStructurePreset): string {
+  if (!preset.updatedAt) return `v${preset.version} · built in`;
+  const date = new Date(preset.updatedAt).toLocaleDateString();
+  return `v${preset.version} · ${date}${preset.updatedBy ? ` by ${preset.updatedBy}` : ''}`;
+}
+
+/**
+ * Picks the cloud's page structure preset to scaffold from. While editing, POCs can
+ * save the editor as the preset's next version or as a new preset, make it the
+ * cloud's default, delete it, load one of its earlier versions, start from the
+ * current file's pages, or edit the cloud's release list.
+ */
+export function PageStructurePresets({
+  presets,
+  activePresetId,
+  defaultPresetId,
+  editing,
+  dirty,
+  onSelect,
+  onSaveVersion,
+  onSaveAsNew,
+  onSetDefault,
+  onDelete,
+  onRestoreVersion,
+  onCaptureFromFile,
+  releases,
+  onReleasesChange,
+}: PageStructurePresetsProps) {
+  const [newName, setNewName] = useState<string | null>(null);
+  const active = presets.find(preset => preset.id === activePresetId) ?? presets[0];
+  const isDefault = active.id === defaultPresetId;
+
+  const submitNewName = () => {
+    if (!newName?.trim()) return;
+    onSaveAsNew(newName.trim());
+    setNewName(null);
+  };
+
+  return (
+    <div className="page-structure-presets">
+      <div className="page-structure-presets__row">
+        <select
+          className="page-structure-presets__select"
+          value={active.id}
+          onChange={(e) => onSelect(e.target.value)}
+        >
+          {presets.map(preset => (
+            <option key={preset.id} value={preset.id}>
+              {preset.name}{preset.id === defaultPresetId ? ' (default)' : ''}
+            </option>
+          ))}
+        </select>
+        <span className="page-structure-presets__meta">
+          {formatUpdated(active)}{dirty ? ' · edited' : ''}
+        </span>
+      </div>
+
+      {editing && (
+        <div className="page-structure-presets__actions">
+          <button className="page-structure-presets__btn" onClick={onSaveVersion} disabled={!dirty}>
+            Save as v{active.version + 1}
+          </button>
+          <button className="page-structure-presets__btn" onClick={() => setNewName('')}>
+            Save as new...
+          </button>
+          <button
+            className="page-structure-presets__btn"
+            onClick={onCaptureFromFile}
+            title="Replace the editor's pages with this file's sections and pages"
+          >
+            From this file
+          </button>
+          {!isDefault && (
+            <button className="page-structure-presets__btn" onClick={onSetDefault}>
+              Set as default
+            </button>
+          )}
+          {presets.length > 1 && (
+            <button
+              className="page-structure-presets__btn page-structure-presets__btn--destructive"
+              onClick={onDelete}
+            >
+              Delete
+            </button>
+          )}
+          {active.history.length > 0 && (
+            <select
+              className="page-structure-presets__history"
+              value=""
+              onChange={(e) => onRestoreVersion(Number(e.target.value))}
+            >
+              <option value="">Earlier versions...</option>
+              {active.history.map(version => (
+                <option key={version.version} value={version.version}>
+                  v{version.version} · {new Date(version.updatedAt).toLocaleDateString()}
+                  {version.updatedBy ? ` by ${version.updatedBy}` : ''}
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
+      )}
+
+      {editing && (
+        <label className="page-structure-presets__row">
+          <span className="page-structure-presets__meta">Releases</span>
+          {/* Commits on blur so a half-typed entry isn't split while typing */}
+          <input
+            key={releases.join(',')}
+            type="text"
+            className="page-structure-presets__name"
+            placeholder="Newest first, e.g. 262, 260"
+            defaultValue={releases.join(', ')}
+            onBlur={(e) => {
+              const next = e.target.value.split(',').map(r => r.trim()).filter(Boolean);
+              if (next.join(',') !== releases.join(',')) onReleasesChange(next);
+            }}
+          />
+        </label>
+      )}
+
+      {editing && newName !== null && (
+        <div className="page-structure-presets__row">
+          <input
+            type="text"
+            className="page-structure-presets__name"
+            placeholder="Preset name, e.g. Release Work"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') submitNewName();
+              if (e.key === 'Escape') setNewName(null);
+            }}
+            autoFocus
+          />
+          <button className="page-structure-presets__btn" onClick={submitNewName} disabled={!newName.trim()}>
+            Save
+          </button>
+          <button className="page-structure-presets__btn" onClick={() => setNewName(null)}>
+            Cancel
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default PageStructurePresets;
@@ -0,0 +1,306 @@
+import { useEffect, useState } from 'react';
+
+import { Button, Card, CardContent, Spinner } from '../design-system/components';
+import { usePluginRequest } from '../lib/messaging';
+import type { FilePage, FilePagesReport, NamingConvention, NamingFix, NamingIssue } from '../lib/protocol';
+
+interface PagesViewProps {
+  /** The team's status symbols (useStatusSymbols) */
+  statuses: { symbol: string; label: string }[];
+  /** Naming patterns per section, from the cloud's page structure */
+  conventions: NamingConvention[];
+  /** The structure's archive section and its naming, e.g. "{YYYY.MM.DD}_{Exploration Name}" */
+  archive: { section: string; pattern: string };
+  /** Pages as they were named before, with their new name */
+  onArchived: (action: 'page_archive' | 'page_unarchive', pages: { id: string; name: string; newName: string }[]) => void;
+  onBack: () => void;
+}
+
+function PageRow({ page, selected, onToggle }: { page: FilePage; selected: boolean; onToggle: () => void }) {
+  return (
+    <label className={`pages-view__row ${page.unknownStatus ? 'pages-view__row--flagged' : ''}`}>
+      <input type="checkbox" checked={selected} onChange={onToggle} />
+      <span className="pages-view__status">{page.status ?? page.unknownStatus ?? ''}</span>
+      <span className="pages-view__name">{page.title}</span>
+      {page.current && <span className="pages-view__current">Current</span>}
+      {page.unknownStatus && (
+        <span className="pages-view__flag" title="This prefix isn't one of the team's statuses">
+          Unknown status
+        </span>
+      )}
+    </label>
+  );
+}
+
+function NamingIssues({ issues, busy, onFix }: { issues: NamingIssue[]; busy: boolean; onFix: (fixes: NamingFix[]) => void }) {
+  const fixes = issues.map(issue => issue.fix).filter((fix): fix is NamingFix => !!fix);
+
+  return (
+    <div className="pages-view__naming">
+      <div className="pages-view__naming-header">
+        <span className="pages-view__naming-title">
+          {issues.length} page name{issues.length !== 1 ? 's don\'t' : ' doesn\'t'} follow the page structure
+        </span>
+        {fixes.length > 1 && (
+          <button className="pages-view__link" onClick={() => onFix(fixes)} disabled={busy}>
+            Fix all ({fixes.length})
+          </button>
+        )}
+      </div>
+      {issues.map(issue => (
+        <div key={issue.pageId} className="pages-view__issue">
+          <div className="pages-view__issue-text">
+            <span className="pages-view__name">{issue.name}</span>
+            <span className="pages-view__issue-problem">{issue.problem}</span>
+          </div>
+          {issue.fix && (
+            <button className="pages-view__fix" onClick={() => onFix([issue.fix as NamingFix])} disabled={busy}>
+              {issue.fix.label}
+            </button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Every page of the current file with its status and section. Selected pages can be
+ * given another status (rewriting the name's prefix) or moved to another section.
+ * Names that break their section's naming convention are listed with a fix where
+ * one is clear. Archiving dates pages and moves them to the archive section;
+ * unarchiving puts them back.
+ */
+export function PagesView({ statuses, conventions, archive, onArchived, onBack }: PagesViewProps) {
+  const [report, setReport] = useState<FilePagesReport | null>(null);
+  const [selected, setSelected] = useState<string[]>([]);
+  const list = usePluginRequest('LIST_PAGES');
+  const setStatus = usePluginRequest('SET_PAGE_STATUS');
+  const move = usePluginRequest('MOVE_PAGES_TO_SECTION');
+  const archiveRequest = usePluginRequest('ARCHIVE_PAGES');
+  const unarchiveRequest = usePluginRequest('UNARCHIVE_PAGES');
+  const lint = usePluginRequest('LINT_PAGE_NAMES');
+  const fixNames = usePluginRequest('FIX_PAGE_NAMES');
+  const [issues, setIssues] = useState<NamingIssue[]>([]);
+  const symbols = statuses.map(status => status.symbol);
+  const busy = setStatus.loading || move.loading || fixNames.loading || archiveRequest.loading || unarchiveRequest.loading;
+  const error =
+    list.error ?? setStatus.error ?? move.error ?? archiveRequest.error ?? unarchiveRequest.error ?? lint.error ?? fixNames.error;
+  const archiveHeader = report?.sections.find(section => section.toLowerCase() === archive.section.toLowerCase()) ?? null;
+  const selectedPages = report?.pages.filter(page => selected.includes(page.id)) ?? [];
+  const archivedSelected = selectedPages.filter(page => archiveHeader && page.section === archiveHeader);
+
+  // Status and section changes can fix or break names, so each one is linted again
+  const relint = async () => {
+    const result = await lint.execute({ type: 'LINT_PAGE_NAMES', payload: { conventions, symbols } });
+    if (result) setIssues(result.issues);
+  };
+
+  const refresh = async () => {
+    const result = await list.execute({ type: 'LIST_PAGES', payload: { symbols } });
+    if (result) setReport(result.report);
+    await relint();
+  };
+
+  const applyStatus = async (status: string | null) => {
+    const result = await setStatus.execute({ type: 'SET_PAGE_STATUS', payload: { pageIds: selected, status, symbols } });
+    if (result) setReport(result.report);
+    await relint();
+  };
+
+  const moveToSection = async (section: string) => {
+    const result = await move.execute({ type: 'MOVE_PAGES_TO_SECTION', payload: { pageIds: selected, section, symbols } });
+    if (result) {
+      setReport(result.report);
+      setSelected([]);
+    }
+    await relint();
+  };
+
+  // Log what changed, by comparing each page's name before and after
+  const logArchived = (action: 'page_archive' | 'page_unarchive', before: FilePage[], after: FilePagesReport) => {
+    const changed = before
+      .map(page => ({ id: page.id, name: page.name, newName: after.pages.find(p => p.id === page.id)?.name ?? page.name }))
+      .filter(page => page.newName !== page.name);
+    if (changed.length > 0) onArchived(action, changed);
+  };
+
+  const archivePages = async (status: string | null) => {
+    const before = selectedPages;
+    const result = await archiveRequest.execute({
+      type: 'ARCHIVE_PAGES',
+      payload: { pageIds: selected, section: archive.section, pattern: archive.pattern, status, symbols },
+    });
+    if (result) {
+      setReport(result.report);
+      setSelected([]);
+      logArchived('page_archive', before, result.report);
+    }
+    await relint();
+  };
+
+  const unarchivePages = async () => {
+    const before = archivedSelected;
+    // Pages archived by hand go to the first section that isn't the archive
+    const fallback = report?.sections.find(section => section !== archiveHeader) ?? null;
+    const result = await unarchiveRequest.execute({
+      type: 'UNARCHIVE_PAGES',
+      payload: { pageIds: before.map(page => page.id), section: fallback, pattern: archive.pattern, symbols },
+    });
+    if (result) {
+      setReport(result.report);
+      setSelected([]);
+      logArchived('page_unarchive', before, result.report);
+    }
+    await relint();
+  };
+
+  const applyNamingFixes = async (fixes: NamingFix[]) => {
+    const result = await fixNames.execute({ type: 'FIX_PAGE_NAMES', payload: { fixes, conventions, symbols } });
+    if (!result) return;
+    setIssues(result.issues);
+    const pages = await list.execute({ type: 'LIST_PAGES', payload: { symbols } });
+    if (pages) setReport(pages.report);
+  };
+
+  const toggle = (pageId: string) =>
+    setSelected(prev => (prev.includes(pageId) ? prev.filter(id => id !== pageId) : [...prev, pageId]));
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const flagged = report?.pages.filter(page => page.unknownStatus) ?? [];
+
+  return (
+    <div className="frame-details-view pages-view">
+      <div className="frame-details-view__header">
+        <button className="frame-details-view__back" onClick={onBack} title="Back">
+          <svg width="12" height="12" viewBox="0 0 16 16" fill="currentColor">
+            <path fillRule="evenodd" d="M15 8a.5.5 0 0 0-.5-.5H2.707l3.147-3.146a.5.5 0 1 0-.708-.708l-4 4a.5.5 0 0 0 0 .708l4 4a.5.5 0 0 0 .708-.708L2.707 8.5H14.5A.5.5 0 0 0 15 8z"/>
+          </svg>
+          Back
+        </button>
+        <h3 className="frame-details-view__title">Pages</h3>
+        {report && (
+          <Button variant="brand-outline" size="small" onClick={refresh} className="usage-audit__rerun" disabled={list.loading}>
+            Refresh
+          </Button>
+        )}
+      </div>
+
+      {list.loading && !report ? (
+        <div className="frame-details-view__loading">
+          <Spinner size="small" />
+          <p>Reading pages...</p>
+        </div>
+      ) : report ? (
+        <div className="frame-details-view__content">
+          {flagged.length > 0 && (
+            <div className="pages-view__warning">
+              <span>
+                {flagged.length} page{flagged.length !== 1 ? 's use' : ' uses'} a status that isn't configured
+              </span>
+              <button className="pages-view__link" onClick={() => setSelected(flagged.map(page => page.id))}>
+                Select them
+              </button>
+            </div>
+          )}
+
+          {error && <div className="pages-view__error">{error.message}</div>}
+
+          {issues.length > 0 && (
+            <Card>
+              <CardContent>
+                <NamingIssues issues={issues} busy={busy} onFix={applyNamingFixes} />
+              </CardContent>
+            </Card>
+          )}
+
+          <Card>
+            <CardContent>
+              <div className="pages-view__list">
+                {report.pages.map(page =>
+                  page.kind === 'divider' ? null : page.kind === 'section' ? (
+                    <div key={page.id} className="pages-view__section">{page.name}</div>
+                  ) : (
+                    <PageRow
+                      key={page.id}
+                      page={page}
+                      selected={selected.includes(page.id)}
+                      onToggle={() => toggle(page.id)}
+                    />
+                  )
+                )}
+              </div>
+            </CardContent>
+          </Card>
+
+          {selected.length > 0 && (
+            <div className="pages-view__actions">
+              <span className="pages-view__count">{selected.length} selected</span>
+              <select
+                className="pages-view__select"
+                value=""
+                disabled={busy}
+                onChange={(e) => applyStatus(e.target.value === 'none' ? null : e.target.value)}
+              >
+                <option value="">Set status...</option>
+                {statuses.map(status => (
+                  <option key={status.symbol} value={status.symbol}>{status.symbol} {status.label}</option>
+                ))}
+                <option value="none">No status</option>
+              </select>
+              {report.sections.length > 0 && (
+                <select
+                  className="pages-view__select"
+                  value=""
+                  disabled={busy}
+                  onChange={(e) => e.target.value && moveToSection(e.target.value)}
+                >
+                  <option value="">Move to section...</option>
+                  {report.sections.map(section => (
+                    <option key={section} value={section}>{section}</option>
+                  ))}
+                </select>
+              )}
+              {archivedSelected.length < selectedPages.length && (
+                <select
+                  className="pages-view__select"
+                  value=""
+                  disabled={busy}
+                  onChange={(e) => e.target.value && archivePages(e.target.value === 'none' ? null : e.target.value)}
+                >
+                  <option value="">Archive...</option>
+                  <option value="none">Without status</option>
+                  {statuses.map(status => (
+                    <option key={status.symbol} value={status.symbol}>As {status.symbol} {status.label}</option>
+                  ))}
+                </select>
+              )}
+              {archivedSelected.length > 0 && (
+                <button className="pages-view__link" onClick={unarchivePages} disabled={busy}>
+                  Unarchive{archivedSelected.length < selectedPages.length ? ` ${archivedSelected.length}` : ''}
+                </button>
+              )}
+              <button className="pages-view__link" onClick={() => setSelected([])}>Clear</button>
+            </div>
+          )}
+        </div>
+      ) : error ? (
+        <Card>
+          <CardContent>
+            <div className="frame-details-view__error">
+              <p>{error.message}</p>
+              <Button variant="brand-outline" size="small" onClick={refresh}>
+                Try Again
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      ) : null}
+    </div>
+  );
+}
+
+export default PagesView;
@@ -0,0 +1,69 @@
+import { usePluginRequest } from '../lib/messaging';
+import type { ReadMeContent, ReadMeTextStyles } from '../lib/protocol';
+
+interface ReadMeSettingsProps {
+  /** What the Read Me lists, built from the cloud's current team data */
+  content: ReadMeContent;
+  /** Text style pickers only show while the structure is being edited */
+  editing: boolean;
+  onStylesChange: (styles: ReadMeTextStyles) => void;
+}
+
+const STYLE_ROLES: { role: keyof ReadMeTextStyles; label: string; fallback: string }[] = [
+  { role: 'heading', label: 'Headings', fallback: 'Inter Bold' },
+  { role: 'body', label: 'Body', fallback: 'Inter Regular' },
+];
+
+/**
+ * Regenerates the file's Read Me page from the latest POCs, links, statuses and rules.
+ * While editing, POCs pick the team text styles it uses from a selected text layer.
+ */
+export function ReadMeSettings({ content, editing, onStylesChange }: ReadMeSettingsProps) {
+  const generate = usePluginRequest('GENERATE_READ_ME', { timeout: 60000 });
+  const capture = usePluginRequest('CAPTURE_TEXT_STYLE');
+  const styles = content.textStyles ?? {};
+
+  const captureStyle = async (role: keyof ReadMeTextStyles) => {
+    const result = await capture.execute({ type: 'CAPTURE_TEXT_STYLE' });
+    if (result) onStylesChange({ ...styles, [role]: result.style });
+  };
+
+  return (
+    <div className="read-me-settings">
+      <div className="read-me-settings__header">
+        <span className="read-me-settings__title">Read Me page</span>
+        <button
+          className="read-me-settings__btn"
+          onClick={() => generate.execute({ type: 'GENERATE_READ_ME', payload: content })}
+          disabled={generate.loading}
+        >
+          {generate.loading ? 'Generating...' : 'Regenerate Read Me'}
+        </button>
+      </div>
+      <p className="read-me-settings__desc">
+        Lists the cloud's POCs, Figma links, status legend and housekeeping rules. Filled in
+        when the structure is applied; regenerate after they change.
+      </p>
+
+      {editing && STYLE_ROLES.map(({ role, label, fallback }) => (
+        <div key={role} className="read-me-settings__style">
+          <span className="read-me-settings__style-label">{label}</span>
+          <span className="read-me-settings__style-name">{styles[role]?.name ?? fallback}</span>
+          <button
+            className="read-me-settings__btn"
+            onClick={() => captureStyle(role)}
+            disabled={capture.loading}
+            title="Select a text layer that uses a team text style"
+          >
+            Use selected text
+          </button>
+        </div>
+      ))}
+
+      {generate.error && <div className="read-me-settings__error">{generate.error.message}</div>}
+      {editing && capture.error && <div className="read-me-settings__error">{capture.error.message}</div>}
+    </div>
+  );
+}
+
+export default ReadMeSettings;
@@ -0,0 +1,70 @@
+import type { ScaffoldPlan, ScaffoldPlanStep } from '../lib/protocol';
+
+interface ScaffoldPlanReviewProps {
+  plan: ScaffoldPlan;
+  /** Ids of the steps that will be applied */
+  approved: string[];
+  onToggle: (stepId: string) => void;
+}
+
+const STEP_GROUPS: { kind: ScaffoldPlanStep['kind']; title: string }[] = [
+  { kind: 'add', title: 'Add' },
+  { kind: 'rename', title: 'Rename' },
+  { kind: 'move', title: 'Reorder' },
+];
+
+function describeStep(step: ScaffoldPlanStep): string {
+  switch (step.kind) {
+    case 'add':
+    case 'move':
+      return step.after ? `after "${step.after}"` : 'at the top';
+    case 'rename':
+      return `from "${step.from}"`;
+  }
+}
+
+/**
+ * What merging the page structure into the current file would change, one checkbox
+ * per step. Existing pages are only ever renamed or moved, never removed.
+ */
+export function ScaffoldPlanReview({ plan, approved, onToggle }: ScaffoldPlanReviewProps) {
+  if (plan.steps.length === 0) {
+    return (
+      <div className="scaffold-plan">
+        <p className="scaffold-plan__empty">This file already matches the page structure.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="scaffold-plan">
+      {STEP_GROUPS.map(group => {
+        const steps = plan.steps.filter(step => step.kind === group.kind);
+        if (steps.length === 0) return null;
+        return (
+          <div key={group.kind} className="scaffold-plan__group">
+            <div className="scaffold-plan__group-title">{group.title} ({steps.length})</div>
+            {steps.map(step => (
+              <label key={step.id} className="scaffold-plan__step">
+                <input
+                  type="checkbox"
+                  checked={approved.includes(step.id)}
+                  onChange={() => onToggle(step.id)}
+                />
+                <span className="scaffold-plan__step-name">{step.name}</span>
+                <span className="scaffold-plan__step-detail">{describeStep(step)}</span>
+              </label>
+            ))}
+          </div>
+        );
+      })}
+
+      <p className="scaffold-plan__summary">
+        {plan.unchanged.length} page{plan.unchanged.length !== 1 ? 's' : ''} already in place
+        {plan.untouched.length > 0 && ` · ${plan.untouched.length} of your own page${plan.untouched.length !== 1 ? 's' : ''} left as they are`}
+      </p>
+    </div>
+  );
+}
+
+export default ScaffoldPlanReview;
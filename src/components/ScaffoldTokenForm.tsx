@@ -0,0 +1,44 @@
+import { isDateToken, isReleaseToken } from '../lib/placeholders';
+
+interface ScaffoldTokenFormProps {
+  /** Placeholder tokens found in the page names, without braces */
+  tokens: string[];
+  values: Record<string, string>;
+  /** The cloud's release names, offered for the {Release} token */
+  releases: string[];
+  onChange: (token: string, value: string) => void;
+}
+
+/**
+ * One field per placeholder in the page structure. Filled-in values replace the
+ * placeholder in every page name that uses it; empty ones are created as written.
+ */
+export function ScaffoldTokenForm({ tokens, values, releases, onChange }: ScaffoldTokenFormProps) {
+  if (tokens.length === 0) return null;
+
+  return (
+    <div className="scaffold-tokens">
+      <div className="scaffold-tokens__title">Fill in page names</div>
+      {tokens.map(token => (
+        <label key={token} className="scaffold-tokens__field">
+          <span className="scaffold-tokens__label">{token}</span>
+          <input
+            type="text"
+            className="scaffold-tokens__input"
+            value={values[token] ?? ''}
+            placeholder={isDateToken(token) ? token : `Leave empty to keep {${token}}`}
+            list={isReleaseToken(token) && releases.length > 0 ? 'scaffold-token-releases' : undefined}
+            onChange={(e) => onChange(token, e.target.value)}
+          />
+        </label>
+      ))}
+      {releases.length > 0 && (
+        <datalist id="scaffold-token-releases">
+          {releases.map(release => <option key={release} value={release} />)}
+        </datalist>
+      )}
+    </div>
+  );
+}
+
+export default ScaffoldTokenForm;
@@ -0,0 +1,157 @@
+import { useEffect, useState } from 'react';
+
+import { usePluginRequest } from '../lib/messaging';
+import type { SelectedInstance } from '../lib/protocol';
+
+interface SelectionContextPanelProps {
+  instance: SelectedInstance;
+  template: {
+    name: string;
+    description: string;
+    usage?: string;
+    googleSlideLink?: string;
+    variants?: { key: string; displayName: string }[];
+  };
+  cloudName?: string;
+  swapping: boolean;
+  refreshing: boolean;
+  /** Swap the selected instance to another variant of its template */
+  onSwap: (variantKey: string) => void;
+  onRefresh: () => void;
+  onUsageChange: (usage: string) => void;
+}
+
+/**
+ * Shown while a library template's instance is selected on the canvas: what it is,
+ * how to use it, its sibling variants to swap between, and refresh and detach.
+ * Detaching asks first, since the copy stops getting library updates.
+ */
+export function SelectionContextPanel({
+  instance,
+  template,
+  cloudName,
+  swapping,
+  refreshing,
+  onSwap,
+  onRefresh,
+  onUsageChange,
+}: SelectionContextPanelProps) {
+  const [confirmDetach, setConfirmDetach] = useState(false);
+  const [usageDraft, setUsageDraft] = useState<string | null>(null);
+  const detach = usePluginRequest('DETACH_INSTANCE');
+  const variants = template.variants ?? [];
+
+  // A different selection starts fresh
+  useEffect(() => {
+    setConfirmDetach(false);
+    setUsageDraft(null);
+  }, [instance.nodeId]);
+
+  return (
+    <div className="selection-context">
+      <div className="selection-context__header">
+        <span className="selection-context__eyebrow">Selected</span>
+        <span className="selection-context__name" title={instance.name}>{template.name}</span>
+        {cloudName && <span className="selection-context__cloud">{cloudName}</span>}
+      </div>
+      {template.description && <p className="selection-context__desc">{template.description}</p>}
+
+      {usageDraft === null ? (
+        <div className="selection-context__usage">
+          {template.usage ? (
+            <p className="selection-context__usage-text">{template.usage}</p>
+          ) : (
+            <p className="selection-context__usage-empty">No usage guidance yet.</p>
+          )}
+          <button className="selection-context__link" onClick={() => setUsageDraft(template.usage ?? '')}>
+            {template.usage ? 'Edit guidance' : 'Add guidance'}
+          </button>
+        </div>
+      ) : (
+        <div className="selection-context__usage">
+          <textarea
+            className="selection-context__textarea"
+            value={usageDraft}
+            placeholder="When to use it, what to fill in, what not to change..."
+            rows={3}
+            onChange={(e) => setUsageDraft(e.target.value)}
+          />
+          <div className="selection-context__actions">
+            <button className="selection-context__btn" onClick={() => setUsageDraft(null)}>Cancel</button>
+            <button
+              className="selection-context__btn selection-context__btn--primary"
+              onClick={() => {
+                onUsageChange(usageDraft.trim());
+                setUsageDraft(null);
+              }}
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      )}
+
+      {variants.length > 1 && (
+        <div className="selection-context__variants">
+          {variants.map(variant => {
+            const isCurrent = variant.key === instance.componentKey;
+            return (
+              <button
+                key={variant.key}
+                className={`selection-context__variant ${isCurrent ? 'selection-context__variant--current' : ''}`}
+                onClick={() => onSwap(variant.key)}
+                disabled={isCurrent || swapping}
+                title={isCurrent ? 'Current variant' : `Swap to ${variant.displayName}`}
+              >
+                {variant.displayName}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {confirmDetach ? (
+        <div className="selection-context__warning">
+          <p className="selection-context__warning-text">
+            Detaching turns "{instance.name}" into plain layers. It stops getting library updates,
+            and audits list it as a detached copy.
+          </p>
+          <div className="selection-context__actions">
+            <button className="selection-context__btn" onClick={() => setConfirmDetach(false)}>Keep instance</button>
+            <button
+              className="selection-context__btn selection-context__btn--danger"
+              onClick={() => detach.execute({ type: 'DETACH_INSTANCE', payload: { nodeId: instance.nodeId } })}
+              disabled={detach.loading}
+            >
+              {detach.loading ? 'Detaching...' : 'Detach anyway'}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="selection-context__actions">
+          {template.googleSlideLink && (
+            <a
+              className="selection-context__link"
+              href={template.googleSlideLink}
+              target="_blank"
+              rel="noopener noreferrer"
+            >
+              Google Slides
+            </a>
+          )}
+          <span className="selection-context__spacer" />
+          <button className="selection-context__btn" onClick={onRefresh} disabled={refreshing}>
+            {refreshing ? 'Refreshing...' : 'Refresh'}
+          </button>
+          <button className="selection-context__btn" onClick={() => setConfirmDetach(true)}>
+            Detach...
+          </button>
+        </div>
+      )}
+
+      {detach.error && <div className="selection-context__error">{detach.error.message}</div>}
+    </div>
+  );
+}
+
+export default SelectionContextPanel;
@@ -0,0 +1,111 @@
+import type { StarterContent } from '../lib/protocol';
+
+interface StarterContentEditorProps {
+  content: StarterContent[];
+  /** Library templates a page can start with */
+  templates: { id: string; name: string }[];
+  onChange: (content: StarterContent[]) => void;
+}
+
+/** Recommended placeholder frame sizes */
+const FRAME_SIZES = [
+  { label: 'Slide', width: 1920, height: 1080 },
+  { label: 'Desktop', width: 1440, height: 1024 },
+  { label: 'Tablet', width: 834, height: 1194 },
+  { label: 'Mobile', width: 390, height: 844 },
+];
+
+const sizeValue = (width: number, height: number) => `${width}x${height}`;
+
+/**
+ * Edits what a page in the structure starts with when it's scaffolded: labelled
+ * sections, placeholder frames at a recommended size, and library templates. Items
+ * listed after a section are placed inside it.
+ */
+export function StarterContentEditor({ content, templates, onChange }: StarterContentEditorProps) {
+  const update = (index: number, item: StarterContent) =>
+    onChange(content.map((existing, i) => (i === index ? item : existing)));
+  const remove = (index: number) => onChange(content.filter((_, i) => i !== index));
+  const add = (item: StarterContent) => onChange([...content, item]);
+
+  return (
+    <div className="starter-content">
+      {content.length === 0 && (
+        <p className="starter-content__empty">Starts empty. Add sections, frames or templates to build on it.</p>
+      )}
+
+      {content.map((item, index) => (
+        <div
+          key={index}
+          className={`starter-content__item ${item.kind !== 'section' && content.slice(0, index).some(i => i.kind === 'section') ? 'starter-content__item--nested' : ''}`}
+        >
+          <span className="starter-content__kind">
+            {item.kind === 'section' ? 'Section' : item.kind === 'frame' ? 'Frame' : 'Template'}
+          </span>
+          {item.kind === 'template' ? (
+            <span className="starter-content__name">{item.name}</span>
+          ) : (
+            <input
+              type="text"
+              className="starter-content__input"
+              value={item.name}
+              onChange={(e) => update(index, { ...item, name: e.target.value })}
+            />
+          )}
+          {item.kind === 'frame' && (
+            <select
+              className="starter-content__select"
+              value={sizeValue(item.width, item.height)}
+              onChange={(e) => {
+                const size = FRAME_SIZES.find(s => sizeValue(s.width, s.height) === e.target.value);
+                if (size) update(index, { ...item, width: size.width, height: size.height });
+              }}
+            >
+              {!FRAME_SIZES.some(s => s.width === item.width && s.height === item.height) && (
+                <option value={sizeValue(item.width, item.height)}>{item.width} × {item.height}</option>
+              )}
+              {FRAME_SIZES.map(size => (
+                <option key={size.label} value={sizeValue(size.width, size.height)}>
+                  {size.label} {size.width} × {size.height}
+                </option>
+              ))}
+            </select>
+          )}
+          {item.kind === 'template' && !templates.some(t => t.id === item.templateId) && (
+            <span className="starter-content__warning" title="This template was removed from the library">Removed</span>
+          )}
+          <button className="starter-content__remove" onClick={() => remove(index)} title="Remove">×</button>
+        </div>
+      ))}
+
+      <div className="starter-content__add">
+        <button className="starter-content__btn" onClick={() => add({ kind: 'section', name: 'Section' })}>
+          + Section
+        </button>
+        <button
+          className="starter-content__btn"
+          onClick={() => add({ kind: 'frame', name: 'Frame', width: FRAME_SIZES[0].width, height: FRAME_SIZES[0].height })}
+        >
+          + Frame
+        </button>
+        {templates.length > 0 && (
+          <select
+            className="starter-content__select"
+            value=""
+            onChange={(e) => {
+              const template = templates.find(t => t.id === e.target.value);
+              if (template) add({ kind: 'template', name: template.name, templateId: template.id });
+            }}
+          >
+            <option value="">+ Template...</option>
+            {templates.map(template => (
+              <option key={template.id} value={template.id}>{template.name}</option>
+            ))}
+          </select>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default StarterContentEditor;
@@ -0,0 +1,174 @@
+import { useEffect } from 'react';
+
+import { Button, Card, CardContent, Spinner } from '../design-system/components';
+import { sendToPlugin, usePluginRequest } from '../lib/messaging';
+import type { AuditNodeRef, AuditPage, AuditTemplateRef } from '../lib/protocol';
+
+interface UsageAuditProps {
+  /** Library templates to look for (active, non-deleted) */
+  templates: AuditTemplateRef[];
+  onBack: () => void;
+}
+
+/** Select and zoom to the first of these nodes still on the canvas (same navigation as the Activity Log) */
+function showOnCanvas(nodeIds: string[]) {
+  if (nodeIds.length === 0) return;
+  sendToPlugin({
+    type: 'SELECT_NODE',
+    nodeId: nodeIds[0],
+    nodeIds: nodeIds.length > 1 ? nodeIds : undefined,
+  });
+}
+
+function FindingList({ title, items, tone }: { title: string; items: AuditNodeRef[]; tone: 'warning' | 'neutral' }) {
+  if (items.length === 0) return null;
+  return (
+    <div className="usage-audit__findings">
+      <div className={`usage-audit__findings-title usage-audit__findings-title--${tone}`}>
+        {title} ({items.length})
+      </div>
+      {items.map(item => (
+        <button
+          key={item.nodeId}
+          className="usage-audit__row"
+          onClick={() => showOnCanvas([item.nodeId])}
+          title="Select on canvas"
+        >
+          <span className="usage-audit__row-name">{item.name}</span>
+        </button>
+      ))}
+    </div>
+  );
+}
+
+function AuditPageSection({ page }: { page: AuditPage }) {
+  const isEmpty = page.instanceCount === 0 && page.detached.length === 0 && page.framesWithoutStarterKit.length === 0;
+  return (
+    <Card>
+      <CardContent>
+        <div className="usage-audit__page">
+          <div className="usage-audit__page-header">
+            <span className="usage-audit__page-name">{page.pageName}</span>
+            <span className="usage-audit__page-count">
+              {page.instanceCount} instance{page.instanceCount !== 1 ? 's' : ''}
+            </span>
+          </div>
+
+          {isEmpty && <p className="usage-audit__empty">No frames or Starter Kit content on this page.</p>}
+
+          {page.templates.map(usage => (
+            <div key={usage.templateId} className="usage-audit__template">
+              <button
+                className="usage-audit__row"
+                onClick={() => showOnCanvas(usage.nodeIds)}
+                title="Show on canvas"
+              >
+                <span className="usage-audit__row-name">{usage.templateName}</span>
+                <span className="usage-audit__row-count">×{usage.count}</span>
+              </button>
+              {usage.variants.length > 1 && (
+                <div className="usage-audit__variants">
+                  {usage.variants.map(variant => (
+                    <span key={variant.key} className="usage-audit__variant">
+                      {variant.name} ×{variant.count}
+                    </span>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+
+          <FindingList title="Newer library version" items={page.outdated} tone="warning" />
+          <FindingList title="Detached" items={page.detached} tone="warning" />
+          <FindingList title="Frames without Starter Kit content" items={page.framesWithoutStarterKit} tone="neutral" />
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * File-wide Starter Kit usage audit: per-page template usage plus detached,
+ * outdated and uncovered frames. Every finding selects its node on the canvas.
+ */
+export function UsageAudit({ templates, onBack }: UsageAuditProps) {
+  // Large files can take a while to load and scan
+  const { data, loading, error, execute } = usePluginRequest('RUN_USAGE_AUDIT', { timeout: 300000 });
+
+  const runAudit = () => execute({ type: 'RUN_USAGE_AUDIT', payload: { templates } });
+
+  // Run once on open; re-runs are explicit
+  useEffect(() => {
+    runAudit();
+  }, []);
+
+  const report = data?.report;
+
+  return (
+    <div className="frame-details-view usage-audit">
+      <div className="frame-details-view__header">
+        <button className="frame-details-view__back" onClick={onBack} title="Back">
+          <svg width="12" height="12" viewBox="0 0 16 16" fill="currentColor">
+            <path fillRule="evenodd" d="M15 8a.5.5 0 0 0-.5-.5H2.707l3.147-3.146a.5.5 0 1 0-.708-.708l-4 4a.5.5 0 0 0 0 .708l4 4a.5.5 0 0 0 .708-.708L2.707 8.5H14.5A.5.5 0 0 0 15 8z"/>
+          </svg>
+          Back
+        </button>
+        <h3 className="frame-details-view__title">File Audit</h3>
+        {report && !loading && (
+          <Button variant="brand-outline" size="small" onClick={runAudit} className="usage-audit__rerun">
+            Re-run
+          </Button>
+        )}
+      </div>
+
+      {loading ? (
+        <div className="frame-details-view__loading">
+          <Spinner size="small" />
+          <p>Scanning all pages...</p>
+        </div>
+      ) : error ? (
+        <Card>
+          <CardContent>
+            <div className="frame-details-view__error">
+              <p>{error.message}</p>
+              <Button variant="brand-outline" size="small" onClick={runAudit}>
+                Try Again
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      ) : report ? (
+        <div className="frame-details-view__content">
+          <div className="usage-audit__summary">
+            <div className="usage-audit__stat">
+              <span className="usage-audit__stat-value">{report.totals.instances}</span>
+              <span className="usage-audit__stat-label">Instances</span>
+            </div>
+            <div className="usage-audit__stat">
+              <span className="usage-audit__stat-value">{report.totals.templates}</span>
+              <span className="usage-audit__stat-label">Templates</span>
+            </div>
+            <div className={`usage-audit__stat ${report.totals.outdated > 0 ? 'usage-audit__stat--warning' : ''}`}>
+              <span className="usage-audit__stat-value">{report.totals.outdated}</span>
+              <span className="usage-audit__stat-label">Outdated</span>
+            </div>
+            <div className={`usage-audit__stat ${report.totals.detached > 0 ? 'usage-audit__stat--warning' : ''}`}>
+              <span className="usage-audit__stat-value">{report.totals.detached}</span>
+              <span className="usage-audit__stat-label">Detached</span>
+            </div>
+            <div className="usage-audit__stat">
+              <span className="usage-audit__stat-value">{report.totals.framesWithoutStarterKit}</span>
+              <span className="usage-audit__stat-label">Uncovered frames</span>
+            </div>
+          </div>
+
+          {report.pages.map(page => (
+            <AuditPageSection key={page.pageId} page={page} />
+          ))}
+        </div>
+      ) : null}
+    </div>
+  );
+}
+
+export default UsageAudit;
@@ -0,0 +1,55 @@
+import type { VariantAxis } from '../lib/protocol';
+import { isOptionAvailable } from '../lib/variants';
+import type { VariantSelection } from '../lib/variants';
+
+interface VariantAxisPickerProps {
+  axes: VariantAxis[];
+  variants: { name: string; properties?: Record<string, string> }[];
+  selection: VariantSelection;
+  /** Choose `value` on `axis`; choosing the current value again clears the axis */
+  onSelect: (axis: string, value: string) => void;
+  onClear: () => void;
+}
+
+/**
+ * One row of values per variant axis, for sets like Theme × Layout where a flat list
+ * of variant names gets hard to read. Values no variant has alongside the other
+ * choices are disabled, so every complete choice is a real variant.
+ */
+export function VariantAxisPicker({ axes, variants, selection, onSelect, onClear }: VariantAxisPickerProps) {
+  const chosen = axes.filter(axis => selection[axis.name]).length;
+
+  return (
+    <div className="variant-picker">
+      {axes.map(axis => (
+        <div key={axis.name} className="variant-picker__axis">
+          <span className="variant-picker__label" title={axis.name}>{axis.name}</span>
+          <div className="variant-picker__options">
+            {axis.options.map(option => {
+              const isSelected = selection[axis.name] === option;
+              const isAvailable = isSelected || isOptionAvailable(variants, selection, axis.name, option);
+              return (
+                <button
+                  key={option}
+                  className={`variant-picker__option ${isSelected ? 'variant-picker__option--selected' : ''}`}
+                  onClick={() => onSelect(axis.name, option)}
+                  disabled={!isAvailable}
+                  title={isAvailable ? undefined : 'No variant with this combination'}
+                >
+                  {option}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      ))}
+      {chosen > 0 && (
+        <button className="variant-picker__clear" onClick={onClear}>
+          Clear
+        </button>
+      )}
+    </div>
+  );
+}
+
+export default VariantAxisPicker;
@@ -0,0 +1,215 @@
+/**
+ * Usage Audit
+ *
+ * Scans every page of the current file for Starter Kit content: instances of library
+ * templates (matched by main component key, or by provenance for instances whose key
+ * changed), detached copies, outdated instances and frames with no Starter Kit content.
+ * Used by RUN_USAGE_AUDIT.
+ *
+ * Sandbox only (uses the figma global) - import from code.ts.
+ */
+
+import { PROVENANCE_NAMESPACE, readProvenance } from './provenance';
+import type {
+  AuditNodeRef,
+  AuditPage,
+  AuditTemplateRef,
+  AuditTemplateUsage,
+  UsageAuditReport,
+} from './protocol';
+
+interface TemplateMatch {
+  template: AuditTemplateRef;
+  variantName: string | null;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/** Index every component and variant key of the library's templates */
+function indexTemplateKeys(templates: AuditTemplateRef[]): Map<string, TemplateMatch> {
+  const index = new Map<string, TemplateMatch>();
+  for (const template of templates) {
+    if (template.componentKey) {
+      index.set(template.componentKey, { template, variantName: null });
+    }
+    for (const variant of template.variants ?? []) {
+      index.set(variant.key, { template, variantName: variant.displayName });
+    }
+  }
+  return index;
+}
+
+function toRef(node: SceneNode): AuditNodeRef {
+  return { nodeId: node.id, name: node.name };
+}
+
+/** Frames that sit directly on the page, or directly inside a top-level section */
+function getTopLevelFrames(page: PageNode): FrameNode[] {
+  const frames: FrameNode[] = [];
+  for (const child of page.children) {
+    if (child.type === 'FRAME') {
+      frames.push(child);
+    } else if (child.type === 'SECTION') {
+      for (const nested of child.children) {
+        if (nested.type === 'FRAME') frames.push(nested);
+      }
+    }
+  }
+  return frames;
+}
+
+/** The top-level frame containing a node (see getTopLevelFrames), if any */
+function getTopLevelFrame(node: SceneNode): FrameNode | null {
+  let current: BaseNode = node;
+  while (current.parent && current.parent.type !== 'PAGE' && current.parent.type !== 'SECTION') {
+    current = current.parent;
+  }
+  return current.type === 'FRAME' ? current : null;
+}
+
+/**
+ * Whether a library component has a newer published version the file hasn't updated
+ * to yet, per its publish status. Cached per main component, since many instances
+ * share one; a status that can't be read counts as current.
+ */
+function createOutdatedLookup(): (main: ComponentNode) => Promise<boolean> {
+  const cache = new Map<string, Promise<boolean>>();
+  return (main) => {
+    let outdated = cache.get(main.id);
+    if (!outdated) {
+      outdated = main
+        .getPublishStatusAsync()
+        .then((status) => status === 'CHANGED')
+        .catch(() => false);
+      cache.set(main.id, outdated);
+    }
+    return outdated;
+  };
+}
+
+function addUsage(
+  usage: Map<string, AuditTemplateUsage>,
+  match: TemplateMatch,
+  variantKey: string,
+  variantName: string,
+  nodeId: string
+): void {
+  let entry = usage.get(match.template.id);
+  if (!entry) {
+    entry = {
+      templateId: match.template.id,
+      templateName: match.template.name,
+      count: 0,
+      variants: [],
+      nodeIds: [],
+    };
+    usage.set(match.template.id, entry);
+  }
+  entry.count++;
+  entry.nodeIds.push(nodeId);
+
+  let variant = entry.variants.find((v) => v.key === variantKey);
+  if (!variant) {
+    variant = { key: variantKey, name: variantName, count: 0 };
+    entry.variants.push(variant);
+  }
+  variant.count++;
+}
+
+// ============================================================================
+// AUDIT
+// ============================================================================
+
+async function auditPage(
+  page: PageNode,
+  keyIndex: Map<string, TemplateMatch>,
+  templatesById: Map<string, AuditTemplateRef>,
+  isOutdated: (main: ComponentNode) => Promise<boolean>
+): Promise<AuditPage> {
+  const usage = new Map<string, AuditTemplateUsage>();
+  const outdated: AuditNodeRef[] = [];
+  const framesWithContent = new Set<string>();
+  let instanceCount = 0;
+
+  for (const instance of page.findAllWithCriteria({ types: ['INSTANCE'] })) {
+    const main = await instance.getMainComponentAsync();
+    if (!main) continue;
+
+    // Key first; provenance catches templates whose component was replaced in the library
+    const provenance = readProvenance(instance);
+    const provenanceTemplate = provenance ? templatesById.get(provenance.templateId) : undefined;
+    const match =
+      keyIndex.get(main.key) ??
+      (provenanceTemplate ? { template: provenanceTemplate, variantName: null } : undefined);
+    if (!match) continue;
+
+    instanceCount++;
+    const variantName =
+      match.variantName ?? (main.parent?.type === 'COMPONENT_SET' ? main.name : match.template.name);
+    addUsage(usage, match, main.key, variantName, instance.id);
+
+    if (main.remote && (await isOutdated(main))) {
+      outdated.push(toRef(instance));
+    }
+
+    const frame = getTopLevelFrame(instance);
+    if (frame) framesWithContent.add(frame.id);
+  }
+
+  // Detaching keeps the plugin data, so stamped frames are detached Starter Kit instances
+  const detached: AuditNodeRef[] = [];
+  const stampedFrames = page.findAllWithCriteria({
+    types: ['FRAME'],
+    sharedPluginData: { namespace: PROVENANCE_NAMESPACE, keys: ['templateId'] },
+  });
+  for (const frame of stampedFrames) {
+    detached.push(toRef(frame));
+    const topLevel = getTopLevelFrame(frame);
+    if (topLevel) framesWithContent.add(topLevel.id);
+  }
+
+  return {
+    pageId: page.id,
+    pageName: page.name,
+    instanceCount,
+    templates: Array.from(usage.values()).sort((a, b) => b.count - a.count),
+    detached,
+    outdated,
+    framesWithoutStarterKit: getTopLevelFrames(page)
+      .filter((frame) => !framesWithContent.has(frame.id))
+      .map(toRef),
+  };
+}
+
+/** Audit all pages of the current file against the library's templates */
+export async function runUsageAudit(templates: AuditTemplateRef[]): Promise<UsageAuditReport> {
+  await figma.loadAllPagesAsync();
+
+  const keyIndex = indexTemplateKeys(templates);
+  const templatesById = new Map(templates.map((template) => [template.id, template]));
+  const isOutdated = createOutdatedLookup();
+
+  const pages: AuditPage[] = [];
+  for (const page of figma.root.children) {
+    pages.push(await auditPage(page, keyIndex, templatesById, isOutdated));
+  }
+
+  const usedTemplates = new Set(pages.flatMap((page) => page.templates.map((t) => t.templateId)));
+  return {
+    scannedAt: new Date().toISOString(),
+    fileName: figma.root.name,
+    pages,
+    totals: {
+      instances: pages.reduce((sum, page) => sum + page.instanceCount, 0),
+      templates: usedTemplates.size,
+      detached: pages.reduce((sum, page) => sum + page.detached.length, 0),
+      outdated: pages.reduce((sum, page) => sum + page.outdated.length, 0),
+      framesWithoutStarterKit: pages.reduce(
+        (sum, page) => sum + page.framesWithoutStarterKit.length,
+        0
+      ),
+    },
+  };
+}
@@ -0,0 +1,243 @@
+/**
+ * Component Capture
+ *
+ * The one place the sandbox turns a library component into template data: previews,
+ * size, the variant list and the fill-in properties. Used by GET_COMPONENT_INFO,
+ * REFRESH_TEMPLATE and REFRESH_ALL_TEMPLATES so capture and refresh always agree.
+ *
+ * Sandbox only (uses the figma global) - import from code.ts.
+ */
+
+import { captureProperties } from './properties';
+import type {
+  CaptureOptions,
+  CapturedComponent,
+  RefreshedTemplate,
+  RenditionFormat,
+  RenditionOptions,
+  VariantAxis,
+  VariantInfo,
+} from './protocol';
+import { parseVariantName } from './variants';
+
+// ============================================================================
+// DEFAULTS
+// ============================================================================
+
+export const DEFAULT_CAPTURE_OPTIONS: CaptureOptions = {
+  thumbnail: { format: 'PNG', width: 800 },
+  variantThumbnail: { format: 'PNG', width: 960 },
+  full: null,
+};
+
+/** High-res rendition for the variant popover */
+export const FULL_RENDITION: RenditionOptions = { format: 'PNG', width: 960 };
+
+/** Quick preview of a component by key (GET_PREVIEW) */
+export const PREVIEW_RENDITION: RenditionOptions = { format: 'PNG', width: 400 };
+
+const MIME_TYPES: Record<RenditionFormat, string> = {
+  PNG: 'image/png',
+  JPG: 'image/jpeg',
+  SVG: 'image/svg+xml',
+};
+
+export function resolveCaptureOptions(overrides?: Partial<CaptureOptions>): CaptureOptions {
+  return {
+    thumbnail: overrides?.thumbnail ?? DEFAULT_CAPTURE_OPTIONS.thumbnail,
+    variantThumbnail: overrides?.variantThumbnail ?? DEFAULT_CAPTURE_OPTIONS.variantThumbnail,
+    full: overrides?.full !== undefined ? overrides.full : DEFAULT_CAPTURE_OPTIONS.full,
+  };
+}
+
+// ============================================================================
+// RENDITIONS
+// ============================================================================
+
+function toExportSettings(rendition: RenditionOptions): ExportSettings {
+  if (rendition.format === 'SVG') {
+    return { format: 'SVG' };
+  }
+  const constraint: ExportSettingsConstraints | undefined = rendition.width
+    ? { type: 'WIDTH', value: rendition.width }
+    : rendition.scale
+      ? { type: 'SCALE', value: rendition.scale }
+      : undefined;
+  return constraint ? { format: rendition.format, constraint } : { format: rendition.format };
+}
+
+/**
+ * Export a node as a data URL. Returns null if the export fails
+ * (e.g. empty or invisible nodes) so one bad variant never fails a capture.
+ */
+export async function exportRendition(
+  node: SceneNode,
+  rendition: RenditionOptions
+): Promise<string | null> {
+  try {
+    const bytes = await node.exportAsync(toExportSettings(rendition));
+    return `data:${MIME_TYPES[rendition.format]};base64,${figma.base64Encode(bytes)}`;
+  } catch {
+    return null;
+  }
+}
+
+// ============================================================================
+// VARIANTS
+// ============================================================================
+
+/** Variant axes in definition order, with their options in Figma's order */
+export function getVariantAxes(set: ComponentSetNode): VariantAxis[] {
+  const axes: VariantAxis[] = [];
+  for (const [name, def] of Object.entries(set.componentPropertyDefinitions || {})) {
+    if (def.type === 'VARIANT' && def.variantOptions) {
+      axes.push({ name, options: def.variantOptions });
+    }
+  }
+  return axes;
+}
+
+/**
+ * Display name for a variant: its values in axis order, e.g. "Title" for a
+ * single-axis set or "Title / Dark" for Slides=Title, Theme=Dark.
+ */
+export function getVariantDisplayName(
+  properties: Record<string, string>,
+  axes: VariantAxis[],
+  fallback: string
+): string {
+  const values = axes.map((axis) => properties[axis.name]).filter((value) => !!value);
+  return values.length > 0 ? values.join(' / ') : fallback;
+}
+
+/** Sort rank of a variant: compared axis by axis using each axis's option order */
+function compareVariants(
+  a: Record<string, string>,
+  b: Record<string, string>,
+  axes: VariantAxis[]
+): number {
+  for (const axis of axes) {
+    const aIndex = axis.options.indexOf(a[axis.name]);
+    const bIndex = axis.options.indexOf(b[axis.name]);
+    const diff = (aIndex >= 0 ? aIndex : 999) - (bIndex >= 0 ? bIndex : 999);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+async function captureVariants(
+  set: ComponentSetNode,
+  axes: VariantAxis[],
+  options: CaptureOptions
+): Promise<VariantInfo[]> {
+  const variants: VariantInfo[] = [];
+
+  for (const child of set.children) {
+    if (child.type !== 'COMPONENT') continue;
+    const properties = child.variantProperties ?? parseVariantName(child.name);
+    const variant: VariantInfo = {
+      name: child.name,
+      displayName: getVariantDisplayName(properties, axes, child.name),
+      key: child.key,
+      properties,
+      preview: await exportRendition(child, options.variantThumbnail),
+    };
+    if (options.full) {
+      variant.fullPreview = await exportRendition(child, options.full);
+    }
+    variants.push(variant);
+  }
+
+  variants.sort((a, b) => compareVariants(a.properties ?? {}, b.properties ?? {}, axes));
+  variants.forEach((variant, index) => {
+    variant.orderIndex = index;
+  });
+  return variants;
+}
+
+// ============================================================================
+// CAPTURE
+// ============================================================================
+
+/**
+ * Capture a component set, component or instance.
+ * Instances are recorded as their main component (key/name) with the instance's own preview.
+ */
+export async function captureNode(
+  node: ComponentSetNode | ComponentNode | InstanceNode,
+  overrides?: Partial<CaptureOptions>
+): Promise<CapturedComponent> {
+  const options = resolveCaptureOptions(overrides);
+
+  if (node.type === 'COMPONENT_SET') {
+    const axes = getVariantAxes(node);
+    const variants = await captureVariants(node, axes, options);
+    // Default variant is the first child, matching what Figma inserts from the set
+    const defaultVariant = node.children.find((child) => child.type === 'COMPONENT') as
+      | ComponentNode
+      | undefined;
+    return {
+      name: node.name,
+      key: defaultVariant?.key || '',
+      id: node.id,
+      width: node.width,
+      height: node.height,
+      preview: await exportRendition(node, options.thumbnail),
+      fullPreview: options.full ? await exportRendition(node, options.full) : undefined,
+      isComponentSet: true,
+      variants,
+      variantCount: variants.length,
+      variantAxes: axes,
+      properties: await captureProperties(node),
+    };
+  }
+
+  const mainComponent = node.type === 'INSTANCE' ? await node.getMainComponentAsync() : node;
+  if (!mainComponent) {
+    throw new Error('Could not find main component');
+  }
+  return {
+    name: mainComponent.name,
+    key: mainComponent.key,
+    id: mainComponent.id,
+    width: node.width,
+    height: node.height,
+    preview: await exportRendition(node, options.thumbnail),
+    fullPreview: options.full ? await exportRendition(node, options.full) : undefined,
+    isComponentSet: false,
+    properties: await captureProperties(mainComponent),
+  };
+}
+
+/**
+ * Import a library component by key and capture it. With `isComponentSet` the
+ * whole parent set is captured, since template keys point at the default variant.
+ */
+export async function captureByKey(
+  componentKey: string,
+  isComponentSet: boolean | undefined,
+  overrides?: Partial<CaptureOptions>
+): Promise<CapturedComponent> {
+  const component = await figma.importComponentByKeyAsync(componentKey);
+  const parent = component.parent;
+  if (isComponentSet && parent && parent.type === 'COMPONENT_SET') {
+    return captureNode(parent, overrides);
+  }
+  return captureNode(component, overrides);
+}
+
+/** Shape a capture as the update applied to an existing template */
+export function toRefreshedTemplate(id: string, captured: CapturedComponent): RefreshedTemplate {
+  return {
+    id,
+    name: captured.name,
+    preview: captured.preview ?? undefined,
+    size: { width: Math.round(captured.width), height: Math.round(captured.height) },
+    ...(captured.isComponentSet && {
+      variants: captured.variants,
+      variantCount: captured.variantCount,
+      variantAxes: captured.variantAxes,
+    }),
+    properties: captured.properties,
+  };
+}
@@ -0,0 +1,23 @@
+/**
+ * Client Storage
+ *
+ * Client storage keys the sandbox caches the library under that more than one module
+ * reads, and the built-in clouds used until a team edits the list. Quick insert reads
+ * the same cache the UI writes through code.ts, so the keys live here once.
+ *
+ * Pure constants - safe to import from both the UI and code.ts.
+ */
+
+export const TEMPLATES_KEY = 'launchpad_templates';
+export const CUSTOM_CLOUDS_KEY = 'starter-kit-custom-clouds';
+export const EDITABLE_CLOUDS_KEY = 'starter-kit-editable-clouds';
+
+/** The clouds every team starts with, in display order */
+export const BUILT_IN_CLOUDS: { id: string; name: string }[] = [
+  { id: 'sales', name: 'Sales' },
+  { id: 'service', name: 'Service' },
+  { id: 'marketing', name: 'Marketing' },
+  { id: 'commerce', name: 'Commerce' },
+  { id: 'revenue', name: 'Revenue' },
+  { id: 'fieldservice', name: 'Field Service' },
+];
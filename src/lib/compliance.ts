@@ -0,0 +1,265 @@
+/**
+ * Compliance Engine
+ *
+ * Runs the checks declared by housekeeping rules (aspect ratio, resolution, auto layout,
+ * naming, fonts, fills, spacing) against the selection, the current page or the whole
+ * file and reports pass/fail per node, with suggested fixes for failed checks (see
+ * complianceFixes.ts). Each check type has one checker in CHECKERS, so adding a check
+ * means adding a ComplianceCheck variant and its checker. Used by RUN_COMPLIANCE_CHECK.
+ *
+ * Sandbox only (uses the figma global) - import from code.ts.
+ */
+
+import {
+  buildFixContext,
+  formatSpacing,
+  hasAutoLayout,
+  readSpacing,
+  suggestFixes,
+} from './complianceFixes';
+import type { FixContext } from './complianceFixes';
+import type {
+  ComplianceCheck,
+  ComplianceCheckType,
+  ComplianceNodeResult,
+  ComplianceReport,
+  ComplianceRule,
+  ComplianceScope,
+} from './protocol';
+
+export type ComplianceTarget = FrameNode | ComponentNode | InstanceNode;
+
+interface CheckOutcome {
+  passed: boolean;
+  detail: string;
+}
+
+type Checker<T extends ComplianceCheckType> = (
+  node: ComplianceTarget,
+  check: Extract<ComplianceCheck, { type: T }>
+) => CheckOutcome | Promise<CheckOutcome>;
+
+/** How many offending values a failure detail lists before summarising the rest */
+const MAX_LISTED = 3;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function isTarget(node: BaseNode): node is ComplianceTarget {
+  return node.type === 'FRAME' || node.type === 'COMPONENT' || node.type === 'INSTANCE';
+}
+
+function formatSize(width: number, height: number): string {
+  return `${Math.round(width)}×${Math.round(height)}`;
+}
+
+function listValues(values: string[]): string {
+  const listed = values.slice(0, MAX_LISTED).join(', ');
+  return values.length > MAX_LISTED ? `${listed} +${values.length - MAX_LISTED} more` : listed;
+}
+
+function toHex(color: RGB): string {
+  const channel = (value: number) => Math.round(value * 255).toString(16).padStart(2, '0');
+  return `#${channel(color.r)}${channel(color.g)}${channel(color.b)}`.toUpperCase();
+}
+
+/** Font families used by a text layer, including mixed ranges */
+function getFontFamilies(text: TextNode): string[] {
+  if (text.fontName !== figma.mixed) return [text.fontName.family];
+  return text.getRangeAllFontNames(0, text.characters.length).map((font) => font.family);
+}
+
+/** Visible solid fill colors of a layer as #RRGGBB, including per-range text fills */
+function getSolidFills(layer: SceneNode): string[] {
+  if (!('fills' in layer)) return [];
+  const paints: readonly Paint[] =
+    layer.fills !== figma.mixed
+      ? layer.fills
+      : layer.type === 'TEXT'
+        ? layer.getStyledTextSegments(['fills']).flatMap((segment) => segment.fills)
+        : [];
+  return paints
+    .filter((paint): paint is SolidPaint => paint.type === 'SOLID' && paint.visible !== false)
+    .map((paint) => toHex(paint.color));
+}
+
+/** The node itself plus every descendant */
+function withDescendants(node: ComplianceTarget): SceneNode[] {
+  return [node, ...node.findAll()];
+}
+
+// ============================================================================
+// CHECKERS
+// ============================================================================
+
+const CHECKERS: { [T in ComplianceCheckType]: Checker<T> } = {
+  'aspect-ratio': (node, check) => {
+    const ratio = node.width / node.height;
+    return {
+      passed: Math.abs(ratio - check.ratioWidth / check.ratioHeight) < check.tolerance,
+      detail: `${ratio.toFixed(2)}:1`,
+    };
+  },
+
+  resolution: (node, check) => ({
+    passed: check.sizes.some(
+      (size) => Math.round(node.width) === size.width && Math.round(node.height) === size.height
+    ),
+    detail: formatSize(node.width, node.height),
+  }),
+
+  'auto-layout': (node) => {
+    const enabled = hasAutoLayout(node);
+    return { passed: enabled, detail: enabled ? 'Enabled' : 'Not enabled' };
+  },
+
+  naming: (node, check) => {
+    let pattern: RegExp;
+    try {
+      pattern = new RegExp(check.pattern);
+    } catch {
+      return { passed: false, detail: `Invalid pattern: ${check.pattern}` };
+    }
+    return { passed: pattern.test(node.name), detail: `"${node.name}"` };
+  },
+
+  fonts: (node, check) => {
+    const allowed = new Set(check.families.map((family) => family.toLowerCase()));
+    const used = new Set<string>();
+    for (const text of node.findAllWithCriteria({ types: ['TEXT'] })) {
+      for (const family of getFontFamilies(text)) used.add(family);
+    }
+    if (used.size === 0) return { passed: true, detail: 'No text' };
+    const disallowed = Array.from(used).filter((family) => !allowed.has(family.toLowerCase()));
+    return disallowed.length > 0
+      ? { passed: false, detail: `Uses ${listValues(disallowed)}` }
+      : { passed: true, detail: listValues(Array.from(used)) };
+  },
+
+  fills: (node, check) => {
+    const allowed = new Set(check.colors.map((color) => color.toUpperCase()));
+    const disallowed = new Set<string>();
+    for (const layer of withDescendants(node)) {
+      for (const hex of getSolidFills(layer)) {
+        if (!allowed.has(hex)) disallowed.add(hex);
+      }
+    }
+    return disallowed.size > 0
+      ? { passed: false, detail: `Uses ${listValues(Array.from(disallowed))}` }
+      : { passed: true, detail: 'Only allowed colors' };
+  },
+
+  spacing: (node, check) => {
+    // Free-form frames have no padding or spacing to check; auto-layout covers that
+    if (!hasAutoLayout(node)) return { passed: true, detail: 'No auto layout' };
+    const tokens = new Set(check.tokens);
+    const spacing = readSpacing(node);
+    return {
+      passed: Object.values(spacing).every((value) => tokens.has(value)),
+      detail: formatSpacing(spacing),
+    };
+  },
+};
+
+function runCheck(node: ComplianceTarget, check: ComplianceCheck): CheckOutcome | Promise<CheckOutcome> {
+  const checker = CHECKERS[check.type] as Checker<ComplianceCheckType> | undefined;
+  // Rules saved by a newer plugin version may use checks this one doesn't know
+  if (!checker) return { passed: true, detail: 'Not supported by this plugin version' };
+  return checker(node, check as never);
+}
+
+// ============================================================================
+// TARGETS
+// ============================================================================
+
+/** Frames, components and instances on the page, or directly inside a top-level section */
+function getTopLevelTargets(page: PageNode): ComplianceTarget[] {
+  const targets: ComplianceTarget[] = [];
+  for (const child of page.children) {
+    if (isTarget(child)) {
+      targets.push(child);
+    } else if (child.type === 'SECTION') {
+      targets.push(...child.children.filter(isTarget));
+    }
+  }
+  return targets;
+}
+
+function getPageName(node: BaseNode): string {
+  let current: BaseNode | null = node;
+  while (current && current.type !== 'PAGE') current = current.parent;
+  return current?.name ?? '';
+}
+
+async function collectTargets(scope: ComplianceScope): Promise<ComplianceTarget[]> {
+  if (scope === 'selection') {
+    return figma.currentPage.selection.filter(isTarget);
+  }
+  if (scope === 'page') {
+    return getTopLevelTargets(figma.currentPage);
+  }
+  await figma.loadAllPagesAsync();
+  return figma.root.children.flatMap(getTopLevelTargets);
+}
+
+// ============================================================================
+// ENGINE
+// ============================================================================
+
+async function checkNode(
+  node: ComplianceTarget,
+  rules: ComplianceRule[],
+  fixContext: FixContext
+): Promise<ComplianceNodeResult> {
+  const checks: ComplianceNodeResult['checks'] = [];
+  for (const rule of rules) {
+    for (const check of rule.checks) {
+      const outcome = await runCheck(node, check);
+      const fixes = outcome.passed ? [] : suggestFixes(node, check, fixContext);
+      checks.push({
+        ruleId: rule.id,
+        ruleTitle: rule.title,
+        check,
+        ...outcome,
+        ...(fixes.length > 0 ? { fixes } : {}),
+      });
+    }
+  }
+  return {
+    nodeId: node.id,
+    name: node.name,
+    pageName: getPageName(node),
+    passed: checks.every((result) => result.passed),
+    checks,
+  };
+}
+
+/**
+ * Run every rule's checks against the nodes in scope.
+ * Throws if the selection scope has nothing checkable selected.
+ */
+export async function runComplianceCheck(
+  rules: ComplianceRule[],
+  scope: ComplianceScope
+): Promise<ComplianceReport> {
+  const activeRules = rules.filter((rule) => rule.checks.length > 0);
+  const targets = await collectTargets(scope);
+  if (scope === 'selection' && targets.length === 0) {
+    throw new Error('No frame selected. Please select a frame, component, or instance.');
+  }
+
+  const fixContext = buildFixContext(activeRules);
+  const nodes: ComplianceNodeResult[] = [];
+  for (const target of targets) {
+    nodes.push(await checkNode(target, activeRules, fixContext));
+  }
+
+  const passed = nodes.filter((node) => node.passed).length;
+  return {
+    scope,
+    checkedAt: new Date().toISOString(),
+    nodes,
+    totals: { nodes: nodes.length, passed, failed: nodes.length - passed },
+  };
+}
@@ -0,0 +1,338 @@
+/**
+ * Compliance Fixes
+ *
+ * Suggests automatic fixes for failed compliance checks (resize to the nearest
+ * recommended resolution, add auto layout with inferred padding and spacing, snap
+ * spacing to tokens) and applies a batch of them as a single undo step. Suggestions
+ * carry fully resolved values, so what the UI previews is exactly what gets applied.
+ * Used by RUN_COMPLIANCE_CHECK (suggest) and APPLY_COMPLIANCE_FIXES (apply).
+ *
+ * Sandbox only (uses the figma global) - import from code.ts.
+ */
+
+import type { ComplianceTarget } from './compliance';
+import type {
+  AutoLayoutSpacing,
+  ComplianceCheck,
+  ComplianceCheckType,
+  ComplianceFix,
+  ComplianceFixAction,
+  ComplianceRule,
+  TemplateSize,
+} from './protocol';
+
+/** What the other checks in the run say a compliant frame looks like */
+export interface FixContext {
+  resolutions: TemplateSize[];
+  aspectRatio: { ratioWidth: number; ratioHeight: number } | null;
+  spacingTokens: number[] | null;
+}
+
+type FixSuggester<T extends ComplianceCheckType> = (
+  node: ComplianceTarget,
+  check: Extract<ComplianceCheck, { type: T }>,
+  context: FixContext
+) => ComplianceFix[];
+
+export interface ApplyFixesResult {
+  applied: number;
+  failed: { fixId: string; error: string }[];
+}
+
+// ============================================================================
+// SPACING
+// ============================================================================
+
+export function hasAutoLayout(node: ComplianceTarget): boolean {
+  return node.layoutMode === 'HORIZONTAL' || node.layoutMode === 'VERTICAL';
+}
+
+export function readSpacing(node: ComplianceTarget): AutoLayoutSpacing {
+  return {
+    paddingTop: node.paddingTop,
+    paddingRight: node.paddingRight,
+    paddingBottom: node.paddingBottom,
+    paddingLeft: node.paddingLeft,
+    itemSpacing: node.itemSpacing,
+  };
+}
+
+/** "Padding 24/16/24/16, spacing 12" (top/right/bottom/left, as in Frame Details) */
+export function formatSpacing(spacing: AutoLayoutSpacing): string {
+  const { paddingTop, paddingRight, paddingBottom, paddingLeft, itemSpacing } = spacing;
+  return `Padding ${paddingTop}/${paddingRight}/${paddingBottom}/${paddingLeft}, spacing ${itemSpacing}`;
+}
+
+function snapToToken(value: number, tokens: number[]): number {
+  return tokens.reduce((best, token) =>
+    Math.abs(token - value) < Math.abs(best - value) ? token : best
+  );
+}
+
+function snapSpacing(spacing: AutoLayoutSpacing, tokens: number[] | null): AutoLayoutSpacing {
+  if (!tokens || tokens.length === 0) return spacing;
+  return {
+    paddingTop: snapToToken(spacing.paddingTop, tokens),
+    paddingRight: snapToToken(spacing.paddingRight, tokens),
+    paddingBottom: snapToToken(spacing.paddingBottom, tokens),
+    paddingLeft: snapToToken(spacing.paddingLeft, tokens),
+    itemSpacing: snapToToken(spacing.itemSpacing, tokens),
+  };
+}
+
+// ============================================================================
+// INFERENCE
+// ============================================================================
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+/** Children in the order auto layout should place them along `layoutMode` */
+function sortAlongAxis(children: readonly SceneNode[], layoutMode: 'HORIZONTAL' | 'VERTICAL'): SceneNode[] {
+  return [...children].sort((a, b) => (layoutMode === 'HORIZONTAL' ? a.x - b.x : a.y - b.y));
+}
+
+/**
+ * Auto layout that keeps the current arrangement as close as possible: the axis the
+ * children spread along, padding from their bounds to the frame edges, and the median
+ * gap between neighbours.
+ */
+function inferAutoLayout(
+  node: FrameNode | ComponentNode,
+  layoutMode: 'HORIZONTAL' | 'VERTICAL'
+): AutoLayoutSpacing {
+  const children = node.children.filter((child) => child.visible);
+  if (children.length === 0) {
+    return { paddingTop: 0, paddingRight: 0, paddingBottom: 0, paddingLeft: 0, itemSpacing: 0 };
+  }
+
+  const left = Math.min(...children.map((child) => child.x));
+  const top = Math.min(...children.map((child) => child.y));
+  const right = Math.max(...children.map((child) => child.x + child.width));
+  const bottom = Math.max(...children.map((child) => child.y + child.height));
+
+  const sorted = sortAlongAxis(children, layoutMode);
+  const gaps = sorted.slice(1).map((child, i) => {
+    const previous = sorted[i];
+    return layoutMode === 'HORIZONTAL'
+      ? child.x - (previous.x + previous.width)
+      : child.y - (previous.y + previous.height);
+  });
+
+  return {
+    paddingTop: Math.max(0, Math.round(top)),
+    paddingRight: Math.max(0, Math.round(node.width - right)),
+    paddingBottom: Math.max(0, Math.round(node.height - bottom)),
+    paddingLeft: Math.max(0, Math.round(left)),
+    itemSpacing: Math.max(0, Math.round(median(gaps))),
+  };
+}
+
+function inferLayoutMode(node: FrameNode | ComponentNode): 'HORIZONTAL' | 'VERTICAL' {
+  const children = node.children.filter((child) => child.visible);
+  if (children.length < 2) return 'VERTICAL';
+  const xs = children.map((child) => child.x);
+  const ys = children.map((child) => child.y);
+  const xSpread = Math.max(...xs) - Math.min(...xs);
+  const ySpread = Math.max(...ys) - Math.min(...ys);
+  return xSpread > ySpread ? 'HORIZONTAL' : 'VERTICAL';
+}
+
+/** Closest recommended size; without a resolution list, keep the width and fix the ratio */
+function nearestResolution(node: ComplianceTarget, context: FixContext): TemplateSize | null {
+  if (context.resolutions.length > 0) {
+    return context.resolutions.reduce((best, size) => {
+      const distance = (s: TemplateSize) => Math.hypot(s.width - node.width, s.height - node.height);
+      return distance(size) < distance(best) ? size : best;
+    });
+  }
+  if (context.aspectRatio) {
+    const { ratioWidth, ratioHeight } = context.aspectRatio;
+    return { width: Math.round(node.width), height: Math.round((node.width * ratioHeight) / ratioWidth) };
+  }
+  return null;
+}
+
+// ============================================================================
+// SUGGESTERS
+// ============================================================================
+
+function resizeFixes(node: ComplianceTarget, context: FixContext): ComplianceFix[] {
+  const size = nearestResolution(node, context);
+  if (!size) return [];
+  const change = `Size ${Math.round(node.width)}×${Math.round(node.height)} → ${size.width}×${size.height}`;
+  return (['scale', 'anchor'] as const).map((content) => ({
+    id: `${node.id}:resize-${content}`,
+    group: `${node.id}:resize`,
+    nodeId: node.id,
+    label:
+      content === 'scale'
+        ? `Resize to ${size.width}×${size.height}, scale content`
+        : `Resize to ${size.width}×${size.height}, keep content anchored`,
+    changes: [change, content === 'scale' ? 'Content scales with the frame' : 'Content keeps its position and size'],
+    action: { kind: 'resize', width: size.width, height: size.height, content },
+  }));
+}
+
+const FIX_SUGGESTERS: { [T in ComplianceCheckType]?: FixSuggester<T> } = {
+  'aspect-ratio': (node, _check, context) => resizeFixes(node, context),
+
+  resolution: (node, check, context) =>
+    resizeFixes(node, { ...context, resolutions: check.sizes }),
+
+  'auto-layout': (node, _check, context) => {
+    // Instances take their layout from the main component
+    if (node.type === 'INSTANCE') return [];
+    const inferred = inferLayoutMode(node);
+    const modes = inferred === 'VERTICAL' ? (['VERTICAL', 'HORIZONTAL'] as const) : (['HORIZONTAL', 'VERTICAL'] as const);
+    return modes.map((layoutMode) => {
+      const spacing = snapSpacing(inferAutoLayout(node, layoutMode), context.spacingTokens);
+      const direction = layoutMode === 'VERTICAL' ? 'vertical' : 'horizontal';
+      return {
+        id: `${node.id}:auto-layout-${direction}`,
+        group: `${node.id}:auto-layout`,
+        nodeId: node.id,
+        label: `Convert to ${direction} auto layout`,
+        changes: [`Auto layout ${direction}, children ordered by position`, formatSpacing(spacing)],
+        action: { kind: 'auto-layout', layoutMode, ...spacing },
+      };
+    });
+  },
+
+  spacing: (node, check) => {
+    if (!hasAutoLayout(node)) return [];
+    const current = readSpacing(node);
+    const snapped = snapSpacing(current, check.tokens);
+    return [{
+      id: `${node.id}:snap-spacing`,
+      group: `${node.id}:snap-spacing`,
+      nodeId: node.id,
+      label: 'Snap padding and spacing to tokens',
+      changes: [`${formatSpacing(current)} → ${formatSpacing(snapped)}`],
+      action: { kind: 'snap-spacing', ...snapped },
+    }];
+  },
+};
+
+/** Collect the targets the rules in a run agree on (first declaration wins) */
+export function buildFixContext(rules: ComplianceRule[]): FixContext {
+  const checks = rules.flatMap((rule) => rule.checks);
+  const aspect = checks.find((check) => check.type === 'aspect-ratio');
+  const spacing = checks.find((check) => check.type === 'spacing');
+  return {
+    resolutions: checks.flatMap((check) => (check.type === 'resolution' ? check.sizes : [])),
+    aspectRatio: aspect?.type === 'aspect-ratio'
+      ? { ratioWidth: aspect.ratioWidth, ratioHeight: aspect.ratioHeight }
+      : null,
+    spacingTokens: spacing?.type === 'spacing' ? spacing.tokens : null,
+  };
+}
+
+/** Fixes for a failed check; empty when the check type has no automatic fix */
+export function suggestFixes(
+  node: ComplianceTarget,
+  check: ComplianceCheck,
+  context: FixContext
+): ComplianceFix[] {
+  const suggester = FIX_SUGGESTERS[check.type] as FixSuggester<ComplianceCheckType> | undefined;
+  return suggester ? suggester(node, check as never, context) : [];
+}
+
+// ============================================================================
+// APPLY
+// ============================================================================
+
+function applySpacing(node: ComplianceTarget, spacing: AutoLayoutSpacing): void {
+  node.paddingTop = spacing.paddingTop;
+  node.paddingRight = spacing.paddingRight;
+  node.paddingBottom = spacing.paddingBottom;
+  node.paddingLeft = spacing.paddingLeft;
+  node.itemSpacing = spacing.itemSpacing;
+}
+
+function resize(node: ComplianceTarget, width: number, height: number, content: 'scale' | 'anchor'): void {
+  if (content === 'anchor') {
+    node.resizeWithoutConstraints(width, height);
+    return;
+  }
+  // Auto layout and instances position their own content; free-form frames scale it via constraints
+  if (node.type === 'INSTANCE' || hasAutoLayout(node)) {
+    node.resize(width, height);
+    return;
+  }
+  const saved = node.children
+    .filter((child): child is SceneNode & ConstraintMixin => 'constraints' in child)
+    .map((child) => ({ child, constraints: child.constraints }));
+  for (const { child } of saved) {
+    child.constraints = { horizontal: 'SCALE', vertical: 'SCALE' };
+  }
+  node.resize(width, height);
+  for (const { child, constraints } of saved) {
+    child.constraints = constraints;
+  }
+}
+
+function applyAction(node: ComplianceTarget, action: ComplianceFixAction): void {
+  switch (action.kind) {
+    case 'resize':
+      resize(node, action.width, action.height, action.content);
+      return;
+    case 'auto-layout': {
+      if (node.type === 'INSTANCE') {
+        throw new Error('Instances take their layout from the main component');
+      }
+      // Auto layout places children in layer order, so match it to their current positions.
+      // Only visible children were measured for the preview; hidden ones keep their index.
+      const order = [...node.children];
+      const slots = order.flatMap((child, index) => (child.visible ? [index] : []));
+      sortAlongAxis(order.filter((child) => child.visible), action.layoutMode).forEach((child, i) => {
+        order[slots[i]] = child;
+      });
+      order.forEach((child, index) => {
+        node.insertChild(index, child);
+      });
+      const { width, height } = node;
+      node.layoutMode = action.layoutMode;
+      node.primaryAxisSizingMode = 'FIXED';
+      node.counterAxisSizingMode = 'FIXED';
+      applySpacing(node, action);
+      node.resize(width, height);
+      return;
+    }
+    case 'snap-spacing':
+      applySpacing(node, action);
+      return;
+  }
+}
+
+function isTarget(node: BaseNode | null): node is ComplianceTarget {
+  return !!node && (node.type === 'FRAME' || node.type === 'COMPONENT' || node.type === 'INSTANCE');
+}
+
+/**
+ * Apply fixes in order as one undo step. A fix whose node is gone or which throws is
+ * reported and skipped; the rest still apply.
+ */
+export async function applyComplianceFixes(fixes: ComplianceFix[]): Promise<ApplyFixesResult> {
+  const result: ApplyFixesResult = { applied: 0, failed: [] };
+  // Close the undo step before the batch so ⌘Z reverts exactly these fixes
+  figma.commitUndo();
+  for (const fix of fixes) {
+    const node = await figma.getNodeByIdAsync(fix.nodeId);
+    if (!isTarget(node)) {
+      result.failed.push({ fixId: fix.id, error: 'Layer no longer exists' });
+      continue;
+    }
+    try {
+      applyAction(node, fix.action);
+      result.applied++;
+    } catch (error) {
+      result.failed.push({ fixId: fix.id, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+  figma.commitUndo();
+  return result;
+}
@@ -0,0 +1,181 @@
+/**
+ * File Cover
+ *
+ * Finds the cover on the Cover Page, keeps it in a frame (the file thumbnail has to
+ * be a frame, not an instance), makes that frame the thumbnail, and reads and writes
+ * the cover component's text properties: feature name, release, owner, status and
+ * last updated. Properties are matched by name, so any cover whose properties are
+ * called e.g. "Feature Name" or "Last updated" works.
+ *
+ * Sandbox only (uses the figma global) - import from code.ts.
+ */
+
+import { loadInstanceFonts } from './properties';
+import type { CoverFields, CoverInfo } from './protocol';
+import { PROVENANCE_NAMESPACE } from './provenance';
+
+/** Marks the frame the plugin keeps the cover in */
+const COVER_KEY = 'cover';
+
+/** Property names (lowercased, letters only) each field is written to */
+const FIELD_NAMES: Record<keyof CoverFields, string[]> = {
+  featureName: ['featurename', 'feature', 'title', 'projectname', 'project'],
+  release: ['release', 'releasename'],
+  owner: ['owner', 'designer', 'author', 'poc'],
+  status: ['status'],
+  lastUpdated: ['lastupdated', 'updated', 'updatedon', 'date', 'lastmodified'],
+};
+
+const FIELDS = Object.keys(FIELD_NAMES) as (keyof CoverFields)[];
+
+// ============================================================================
+// FINDING THE COVER
+// ============================================================================
+
+/** Page names (lowercased, letters only) that mark the cover page */
+const COVER_PAGE_NAMES = ['cover', 'coverpage'];
+
+/** The file's cover page ("Cover Page", "🖼 Cover", ...), or null */
+export function findCoverPage(): PageNode | null {
+  return (
+    figma.root.children.find((page) => COVER_PAGE_NAMES.includes(page.name.toLowerCase().replace(/[^a-z]/g, ''))) ??
+    null
+  );
+}
+
+/** Put `instance` in a frame of its size, where it was, tagged as the cover */
+function wrapCover(instance: InstanceNode): FrameNode {
+  const parent = instance.parent as BaseNode & ChildrenMixin;
+  const frame = figma.createFrame();
+  frame.name = 'Cover';
+  frame.fills = [];
+  parent.insertChild(parent.children.indexOf(instance), frame);
+  frame.x = instance.x;
+  frame.y = instance.y;
+  frame.resize(instance.width, instance.height);
+  frame.appendChild(instance);
+  instance.x = 0;
+  instance.y = 0;
+  frame.setSharedPluginData(PROVENANCE_NAMESPACE, COVER_KEY, '1');
+  return frame;
+}
+
+/** Put a newly inserted cover instance in its frame and make it the thumbnail */
+export async function placeCover(instance: InstanceNode): Promise<FrameNode> {
+  const frame = wrapCover(instance);
+  await figma.setFileThumbnailNodeAsync(frame);
+  return frame;
+}
+
+/** The cover frame the plugin tagged, or null. Only reads, so it's safe on open. */
+async function findCoverFrame(): Promise<FrameNode | null> {
+  const page = findCoverPage();
+  if (!page) return null;
+  await page.loadAsync();
+  const tagged = page.children.find((node) => node.getSharedPluginData(PROVENANCE_NAMESPACE, COVER_KEY));
+  return tagged?.type === 'FRAME' ? tagged : null;
+}
+
+/**
+ * The cover frame for an explicit cover action. A top-level cover instance (inserted
+ * before covers were framed) is wrapped in a frame on the way.
+ */
+async function requireCoverFrame(): Promise<FrameNode> {
+  const frame = await findCoverFrame();
+  if (frame) return frame;
+
+  const page = findCoverPage();
+  if (!page) throw new Error('This file has no Cover page. Insert one from the scaffold first.');
+  const instance = page.children.find((node): node is InstanceNode => node.type === 'INSTANCE');
+  if (instance) return wrapCover(instance);
+  throw new Error(`No cover found on "${page.name}". Insert one from the scaffold first.`);
+}
+
+/** The instance carrying the cover's text properties */
+function findCoverInstance(frame: FrameNode): InstanceNode | null {
+  const hasText = (node: SceneNode) =>
+    node.type === 'INSTANCE' && Object.values(node.componentProperties).some((property) => property.type === 'TEXT');
+  return (frame.findOne(hasText) as InstanceNode | null) ?? null;
+}
+
+// ============================================================================
+// PROPERTIES
+// ============================================================================
+
+/** "Feature Name#123:4" -> "featurename" */
+function propertyKey(name: string): string {
+  return name.split('#')[0].toLowerCase().replace(/[^a-z]/g, '');
+}
+
+/** Full property name for each field the instance has a text property for */
+function fieldProperties(instance: InstanceNode): Partial<Record<keyof CoverFields, string>> {
+  const properties: Partial<Record<keyof CoverFields, string>> = {};
+  for (const [name, property] of Object.entries(instance.componentProperties)) {
+    if (property.type !== 'TEXT') continue;
+    const field = FIELDS.find((candidate) => FIELD_NAMES[candidate].includes(propertyKey(name)));
+    if (field && !properties[field]) properties[field] = name;
+  }
+  return properties;
+}
+
+async function describe(frame: FrameNode): Promise<CoverInfo> {
+  const instance = findCoverInstance(frame);
+  const properties = instance ? fieldProperties(instance) : {};
+  const fields: CoverFields = {};
+  for (const field of FIELDS) {
+    const name = properties[field];
+    if (instance && name) fields[field] = String(instance.componentProperties[name].value);
+  }
+  const thumbnail = await figma.getFileThumbnailNodeAsync();
+  return {
+    fields,
+    available: FIELDS.filter((field) => properties[field]),
+    isThumbnail: thumbnail?.id === frame.id,
+  };
+}
+
+/** Today, the way the cover shows its last-updated date */
+export function formatCoverDate(date = new Date()): string {
+  return date.toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
+}
+
+// ============================================================================
+// COMMANDS
+// ============================================================================
+
+/** The cover's current text and thumbnail state, or null while the file has no framed cover */
+export async function readCover(): Promise<CoverInfo | null> {
+  const frame = await findCoverFrame();
+  return frame ? describe(frame) : null;
+}
+
+/** Write `fields` into the cover's matching text properties; fields it lacks are skipped */
+export async function updateCover(fields: CoverFields, frame?: FrameNode): Promise<CoverInfo> {
+  const cover = frame ?? (await requireCoverFrame());
+  const instance = findCoverInstance(cover);
+  if (!instance) throw new Error('The cover has no text properties to fill in.');
+
+  const properties = fieldProperties(instance);
+  const values: Record<string, string> = {};
+  for (const field of FIELDS) {
+    const name = properties[field];
+    const value = fields[field];
+    if (name && value !== undefined) values[name] = value;
+  }
+  if (Object.keys(values).length > 0) {
+    await loadInstanceFonts(instance);
+    instance.setProperties(values);
+    figma.commitUndo();
+  }
+  return describe(cover);
+}
+
+export async function refreshCover(): Promise<CoverInfo> {
+  return updateCover({ lastUpdated: formatCoverDate() });
+}
+
+export async function setCoverThumbnail(): Promise<CoverInfo> {
+  const frame = await requireCoverFrame();
+  await figma.setFileThumbnailNodeAsync(frame);
+  return describe(frame);
+}
@@ -0,0 +1,105 @@
+/**
+ * Library Health
+ *
+ * Checks each template against its source component in the library: can it still be
+ * imported, was it renamed or resized, and do its variants still import. Used by
+ * CHECK_LIBRARY_HEALTH so problems surface before a designer clicks Insert.
+ *
+ * Sandbox only (uses the figma global) - import from code.ts.
+ */
+
+import type {
+  HealthTemplateRef,
+  TemplateHealthIssue,
+  TemplateHealthResult,
+  TemplateHealthStatus,
+} from './protocol';
+
+function formatSize(width: number, height: number): string {
+  return `${Math.round(width)}×${Math.round(height)}`;
+}
+
+/** Variants whose component no longer imports (unpublished, or deleted from the set) */
+async function findUnimportableVariants(
+  variants: { key: string; displayName: string }[]
+): Promise<{ key: string; displayName: string }[]> {
+  const failed: { key: string; displayName: string }[] = [];
+  for (const variant of variants) {
+    try {
+      await figma.importComponentByKeyAsync(variant.key);
+    } catch {
+      failed.push(variant);
+    }
+  }
+  return failed;
+}
+
+/** Check one template; never throws - an import failure is reported as broken */
+export async function checkTemplateHealth(template: HealthTemplateRef): Promise<TemplateHealthResult> {
+  const checkedAt = new Date().toISOString();
+
+  let component: ComponentNode;
+  try {
+    component = await figma.importComponentByKeyAsync(template.componentKey);
+  } catch {
+    return {
+      templateId: template.id,
+      status: 'broken',
+      issues: [{ kind: 'broken', message: 'Source component is unpublished or deleted' }],
+      checkedAt,
+    };
+  }
+
+  // Component-set templates are recorded from the whole set (see captureByKey)
+  const parent = component.parent;
+  const source = template.isComponentSet && parent?.type === 'COMPONENT_SET' ? parent : component;
+  const issues: TemplateHealthIssue[] = [];
+
+  if (template.sourceName && template.sourceName !== source.name) {
+    issues.push({
+      kind: 'renamed',
+      message: `Renamed from "${template.sourceName}" to "${source.name}"`,
+    });
+  }
+
+  if (
+    Math.round(source.width) !== template.size.width ||
+    Math.round(source.height) !== template.size.height
+  ) {
+    issues.push({
+      kind: 'resized',
+      message: `Resized from ${formatSize(template.size.width, template.size.height)} to ${formatSize(source.width, source.height)}`,
+    });
+  }
+
+  let allVariantsMissing = false;
+  if (source.type === 'COMPONENT_SET' && template.variants && template.variants.length > 0) {
+    const missing = await findUnimportableVariants(template.variants);
+    allVariantsMissing = missing.length === template.variants.length;
+    if (missing.length > 0) {
+      issues.push({
+        kind: 'variants-missing',
+        message: `${missing.length} of ${template.variants.length} slides no longer import: ${missing.map((variant) => variant.displayName).join(', ')}`,
+      });
+    }
+  }
+
+  const status: TemplateHealthStatus = allVariantsMissing
+    ? 'broken'
+    : issues.length > 0
+      ? 'changed'
+      : 'healthy';
+
+  return { templateId: template.id, status, issues, checkedAt, currentName: source.name };
+}
+
+/** Check every template, one at a time */
+export async function checkLibraryHealth(
+  templates: HealthTemplateRef[]
+): Promise<TemplateHealthResult[]> {
+  const results: TemplateHealthResult[] = [];
+  for (const template of templates) {
+    results.push(await checkTemplateHealth(template));
+  }
+  return results;
+}
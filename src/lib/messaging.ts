@@ -1,77 +1,122 @@
 /**
  * Type-Safe Message Passing Utilities
  * 
- * This module provides type-safe communication between the UI and plugin sandbox.
- * Customize the message types to match your plugin's needs.
+ * UI-side helpers for talking to the plugin sandbox. The message unions live in
+ * protocol.ts; the sandbox counterpart is pluginMessaging.ts.
  */
 
+import { useEffect, useState, useCallback, useRef } from 'react';
+import type {
+  AwaitableRequestType,
+  PluginRequest,
+  PluginRequestMap,
+  PluginResponse,
+  PluginToUIHandlers,
+  PluginToUIMessage,
+  RequestOf,
+  ResponseOf,
+  UIToPluginMessage,
+} from './protocol';
+
+export type {
+  AwaitableRequestType,
+  PluginMessage,
+  PluginToUIHandlers,
+  PluginToUIMessage,
+  RequestOf,
+  ResponseOf,
+  UIToPluginHandlers,
+  UIToPluginMessage,
+} from './protocol';
+
 // ============================================================================
-// MESSAGE TYPE DEFINITIONS
-// Define all possible messages between UI and Plugin here
+// UI-SIDE UTILITIES
+// Use these in your React components
 // ============================================================================
 
-/**
- * Messages sent from UI to Plugin
- */
-export type UIToPluginMessage =
-  | { type: 'CLOSE_PLUGIN' }
-  | { type: 'RESIZE_UI'; width: number; height: number }
-  | { type: 'CAPTURE_SCREENSHOT' }
-  | { type: 'GET_SELECTION' }
-  | { type: 'GET_USER_INFO' }
-  | { type: 'INSERT_FRAME'; data: Record<string, unknown> }
-  | { type: 'SHOW_NOTIFICATION'; message: string; options?: { error?: boolean } }
-  | { type: 'GET_CACHED_DATA'; key: string }
-  | { type: 'SET_CACHED_DATA'; key: string; data: unknown }
-  | { type: 'CLEAR_CACHE' }
-  // Add your custom message types here
-  | { type: 'CUSTOM_ACTION'; payload: unknown };
+type PluginRequestErrorCode = 'timeout' | 'cancelled' | 'plugin-error';
 
 /**
- * Messages sent from Plugin to UI
+ * Raised when an awaited sandbox request does not succeed.
+ * `code` says why; `response` holds the sandbox's error reply for 'plugin-error'.
  */
-export type PluginToUIMessage =
-  | { type: 'PLUGIN_READY' }
-  | { type: 'SCREENSHOT_RESULT'; base64?: string; error?: string }
-  | { type: 'SELECTION_RESULT'; nodeId?: string; nodeName?: string; nodeType?: string; error?: string }
-  | { type: 'USER_INFO'; name: string; id: string; email?: string }
-  | { type: 'FRAME_INSERTED'; success: boolean; nodeId?: string; error?: string }
-  | { type: 'CACHED_DATA'; key: string; data: unknown; exists: boolean }
-  | { type: 'CACHE_UPDATED'; key: string; success: boolean }
-  | { type: 'CACHE_CLEARED'; success: boolean }
-  // Add your custom response types here
-  | { type: 'CUSTOM_RESULT'; payload: unknown };
+export class PluginRequestError extends Error {
+  readonly code: PluginRequestErrorCode;
+  readonly requestType: UIToPluginMessage['type'];
+  readonly response?: PluginToUIMessage;
 
-/**
- * All message types (union)
- */
-export type PluginMessage = UIToPluginMessage | PluginToUIMessage;
+  constructor(
+    code: PluginRequestErrorCode,
+    requestType: UIToPluginMessage['type'],
+    message: string,
+    response?: PluginToUIMessage
+  ) {
+    super(message);
+    this.name = 'PluginRequestError';
+    this.code = code;
+    this.requestType = requestType;
+    this.response = response;
+  }
+}
 
-// ============================================================================
-// UI-SIDE UTILITIES
-// Use these in your React components
-// ============================================================================
+/** True when the request was cancelled on purpose (caller usually ignores these) */
+export function isCancelledRequest(error: unknown): boolean {
+  return error instanceof PluginRequestError && error.code === 'cancelled';
+}
+
+// Replies from the sandbox are claimed by the pending request with the same id;
+// everything else is fanned out to onPluginMessage subscribers.
+const pendingRequests = new Map<string, (message: PluginResponse) => void>();
+const subscribers = new Set<(message: PluginToUIMessage) => void>();
+let isListening = false;
+let requestCounter = 0;
+
+function ensureListening(): void {
+  if (isListening) return;
+  isListening = true;
+  window.addEventListener('message', (event: MessageEvent) => {
+    const msg = event.data?.pluginMessage as PluginResponse | undefined;
+    if (!msg || typeof msg !== 'object' || !('type' in msg)) return;
+
+    const settle = msg.requestId ? pendingRequests.get(msg.requestId) : undefined;
+    if (settle) {
+      settle(msg);
+      return;
+    }
+    subscribers.forEach((callback) => callback(msg));
+  });
+}
+
+function createRequestId(): string {
+  requestCounter += 1;
+  return `req-${Date.now().toString(36)}-${requestCounter}`;
+}
 
 /**
- * Send a message from UI to Plugin sandbox
+ * Send a message from UI to Plugin sandbox (fire-and-forget)
+ * Returns the request id stamped on the message
  * 
  * @example
- * sendToPlugin({ type: 'CAPTURE_SCREENSHOT' });
- * sendToPlugin({ type: 'RESIZE_UI', width: 400, height: 600 });
+ * sendToPlugin({ type: 'GET_COMPONENT_INFO' });
+ * sendToPlugin({ type: 'SHOW_TOAST', message: 'Saved!' });
  */
-export function sendToPlugin(message: UIToPluginMessage): void {
-  parent.postMessage({ pluginMessage: message }, '*');
+export function sendToPlugin(message: UIToPluginMessage): string {
+  const requestId = createRequestId();
+  const request: PluginRequest = { ...message, requestId };
+  parent.postMessage({ pluginMessage: request }, '*');
+  return requestId;
 }
 
 /**
  * Subscribe to messages from Plugin
+ * Replies already claimed by an awaited request are not delivered here.
  * Returns an unsubscribe function
  * 
  * @example
  * useEffect(() => {
  *   return onPluginMessage((msg) => {
- *     if (msg.type === 'SCREENSHOT_RESULT') {
- *       console.log(msg.base64);
+ *     if (msg.type === 'SCAFFOLD_SUCCESS') {
+ *       console.log(msg.count);
  *     }
  *   });
  * }, []);
@@ -79,15 +124,11 @@ export function sendToPlugin(message: UIToPluginMessage): void {
 export function onPluginMessage(
   callback: (message: PluginToUIMessage) => void
 ): () => void {
-  const handler = (event: MessageEvent) => {
-    const msg = event.data?.pluginMessage;
-    if (msg && typeof msg === 'object' && 'type' in msg) {
-      callback(msg as PluginToUIMessage);
-    }
+  ensureListening();
+  subscribers.add(callback);
+  return () => {
+    subscribers.delete(callback);
   };
-  
-  window.addEventListener('message', handler);
-  return () => window.removeEventListener('message', handler);
 }
 
 /**
@@ -95,8 +136,8 @@ export function onPluginMessage(
  * 
  * @example
  * useEffect(() => {
- *   return onPluginMessageType('SCREENSHOT_RESULT', (msg) => {
- *     setScreenshot(msg.base64);
+ *   return onPluginMessageType('SELECTED_FRAME_BRANDING_LOADED', (msg) => {
+ *     setBranding(msg.branding);
  *   });
  * }, []);
  */
@@ -111,96 +152,148 @@ export function onPluginMessageType<T extends PluginToUIMessage['type']>(
   });
 }
 
+export interface SendAndWaitOptions {
+  /** Milliseconds before rejecting with code 'timeout' (default 10s) */
+  timeout?: number;
+  /** Aborting rejects with code 'cancelled'; a late reply is then ignored */
+  signal?: AbortSignal;
+}
+
 /**
- * Promise-based message sending with response
- * Useful for request/response patterns
+ * Send a request to the sandbox and resolve with its reply.
+ * The reply is matched by request id, so concurrent requests of the same
+ * type never settle each other. Rejects with PluginRequestError.
  * 
  * @example
  * const result = await sendAndWait(
- *   { type: 'GET_USER_INFO' },
- *   'USER_INFO',
- *   5000
+ *   { type: 'REFRESH_TEMPLATE', payload: { templateId, componentKey } },
+ *   { timeout: 60000 }
  * );
- * console.log(result.name);
+ * console.log(result.preview);
  */
-export function sendAndWait<
-  TRequest extends UIToPluginMessage,
-  TResponseType extends PluginToUIMessage['type']
->(
-  request: TRequest,
-  responseType: TResponseType,
-  timeout = 10000
-): Promise<Extract<PluginToUIMessage, { type: TResponseType }>> {
+export function sendAndWait<T extends AwaitableRequestType>(
+  request: RequestOf<T>,
+  { timeout = 10000, signal }: SendAndWaitOptions = {}
+): Promise<ResponseOf<T>> {
+  const requestType = (request as UIToPluginMessage).type as T;
+  const { response: responseTypes, error: errorTypes } = REQUEST_REPLIES[requestType];
+
   return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new PluginRequestError('cancelled', requestType, `${requestType} was cancelled`));
+      return;
+    }
+
+    ensureListening();
+    const requestId = createRequestId();
+
+    const cleanup = () => {
+      clearTimeout(timeoutId);
+      pendingRequests.delete(requestId);
+      signal?.removeEventListener('abort', onAbort);
+    };
+
+    const onAbort = () => {
+      cleanup();
+      reject(new PluginRequestError('cancelled', requestType, `${requestType} was cancelled`));
+    };
+
     const timeoutId = setTimeout(() => {
-      unsubscribe();
-      reject(new Error(`Timeout waiting for ${responseType}`));
+      cleanup();
+      reject(new PluginRequestError('timeout', requestType, `Timed out waiting for ${requestType}`));
     }, timeout);
 
-    const unsubscribe = onPluginMessageType(responseType, (msg) => {
-      clearTimeout(timeoutId);
-      unsubscribe();
-      resolve(msg);
+    pendingRequests.set(requestId, (msg) => {
+      if ((responseTypes as readonly string[]).includes(msg.type)) {
+        cleanup();
+        resolve(msg as ResponseOf<T>);
+      } else if ((errorTypes as readonly string[]).includes(msg.type) || msg.type === 'REQUEST_FAILED') {
+        cleanup();
+        const error = 'error' in msg && typeof msg.error === 'string' ? msg.error : `${requestType} failed`;
+        reject(new PluginRequestError('plugin-error', requestType, error, msg));
+      }
     });
+    signal?.addEventListener('abort', onAbort);
 
-    sendToPlugin(request);
+    const message: PluginRequest = { ...request, requestId };
+    parent.postMessage({ pluginMessage: message }, '*');
   });
 }
 
-// ============================================================================
-// PLUGIN-SIDE UTILITIES
-// Use these in code.ts
-// ============================================================================
-
 /**
- * Send a message from Plugin to UI
- * (For use in code.ts)
- * 
- * @example
- * sendToUI({ type: 'SCREENSHOT_RESULT', base64: dataUrl });
+ * Runtime copy of PluginRequestMap used by sendAndWait.
+ * Typed against the map, so the two cannot drift apart.
  */
-export function sendToUI(message: PluginToUIMessage): void {
-  figma.ui.postMessage(message);
-}
+const REQUEST_REPLIES: {
+  [K in AwaitableRequestType]: {
+    response: readonly PluginRequestMap[K]['response'][];
+    error: readonly PluginRequestMap[K]['error'][];
+  };
+} = {
+  MIGRATE_FROM_CLIENT_STORAGE: { response: ['MIGRATION_DATA'], error: [] },
+  LOAD_TEMPLATES: { response: ['TEMPLATES_LOADED'], error: [] },
+  LOAD_FIGMA_LINKS: { response: ['FIGMA_LINKS_LOADED'], error: [] },
+  LOAD_CLOUD_FIGMA_LINKS: { response: ['CLOUD_FIGMA_LINKS_LOADED'], error: [] },
+  LOAD_DEFAULT_CLOUD: { response: ['DEFAULT_CLOUD_LOADED'], error: [] },
+  LOAD_ONBOARDING_STATE: { response: ['ONBOARDING_STATE_LOADED'], error: [] },
+  LOAD_CUSTOM_CLOUDS: { response: ['CUSTOM_CLOUDS_LOADED'], error: [] },
+  LOAD_EDITABLE_CLOUDS: { response: ['EDITABLE_CLOUDS_LOADED'], error: [] },
+  LOAD_HIDDEN_CLOUDS: { response: ['HIDDEN_CLOUDS_LOADED'], error: [] },
+  LOAD_CLOUD_CATEGORIES: { response: ['CLOUD_CATEGORIES_LOADED'], error: [] },
+  LOAD_STATUS_SYMBOLS: { response: ['STATUS_SYMBOLS_LOADED'], error: [] },
+  LOAD_SAVED_TEMPLATES: { response: ['SAVED_TEMPLATES_LOADED'], error: [] },
+  LOAD_CLOUD_POCS: { response: ['CLOUD_POCS_LOADED'], error: [] },
+  GET_COMPONENT_INFO: { response: ['COMPONENT_INFO'], error: ['COMPONENT_ERROR'] },
+  IMPORT_COMPONENT: { response: ['INSERT_SUCCESS'], error: ['INSERT_ERROR'] },
+  IMPORT_MULTIPLE_COMPONENTS: { response: ['INSERT_SUCCESS'], error: ['INSERT_ERROR'] },
+  TAKE_QUEUED_INSERTS: { response: ['QUEUED_INSERTS'], error: [] },
+  SWAP_SELECTED_INSTANCE: { response: ['SWAP_SUCCESS'], error: ['SWAP_ERROR'] },
+  DETACH_INSTANCE: { response: ['INSTANCE_DETACHED'], error: ['DETACH_ERROR'] },
+  RUN_USAGE_AUDIT: { response: ['USAGE_AUDIT_RESULT'], error: ['USAGE_AUDIT_ERROR'] },
+  REQUEST_VARIANT_PREVIEW: { response: ['VARIANT_PREVIEW_RESULT'], error: ['VARIANT_PREVIEW_ERROR'] },
+  GET_PREVIEW: { response: ['PREVIEW_RESULT'], error: ['PREVIEW_NOT_AVAILABLE'] },
+  REFRESH_ALL_TEMPLATES: { response: ['ALL_TEMPLATES_REFRESHED'], error: [] },
+  REFRESH_TEMPLATE: { response: ['TEMPLATE_REFRESHED'], error: ['TEMPLATE_REFRESH_ERROR'] },
+  CHECK_LIBRARY_HEALTH: { response: ['LIBRARY_HEALTH_RESULT'], error: [] },
+  PLAN_SCAFFOLD: { response: ['SCAFFOLD_PLAN'], error: ['SCAFFOLD_ERROR'] },
+  SCAFFOLD_FILE_STRUCTURE: { response: ['SCAFFOLD_SUCCESS'], error: ['SCAFFOLD_ERROR'] },
+  GENERATE_READ_ME: { response: ['READ_ME_GENERATED'], error: ['READ_ME_ERROR'] },
+  LIST_PAGES: { response: ['PAGES_LIST'], error: ['PAGES_ERROR'] },
+  SET_PAGE_STATUS: { response: ['PAGES_LIST'], error: ['PAGES_ERROR'] },
+  MOVE_PAGES_TO_SECTION: { response: ['PAGES_LIST'], error: ['PAGES_ERROR'] },
+  ARCHIVE_PAGES: { response: ['PAGES_LIST'], error: ['PAGES_ERROR'] },
+  UNARCHIVE_PAGES: { response: ['PAGES_LIST'], error: ['PAGES_ERROR'] },
+  LINT_PAGE_NAMES: { response: ['PAGE_NAMES_LINTED'], error: ['PAGE_NAMES_ERROR'] },
+  FIX_PAGE_NAMES: { response: ['PAGE_NAMES_LINTED'], error: ['PAGE_NAMES_ERROR'] },
+  CAPTURE_PAGE_STRUCTURE: { response: ['PAGE_STRUCTURE_CAPTURED'], error: [] },
+  READ_COVER: { response: ['COVER_INFO'], error: ['COVER_ERROR'] },
+  UPDATE_COVER: { response: ['COVER_INFO'], error: ['COVER_ERROR'] },
+  REFRESH_COVER: { response: ['COVER_INFO'], error: ['COVER_ERROR'] },
+  SET_COVER_THUMBNAIL: { response: ['COVER_INFO'], error: ['COVER_ERROR'] },
+  CAPTURE_TEXT_STYLE: { response: ['TEXT_STYLE_CAPTURED'], error: ['TEXT_STYLE_ERROR'] },
+  GET_SELECTED_FRAME_BRANDING: { response: ['SELECTED_FRAME_BRANDING_LOADED'], error: [] },
+  GET_FRAME_DETAILS: { response: ['FRAME_DETAILS_RESULT'], error: [] },
+  RUN_COMPLIANCE_CHECK: { response: ['COMPLIANCE_RESULT'], error: ['COMPLIANCE_ERROR'] },
+  APPLY_COMPLIANCE_FIXES: { response: ['COMPLIANCE_FIXES_APPLIED'], error: [] },
+};
 
 /**
- * Create a typed message handler for the plugin sandbox
- * (For use in code.ts)
+ * Create a typed dispatcher for Plugin -> UI messages.
+ * The registry must cover every PluginToUIMessage type.
  * 
  * @example
- * const handleMessage = createPluginMessageHandler({
- *   CAPTURE_SCREENSHOT: async () => {
- *     const bytes = await selection.exportAsync();
- *     sendToUI({ type: 'SCREENSHOT_RESULT', base64: encode(bytes) });
- *   },
- *   CLOSE_PLUGIN: () => {
- *     figma.closePlugin();
- *   },
- * });
- * 
- * figma.ui.onmessage = handleMessage;
+ * useEffect(() => onPluginMessage(createUIMessageHandler({
+ *   SCAFFOLD_PLAN: (msg) => setScaffoldPlan(msg.plan),
+ *   // ...one entry per PluginToUIMessage type
+ * })), []);
  */
-export function createPluginMessageHandler(
-  handlers: Partial<{
-    [K in UIToPluginMessage['type']]: (
-      message: Extract<UIToPluginMessage, { type: K }>
-    ) => void | Promise<void>;
-  }>
-): (message: unknown) => Promise<void> {
-  return async (rawMessage: unknown) => {
-    if (!rawMessage || typeof rawMessage !== 'object' || !('type' in rawMessage)) {
-      return;
-    }
-    
-    const message = rawMessage as UIToPluginMessage;
-    const handler = handlers[message.type];
-    
+export function createUIMessageHandler(
+  handlers: PluginToUIHandlers
+): (message: PluginToUIMessage) => void {
+  return (message: PluginToUIMessage) => {
+    const handler = handlers[message.type] as ((message: PluginToUIMessage) => void) | undefined;
     if (handler) {
-      try {
-        await handler(message as any);
-      } catch (error) {
-        console.error(`Error handling ${message.type}:`, error);
-      }
+      handler(message);
     }
   };
 }
@@ -210,16 +303,14 @@ export function createPluginMessageHandler(
 // Convenience hooks for React components
 // ============================================================================
 
-import { useEffect, useState, useCallback } from 'react';
-
 /**
  * Hook to listen for plugin messages
  * 
  * @example
  * const lastMessage = usePluginMessage();
  * useEffect(() => {
- *   if (lastMessage?.type === 'USER_INFO') {
- *     setUser(lastMessage);
+ *   if (lastMessage?.type === 'PLUGIN_READY') {
+ *     setUser(lastMessage.user);
  *   }
  * }, [lastMessage]);
  */
@@ -237,7 +328,7 @@ export function usePluginMessage(): PluginToUIMessage | null {
  * Hook to listen for a specific message type
  * 
  * @example
- * const userInfo = usePluginMessageType('USER_INFO');
+ * const branding = usePluginMessageType('SELECTED_FRAME_BRANDING_LOADED');
  */
 export function usePluginMessageType<T extends PluginToUIMessage['type']>(
   type: T
@@ -253,39 +344,56 @@ export function usePluginMessageType<T extends PluginToUIMessage['type']>(
 
 /**
  * Hook for request/response pattern
+ * Starting a new request cancels the previous one, as does unmounting.
  * 
  * @example
- * const { data, loading, error, execute } = usePluginRequest(
- *   { type: 'GET_USER_INFO' },
- *   'USER_INFO'
- * );
+ * const { data, loading, error, execute, cancel } = usePluginRequest('PLAN_SCAFFOLD');
  * 
- * useEffect(() => { execute(); }, []);
+ * useEffect(() => { execute({ type: 'PLAN_SCAFFOLD' }); }, []);
  */
-export function usePluginRequest<
-  TRequest extends UIToPluginMessage,
-  TResponseType extends PluginToUIMessage['type']
->(
-  request: TRequest,
-  responseType: TResponseType
+export function usePluginRequest<T extends AwaitableRequestType>(
+  _type: T,
+  options: Omit<SendAndWaitOptions, 'signal'> = {}
 ) {
-  const [data, setData] = useState<Extract<PluginToUIMessage, { type: TResponseType }> | null>(null);
+  const [data, setData] = useState<ResponseOf<T> | null>(null);
   const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<Error | null>(null);
+  const [error, setError] = useState<PluginRequestError | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+  const { timeout } = options;
 
-  const execute = useCallback(async () => {
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+  }, []);
+
+  const execute = useCallback(async (request: RequestOf<T>): Promise<ResponseOf<T> | null> => {
+    cancel();
+    const controller = new AbortController();
+    controllerRef.current = controller;
     setLoading(true);
     setError(null);
     try {
-      const result = await sendAndWait(request, responseType);
+      const result = await sendAndWait<T>(request, { timeout, signal: controller.signal });
       setData(result);
+      return result;
     } catch (err) {
-      setError(err instanceof Error ? err : new Error(String(err)));
+      if (!isCancelledRequest(err)) {
+        setError(
+          err instanceof PluginRequestError
+            ? err
+            : new PluginRequestError('plugin-error', (request as UIToPluginMessage).type, String(err))
+        );
+      }
+      return null;
     } finally {
-      setLoading(false);
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setLoading(false);
+      }
     }
-  }, [request, responseType]);
+  }, [cancel, timeout]);
 
-  return { data, loading, error, execute };
-}
+  useEffect(() => cancel, [cancel]);
 
+  return { data, loading, error, execute, cancel };
+}
@@ -0,0 +1,223 @@
+/**
+ * Page Naming Lint
+ *
+ * Checks each page name against the naming patterns of the page structure section it
+ * sits under ("{YYYY.MM.DD}_{Exploration Name}", "{Release} {Feature Name}"). A
+ * pattern's wording counts as free text, so "{YYYY.MM.DD}_Product Demo" accepts any
+ * dated page. Flagged pages get a fix when one is clear: extra spaces, a date or
+ * separator written differently, a missing date prefix, or a name that belongs under
+ * another section. Used by LINT_PAGE_NAMES and FIX_PAGE_NAMES.
+ *
+ * Sandbox only (uses the figma global) - import from code.ts.
+ */
+
+import { listFilePages, movePagesToSection, sectionKey } from './pages';
+import { dateTokenPattern, formatDateToken, isDateToken, isReleaseToken } from './placeholders';
+import type { FilePage, NamingConvention, NamingFix, NamingIssue } from './protocol';
+
+type ShapePart =
+  | { kind: 'date'; token: string }
+  | { kind: 'release' }
+  | { kind: 'text' }
+  | { kind: 'separator'; value: string };
+
+/** A naming pattern reduced to what a page name is checked against */
+interface Shape {
+  pattern: string;
+  parts: ShapePart[];
+  regex: RegExp;
+}
+
+interface SectionRules {
+  section: string;
+  shapes: Shape[];
+}
+
+/** A name rewritten to follow a shape, with what was wrong and the fix's label */
+interface Reshaped {
+  title: string;
+  label: string;
+  problem: string;
+}
+
+/** Release names carry a number ("262", "R12") and aren't dates */
+const RELEASE_PATTERN = '(?!\\d{8}(?!\\d)|\\d{2,4}[._/-]\\d{1,2}[._/-]\\d{1,2})[^\\s_]*\\d[^\\s_]*';
+
+/** Punctuation people put between a date or release and the rest of the name */
+const LOOSE_SEPARATOR = '[\\s._\\-–—:·•]*';
+
+// ============================================================================
+// SHAPES
+// ============================================================================
+
+function shapeParts(pattern: string): ShapePart[] {
+  const parts: ShapePart[] = [];
+  const push = (part: ShapePart) => {
+    if (part.kind === 'separator' && !part.value) return;
+    const last = parts[parts.length - 1];
+    if (part.kind === 'text' && last?.kind === 'text') return;
+    // "{Feature Name} Explorations" is one run of free text
+    if (part.kind === 'text' && last?.kind === 'separator' && !last.value.trim() && parts[parts.length - 2]?.kind === 'text') {
+      parts.pop();
+      return;
+    }
+    parts.push(part);
+  };
+
+  pattern.split(/(\{[^}]+\})/).forEach((chunk, i) => {
+    if (i % 2 === 1) {
+      const token = chunk.slice(1, -1);
+      push(isDateToken(token) ? { kind: 'date', token } : isReleaseToken(token) ? { kind: 'release' } : { kind: 'text' });
+      return;
+    }
+    chunk.split(/([\p{L}\p{N}]+(?: [\p{L}\p{N}]+)*)/u).forEach((literal, j) => {
+      push(j % 2 === 1 ? { kind: 'text' } : { kind: 'separator', value: literal });
+    });
+  });
+  return parts;
+}
+
+function partPattern(part: ShapePart): string {
+  switch (part.kind) {
+    case 'date': return dateTokenPattern(part.token);
+    case 'release': return RELEASE_PATTERN;
+    case 'text': return '[\\p{L}\\p{N}].*?';
+    default: return part.value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+}
+
+function toShape(pattern: string): Shape {
+  const parts = shapeParts(pattern);
+  return { pattern, parts, regex: new RegExp(`^${parts.map(partPattern).join('')}$`, 'u') };
+}
+
+/** Shapes with a date or release say something about where a page belongs; free text alone doesn't */
+function isDistinctive(shape: Shape): boolean {
+  return shape.parts.some((part) => part.kind === 'date' || part.kind === 'release');
+}
+
+function matchesAny(title: string, shapes: Shape[]): boolean {
+  return shapes.some((shape) => shape.regex.test(title));
+}
+
+// ============================================================================
+// FIXES
+// ============================================================================
+
+/** A leading date in any of the usual spellings ("2025-3-14 ", "20250314_"), in the token's part order */
+function parseLeadingDate(title: string, token: string): { date: Date; rest: string } | null {
+  const order: string[] = token.match(/YYYY|YY|MM|DD/g) ?? [];
+  const digits = order.map((part) => (part === 'YYYY' ? '(\\d{4})' : '(\\d{1,2})'));
+  const match = title.match(new RegExp(`^${digits.join('[\\s._/-]?')}(?!\\d)${LOOSE_SEPARATOR}(.+)$`));
+  if (!match) return null;
+
+  const value = (part: string, fallback: number) =>
+    order.includes(part) ? Number(match[order.indexOf(part) + 1]) : fallback;
+  const year = order.includes('YYYY') ? value('YYYY', 0) : 2000 + value('YY', new Date().getFullYear() % 100);
+  const month = value('MM', 1);
+  const day = value('DD', 1);
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+  return { date: new Date(year, month - 1, day), rest: match[order.length + 1] };
+}
+
+/** Rewrite the start of `title` the way `shape` writes it, if that makes it match */
+function reshape(title: string, shape: Shape): Reshaped | null {
+  const [first, second] = shape.parts;
+  const separator = second?.kind === 'separator' ? second.value : '';
+
+  if (first?.kind === 'date') {
+    const dated = parseLeadingDate(title, first.token);
+    const candidate = dated
+      ? `${formatDateToken(first.token, dated.date)}${separator}${dated.rest}`
+      : `${formatDateToken(first.token, new Date())}${separator}${title}`;
+    if (!shape.regex.test(candidate)) return null;
+    return dated
+      ? { title: candidate, label: 'Normalize separators', problem: `Date or separator isn't written as "${shape.pattern}"` }
+      : { title: candidate, label: 'Add date prefix', problem: `Missing the {${first.token}} date prefix` };
+  }
+
+  if (first?.kind === 'release' && separator) {
+    const release = title.match(new RegExp(`^(${RELEASE_PATTERN})${LOOSE_SEPARATOR}(.+)$`));
+    const candidate = release && `${release[1]}${separator}${release[2]}`;
+    if (!candidate || !shape.regex.test(candidate)) return null;
+    return { title: candidate, label: 'Normalize separators', problem: `Separator isn't written as "${shape.pattern}"` };
+  }
+
+  return null;
+}
+
+function diagnose(page: FilePage, own: SectionRules, rules: SectionRules[], sections: string[]): Omit<NamingIssue, 'pageId' | 'name' | 'section'> {
+  const prefix = page.status ?? page.unknownStatus;
+  const rename = (title: string, label: string): NamingFix => ({
+    pageId: page.id,
+    kind: 'rename',
+    label,
+    name: prefix ? `${prefix} ${title}` : title,
+  });
+
+  const tidy = page.title.replace(/\s+/g, ' ').trim();
+  if (tidy !== page.title && matchesAny(tidy, own.shapes)) {
+    return { problem: 'Has extra spaces', fix: rename(tidy, 'Normalize spacing') };
+  }
+
+  // Named like another section's pages, e.g. a dated exploration under CURRENT DESIGNS
+  const other = rules.find((section) => section !== own && matchesAny(tidy, section.shapes.filter(isDistinctive)));
+  const header = other && sections.find((section) => sectionKey(section) === sectionKey(other.section));
+  if (header) {
+    return {
+      problem: `Named like a ${header} page`,
+      fix: { pageId: page.id, kind: 'move', label: `Move under ${header}`, section: header },
+    };
+  }
+
+  for (const shape of own.shapes) {
+    const reshaped = reshape(tidy, shape);
+    if (reshaped) return { problem: reshaped.problem, fix: rename(reshaped.title, reshaped.label) };
+  }
+
+  const expected = own.shapes.map((shape) => `"${shape.pattern}"`).join(' or ');
+  return { problem: `Doesn't follow ${expected}`, fix: null };
+}
+
+// ============================================================================
+// LINT
+// ============================================================================
+
+export function lintPageNames(conventions: NamingConvention[], symbols: string[]): NamingIssue[] {
+  const rules = conventions
+    .map((convention) => ({ section: convention.section, shapes: convention.patterns.map(toShape) }))
+    .filter((section) => section.shapes.length > 0);
+  const { pages, sections } = listFilePages(symbols);
+
+  const issues: NamingIssue[] = [];
+  for (const page of pages) {
+    if (page.kind !== 'page' || !page.section) continue;
+    const section = page.section;
+    const own = rules.find((candidate) => sectionKey(candidate.section) === sectionKey(section));
+    if (!own || matchesAny(page.title, own.shapes)) continue;
+    issues.push({ pageId: page.id, name: page.name, section, ...diagnose(page, own, rules, sections) });
+  }
+  return issues;
+}
+
+/** Apply the given fixes: renames first (one undo step), then moves per section */
+export function applyNamingFixes(fixes: NamingFix[], symbols: string[]): number {
+  let count = 0;
+  for (const fix of fixes) {
+    const page = figma.root.children.find((page) => page.id === fix.pageId);
+    if (page && fix.kind === 'rename' && fix.name) {
+      page.name = fix.name;
+      count++;
+    }
+  }
+  figma.commitUndo();
+
+  const moves = new Map<string, string[]>();
+  for (const fix of fixes) {
+    if (fix.kind === 'move' && fix.section) moves.set(fix.section, [...(moves.get(fix.section) ?? []), fix.pageId]);
+  }
+  moves.forEach((pageIds, section) => {
+    count += movePagesToSection(pageIds, section, symbols);
+  });
+  return count;
+}
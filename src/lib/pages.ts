@@ -0,0 +1,296 @@
+/**
+ * File Pages
+ *
+ * Reads the current file's pages the way the page structure lays them out: status
+ * prefix (from the team's status symbols), section header and divider pages. Also
+ * rewrites status prefixes, moves pages between sections and archives pages, one undo
+ * step per change. Used by the Pages view (LIST_PAGES, SET_PAGE_STATUS,
+ * MOVE_PAGES_TO_SECTION, ARCHIVE_PAGES, UNARCHIVE_PAGES). Also reads the file's
+ * layout back as page structure sections (CAPTURE_PAGE_STRUCTURE).
+ *
+ * Sandbox only (uses the figma global) - import from code.ts.
+ */
+
+import {
+  dateTokenPattern,
+  findPlaceholderTokens,
+  formatDateToken,
+  isDateToken,
+  resolvePlaceholders,
+} from './placeholders';
+import type { CapturedSection, FilePage, FilePagesReport } from './protocol';
+import { PROVENANCE_NAMESPACE } from './provenance';
+import { isDivider, placeAfter } from './scaffold';
+
+/** Page plugin data: the name and section a page had before it was archived */
+const ARCHIVED_FROM_KEY = 'archived_from';
+
+interface ParsedName {
+  status: string | null;
+  unknownStatus: string | null;
+  title: string;
+}
+
+interface ArchivedFrom {
+  name: string;
+  section: string | null;
+}
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+/** Split "🟢 Checkout" into its status symbol and title */
+function parseName(name: string, symbols: string[]): ParsedName {
+  const status = symbols.find((symbol) => symbol && name.startsWith(`${symbol} `));
+  if (status) return { status, unknownStatus: null, title: name.slice(status.length).trim() };
+
+  // A leading word made only of symbols ("🔵 Checkout") is a status the team doesn't use
+  const prefix = name.match(/^(\S+)\s+(.+)$/);
+  if (prefix && !isDivider(prefix[1]) && !/[\p{L}\p{N}{}[\]()_]/u.test(prefix[1])) {
+    return { status: null, unknownStatus: prefix[1], title: prefix[2] };
+  }
+  return { status: null, unknownStatus: null, title: name };
+}
+
+/** Section headers are written in capitals, e.g. "ARCHIVED EXPLORATIONS" */
+function isSectionHeader(parsed: ParsedName): boolean {
+  const { title } = parsed;
+  return !parsed.status && !parsed.unknownStatus && /\p{Lu}/u.test(title) && title === title.toUpperCase();
+}
+
+/** "CURRENT DESIGNS" and "Current Designs" are the same section */
+export function sectionKey(name: string): string {
+  return name.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+}
+
+export function listFilePages(symbols: string[]): FilePagesReport {
+  const pages: FilePage[] = [];
+  const sections: string[] = [];
+  let section: string | null = null;
+
+  for (const page of figma.root.children) {
+    const parsed = parseName(page.name, symbols);
+    const kind = isDivider(page.name) ? 'divider' : isSectionHeader(parsed) ? 'section' : 'page';
+    if (kind === 'section') {
+      section = page.name;
+      sections.push(page.name);
+    }
+    pages.push({
+      id: page.id,
+      name: page.name,
+      title: parsed.title,
+      kind,
+      status: parsed.status,
+      unknownStatus: parsed.unknownStatus,
+      section: kind === 'page' ? section : null,
+      current: page === figma.currentPage,
+    });
+  }
+
+  return { pages, sections };
+}
+
+// ============================================================================
+// CHANGES
+// ============================================================================
+
+/** Content pages among `pageIds`, in file order; headers and dividers are left alone */
+function contentPages(pageIds: string[], symbols: string[]): PageNode[] {
+  const ids = new Set(pageIds);
+  const { pages } = listFilePages(symbols);
+  const contentIds = new Set(pages.filter((page) => page.kind === 'page').map((page) => page.id));
+  return figma.root.children.filter((page) => ids.has(page.id) && contentIds.has(page.id));
+}
+
+/** Rewrite the status prefix of the given pages; `status` null removes it */
+export function setPageStatus(pageIds: string[], status: string | null, symbols: string[]): number {
+  const pages = contentPages(pageIds, symbols);
+  for (const page of pages) {
+    const { title } = parseName(page.name, symbols);
+    page.name = status ? `${status} ${title}` : title;
+  }
+  figma.commitUndo();
+  return pages.length;
+}
+
+/** Move the given pages to the end of `section`, keeping their order */
+export function movePagesToSection(pageIds: string[], section: string, symbols: string[]): number {
+  const moving = contentPages(pageIds, symbols);
+  const movingIds = new Set(moving.map((page) => page.id));
+  const { pages } = listFilePages(symbols);
+
+  const headerIndex = pages.findIndex((page) => page.kind === 'section' && page.name === section);
+  if (headerIndex === -1) throw new Error(`Section "${section}" is no longer in this file.`);
+
+  // Section ends at the next header or divider; new pages go after its last remaining one
+  let anchor = figma.root.children[headerIndex];
+  for (let i = headerIndex + 1; i < pages.length && pages[i].kind === 'page'; i++) {
+    if (!movingIds.has(pages[i].id)) anchor = figma.root.children[i];
+  }
+
+  for (const page of moving) {
+    placeAfter(page, anchor);
+    anchor = page;
+  }
+  figma.commitUndo();
+  return moving.length;
+}
+
+// ============================================================================
+// ARCHIVE
+// ============================================================================
+
+/** The file's header for `section`, however the file spells it */
+function findSection(section: string, symbols: string[]): string | null {
+  return listFilePages(symbols).sections.find((header) => sectionKey(header) === sectionKey(section)) ?? null;
+}
+
+/** `title` without a leading date, in `pattern`'s date format or a year-first one ("2025-01-02") */
+function stripDate(title: string, pattern: string): string {
+  const token = findPlaceholderTokens([pattern]).find(isDateToken);
+  const formats = ['\\d{4}[._/-]?\\d{1,2}[._/-]?\\d{1,2}', ...(token ? [dateTokenPattern(token)] : [])];
+  return title.replace(new RegExp(`^(?:${formats.join('|')})(?!\\d)[\\s._\\-–—:·•]*`), '');
+}
+
+/** `pattern` ("{YYYY.MM.DD}_{Exploration Name}") filled with `date` and the page's title */
+function archivedTitle(pattern: string, title: string, date: Date): string {
+  const values: Record<string, string> = {};
+  let titled = false;
+  for (const token of findPlaceholderTokens([pattern])) {
+    if (isDateToken(token)) {
+      values[token] = formatDateToken(token, date);
+    } else if (!titled) {
+      values[token] = title;
+      titled = true;
+    }
+  }
+  return titled ? resolvePlaceholders(pattern, values) : `${resolvePlaceholders(pattern, values)}${title}`;
+}
+
+/**
+ * Rename the given pages to the archive naming, dated today, with `status` (null
+ * removes it) and move them to the end of the archive section. The previous name and
+ * section are kept on the page for unarchivePages. Pages already there are skipped.
+ */
+export function archivePages(
+  pageIds: string[],
+  section: string,
+  pattern: string,
+  status: string | null,
+  symbols: string[]
+): number {
+  const header = findSection(section, symbols);
+  if (!header) throw new Error(`This file has no "${section}" section. Apply the page structure first.`);
+
+  const { pages } = listFilePages(symbols);
+  const date = new Date();
+  const archiving: string[] = [];
+  for (const page of contentPages(pageIds, symbols)) {
+    const listed = pages.find((entry) => entry.id === page.id) as FilePage;
+    if (listed.section === header) continue;
+    const origin: ArchivedFrom = { name: page.name, section: listed.section };
+    page.setSharedPluginData(PROVENANCE_NAMESPACE, ARCHIVED_FROM_KEY, JSON.stringify(origin));
+    const title = archivedTitle(pattern, stripDate(listed.title, pattern), date);
+    page.name = status ? `${status} ${title}` : title;
+    archiving.push(page.id);
+  }
+  // The renames land in the same undo step as the move
+  return archiving.length > 0 ? movePagesToSection(archiving, header, symbols) : 0;
+}
+
+function readArchivedFrom(page: PageNode): ArchivedFrom | null {
+  const stored = page.getSharedPluginData(PROVENANCE_NAMESPACE, ARCHIVED_FROM_KEY);
+  if (!stored) return null;
+  try {
+    return JSON.parse(stored) as ArchivedFrom;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Bring archived pages back: pages archived by the plugin get their old name and
+ * section back; others lose the archive date and go to `fallbackSection`.
+ */
+export function unarchivePages(
+  pageIds: string[],
+  fallbackSection: string | null,
+  pattern: string,
+  symbols: string[]
+): number {
+  const { pages, sections } = listFilePages(symbols);
+  const fallback = fallbackSection ? findSection(fallbackSection, symbols) : null;
+  const destinations = new Map<string, string[]>();
+  const restored = contentPages(pageIds, symbols);
+
+  for (const page of restored) {
+    const origin = readArchivedFrom(page);
+    let destination = fallback;
+    if (origin) {
+      page.name = origin.name;
+      if (origin.section && sections.includes(origin.section)) destination = origin.section;
+    } else {
+      const listed = pages.find((entry) => entry.id === page.id) as FilePage;
+      const prefix = listed.status ?? listed.unknownStatus;
+      const title = stripDate(listed.title, pattern);
+      page.name = prefix ? `${prefix} ${title}` : title;
+    }
+    page.setSharedPluginData(PROVENANCE_NAMESPACE, ARCHIVED_FROM_KEY, '');
+    if (destination) destinations.set(destination, [...(destinations.get(destination) ?? []), page.id]);
+  }
+
+  if (destinations.size === 0) figma.commitUndo();
+  destinations.forEach((ids, section) => {
+    movePagesToSection(ids, section, symbols);
+  });
+  return restored.length;
+}
+
+// ============================================================================
+// STRUCTURE
+// ============================================================================
+
+/** A leading "2025.03.14" or known release becomes its placeholder, so the page reads as an example */
+function asPlaceholderName(title: string, releases: string[]): string {
+  const date = title.match(/^\d{4}([._/-]?)\d{2}\1\d{2}(?!\d)/);
+  if (date) return `{YYYY${date[1]}MM${date[1]}DD}${title.slice(date[0].length)}`;
+  const release = releases.find((name) => title === name || title.startsWith(`${name} `));
+  return release ? `{Release}${title.slice(release.length)}` : title;
+}
+
+/**
+ * The file's pages as page structure sections: each divider or header starts a
+ * section, named by its header. A section with no header is named "UNTITLED SECTION"
+ * for the editor to clean up; the pages above the first one stay unnamed.
+ */
+export function captureFileStructure(symbols: string[], releases: string[]): CapturedSection[] {
+  const { pages } = listFilePages(symbols);
+  const sections: CapturedSection[] = [{ name: '', pages: [] }];
+  let current = sections[0];
+  const startSection = () => {
+    current = { name: '', pages: [] };
+    sections.push(current);
+  };
+
+  pages.forEach((page, i) => {
+    if (page.kind === 'divider') {
+      startSection();
+    } else if (page.kind === 'section') {
+      if (current.name || current.pages.length > 0) startSection();
+      current.name = page.name;
+    } else {
+      current.pages.push({
+        name: asPlaceholderName(page.title, releases),
+        // Statuses the team doesn't use are kept; the editor shows them as they are
+        status: page.status ?? page.unknownStatus,
+        // The first page is the cover, which the scaffold renames rather than adds
+        isRename: i === 0,
+      });
+    }
+  });
+
+  return sections
+    .map((section, i) => (i > 0 && !section.name ? { ...section, name: 'UNTITLED SECTION' } : section))
+    .filter((section, i) => section.pages.length > 0 || (i > 0 && section.name !== 'UNTITLED SECTION'));
+}
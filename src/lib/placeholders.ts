@@ -0,0 +1,70 @@
+/**
+ * Page Name Placeholders
+ *
+ * Page structures name example pages with tokens like "{Release} {Feature Name}" or
+ * "{YYYY.MM.DD}_Product Demo". The scaffold flow asks for a value per token and
+ * substitutes them before pages are created; date tokens default to today, written
+ * in the token's own format.
+ *
+ * Pure string helpers - safe to import from both the UI and code.ts.
+ */
+
+const TOKEN_PATTERN = /\{([^}]+)\}/g;
+
+/** Date parts a date token is built from, longest first so YYYY wins over YY */
+const DATE_PARTS = /YYYY|YY|MM|DD/g;
+
+/** Whether `name` still contains a placeholder */
+export function hasPlaceholders(name: string): boolean {
+  return /\{[^}]+\}/.test(name);
+}
+
+/** Distinct tokens (without braces) across `names`, in first-seen order */
+export function findPlaceholderTokens(names: string[]): string[] {
+  const tokens = new Set<string>();
+  for (const name of names) {
+    for (const placeholder of name.match(TOKEN_PATTERN) ?? []) tokens.add(placeholder.slice(1, -1));
+  }
+  return [...tokens];
+}
+
+/** "YYYY.MM.DD", "YY-MM" and the like; anything with other letters is a free-text token */
+export function isDateToken(token: string): boolean {
+  return /YYYY|YY|MM|DD/.test(token) && token.replace(DATE_PARTS, '').replace(/[._\-/ ]/g, '') === '';
+}
+
+/** The release token is filled from the cloud's release list */
+export function isReleaseToken(token: string): boolean {
+  return token.trim().toLowerCase() === 'release';
+}
+
+/** `date` written in the token's format, e.g. "YYYY.MM.DD" -> "2025.03.14" */
+export function formatDateToken(token: string, date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return token.replace(DATE_PARTS, (part) => {
+    switch (part) {
+      case 'YYYY': return String(date.getFullYear());
+      case 'YY': return String(date.getFullYear()).slice(-2);
+      case 'MM': return pad(date.getMonth() + 1);
+      default: return pad(date.getDate());
+    }
+  });
+}
+
+/** Regex source for a value written in the token's format, e.g. "YYYY.MM.DD" -> \d{4}\.\d{2}\.\d{2} */
+export function dateTokenPattern(token: string): string {
+  return token
+    .split(/(YYYY|YY|MM|DD)/)
+    .map((part) => (part === 'YYYY' ? '\\d{4}' : /^(YY|MM|DD)$/.test(part) ? '\\d{2}' : part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')))
+    .join('');
+}
+
+/** Value a token starts with before the user types anything */
+export function defaultTokenValue(token: string, today = new Date()): string {
+  return isDateToken(token) ? formatDateToken(token, today) : '';
+}
+
+/** Substitute filled-in tokens; tokens without a value stay as written */
+export function resolvePlaceholders(name: string, values: Record<string, string>): string {
+  return name.replace(TOKEN_PATTERN, (placeholder, token: string) => values[token]?.trim() || placeholder);
+}
@@ -0,0 +1,238 @@
+/**
+ * Insert Placement
+ *
+ * Positions freshly created instances according to the user's placement mode.
+ * Used by IMPORT_COMPONENT and IMPORT_MULTIPLE_COMPONENTS so single and multi-slide
+ * inserts land the same way.
+ *
+ * Sandbox only (uses the figma global) - import from code.ts. The exception is
+ * DEFAULT_INSERT_PLACEMENT, which the UI imports as its default too so the two can't
+ * drift apart; nothing here touches figma at import time.
+ */
+
+import type { InsertPlacement } from './protocol';
+
+// ============================================================================
+// DEFAULTS
+// ============================================================================
+
+/** Placement used until the user picks one (UI and sandbox) */
+export const DEFAULT_INSERT_PLACEMENT: InsertPlacement = {
+  mode: 'viewport',
+  columns: 3,
+  gap: 201,
+};
+
+/** Padding between a wrapping Section and its contents */
+const SECTION_PADDING = 100;
+
+export function resolvePlacement(placement?: Partial<InsertPlacement> | null): InsertPlacement {
+  return {
+    mode: placement?.mode ?? DEFAULT_INSERT_PLACEMENT.mode,
+    columns: Math.max(1, Math.round(placement?.columns ?? DEFAULT_INSERT_PLACEMENT.columns)),
+    gap: Math.max(0, placement?.gap ?? DEFAULT_INSERT_PLACEMENT.gap),
+  };
+}
+
+export interface PlacementResult {
+  /** The mode actually used (falls back to 'viewport' when the selection doesn't fit) */
+  mode: InsertPlacement['mode'];
+  /** Nodes to select and zoom to */
+  nodes: SceneNode[];
+}
+
+// ============================================================================
+// LAYOUT
+// ============================================================================
+
+interface Box {
+  width: number;
+  height: number;
+}
+
+/**
+ * Offsets for nodes laid out in rows of `columns`, each cell sized to the largest node.
+ * Returns the offsets and the overall size of the block.
+ */
+function layoutBlock(
+  nodes: Box[],
+  columns: number,
+  gap: number
+): { offsets: { x: number; y: number }[]; width: number; height: number } {
+  const cols = Math.min(columns, nodes.length);
+  const cellWidth = Math.max(...nodes.map((node) => node.width));
+  const cellHeight = Math.max(...nodes.map((node) => node.height));
+  const rows = Math.ceil(nodes.length / cols);
+
+  // A single row keeps each node's own width, matching the original side-by-side insert
+  if (rows === 1) {
+    let x = 0;
+    const offsets = nodes.map((node) => {
+      const offset = { x, y: 0 };
+      x += node.width + gap;
+      return offset;
+    });
+    return { offsets, width: x - gap, height: cellHeight };
+  }
+
+  const offsets = nodes.map((_node, index) => ({
+    x: (index % cols) * (cellWidth + gap),
+    y: Math.floor(index / cols) * (cellHeight + gap),
+  }));
+  return {
+    offsets,
+    width: cols * cellWidth + (cols - 1) * gap,
+    height: rows * cellHeight + (rows - 1) * gap,
+  };
+}
+
+/** Move nodes into a block whose top-left corner is (originX, originY) */
+function placeBlock(
+  nodes: SceneNode[],
+  originX: number,
+  originY: number,
+  columns: number,
+  gap: number
+): void {
+  const { offsets } = layoutBlock(nodes, columns, gap);
+  nodes.forEach((node, index) => {
+    node.x = originX + offsets[index].x;
+    node.y = originY + offsets[index].y;
+  });
+}
+
+/** Center a block of nodes on the viewport */
+function placeAtViewportCenter(nodes: SceneNode[], columns: number, gap: number): void {
+  const { width, height } = layoutBlock(nodes, columns, gap);
+  const center = figma.viewport.center;
+  placeBlock(nodes, center.x - width / 2, center.y - height / 2, columns, gap);
+}
+
+// ============================================================================
+// TARGETS
+// ============================================================================
+
+function hasAutoLayout(node: BaseNode | null): node is FrameNode | ComponentNode {
+  return (
+    !!node &&
+    (node.type === 'FRAME' || node.type === 'COMPONENT') &&
+    node.layoutMode !== 'NONE'
+  );
+}
+
+/** Layers inside an instance can't take new children */
+function isInsideInstance(node: BaseNode): boolean {
+  for (let current = node.parent; current; current = current.parent) {
+    if (current.type === 'INSTANCE') return true;
+  }
+  return false;
+}
+
+/**
+ * The auto-layout frame to append into: the selected frame itself, or the parent of
+ * the selected node (in which case new nodes go right after the selection). Frames
+ * inside an instance are skipped, so placement falls back to the viewport.
+ */
+function findAutoLayoutTarget(
+  selection: readonly SceneNode[]
+): { frame: FrameNode | ComponentNode; index: number } | null {
+  const selected = selection[0];
+  if (!selected) return null;
+  if (hasAutoLayout(selected) && !isInsideInstance(selected)) {
+    return { frame: selected, index: selected.children.length };
+  }
+  const parent = selected.parent;
+  if (hasAutoLayout(parent) && !isInsideInstance(parent)) {
+    return { frame: parent, index: parent.children.indexOf(selected) + 1 };
+  }
+  return null;
+}
+
+/** Bounding box of the selection in absolute coordinates */
+function selectionBounds(
+  selection: readonly SceneNode[]
+): { x: number; y: number; width: number; height: number } | null {
+  const boxes = selection
+    .map((node) => node.absoluteBoundingBox)
+    .filter((box): box is Rect => !!box);
+  if (boxes.length === 0) return null;
+  const left = Math.min(...boxes.map((box) => box.x));
+  const top = Math.min(...boxes.map((box) => box.y));
+  const right = Math.max(...boxes.map((box) => box.x + box.width));
+  const bottom = Math.max(...boxes.map((box) => box.y + box.height));
+  return { x: left, y: top, width: right - left, height: bottom - top };
+}
+
+// ============================================================================
+// PLACEMENT
+// ============================================================================
+
+/**
+ * Place newly created instances (already on the current page) and return what to
+ * select. `label` names the Section or page created by the 'section' and 'new-page' modes.
+ */
+export async function placeInstances(
+  instances: InstanceNode[],
+  placement: InsertPlacement,
+  label: string
+): Promise<PlacementResult> {
+  const { mode, columns, gap } = placement;
+  // Only 'grid' wraps; every other mode keeps multi-slide inserts in a single row
+  const blockColumns = mode === 'grid' ? columns : instances.length;
+  const selection = figma.currentPage.selection;
+
+  switch (mode) {
+    case 'auto-layout': {
+      const target = findAutoLayoutTarget(selection);
+      if (!target) break;
+      instances.forEach((instance, offset) => {
+        target.frame.insertChild(target.index + offset, instance);
+      });
+      return { mode, nodes: instances };
+    }
+
+    case 'next-to-selection': {
+      const bounds = selectionBounds(selection);
+      if (!bounds) break;
+      placeBlock(instances, bounds.x + bounds.width + gap, bounds.y, blockColumns, gap);
+      return { mode, nodes: instances };
+    }
+
+    case 'section': {
+      const { width, height } = layoutBlock(instances, blockColumns, gap);
+      const center = figma.viewport.center;
+      const section = figma.createSection();
+      section.name = label;
+      section.x = center.x - width / 2 - SECTION_PADDING;
+      section.y = center.y - height / 2 - SECTION_PADDING;
+      section.resizeWithoutConstraints(width + SECTION_PADDING * 2, height + SECTION_PADDING * 2);
+      for (const instance of instances) {
+        section.appendChild(instance);
+      }
+      placeBlock(instances, SECTION_PADDING, SECTION_PADDING, blockColumns, gap);
+      return { mode, nodes: [section] };
+    }
+
+    case 'grid': {
+      placeAtViewportCenter(instances, blockColumns, gap);
+      return { mode, nodes: instances };
+    }
+
+    case 'new-page': {
+      const page = figma.createPage();
+      page.name = label;
+      for (const instance of instances) {
+        page.appendChild(instance);
+      }
+      placeBlock(instances, 0, 0, blockColumns, gap);
+      await figma.setCurrentPageAsync(page);
+      return { mode, nodes: instances };
+    }
+
+    case 'viewport':
+      break;
+  }
+
+  placeAtViewportCenter(instances, blockColumns, gap);
+  return { mode: 'viewport', nodes: instances };
+}
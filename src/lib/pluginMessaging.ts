@@ -0,0 +1,69 @@
+/**
+ * Plugin-Side Messaging Utilities
+ *
+ * Sandbox counterpart of messaging.ts, for use in code.ts only.
+ * Kept separate so the sandbox bundle never pulls in React.
+ */
+
+import type {
+  PluginRequest,
+  PluginToUIMessage,
+  ReplyFn,
+  UIToPluginHandlers,
+  UIToPluginMessage,
+} from './protocol';
+
+/**
+ * Send a message from Plugin to UI
+ *
+ * @example
+ * sendToUI({ type: 'SCAFFOLD_SUCCESS', count: 3 });
+ */
+export function sendToUI(message: PluginToUIMessage): void {
+  figma.ui.postMessage(message);
+}
+
+/**
+ * Create a typed message handler for the plugin sandbox.
+ * The registry must cover every UI -> Plugin message.
+ *
+ * Each handler gets a `reply` that echoes the request id back to the UI, so
+ * concurrent requests of the same type resolve the right promise. If a handler
+ * throws, the UI receives REQUEST_FAILED instead of waiting for a timeout.
+ *
+ * @example
+ * figma.ui.onmessage = createPluginMessageHandler({
+ *   PLAN_SCAFFOLD: async (msg, reply) => reply({ type: 'SCAFFOLD_PLAN', plan: await planScaffold(DEFAULT_SCAFFOLD_PAGES) }),
+ *   // ...one entry per UIToPluginMessage type
+ * });
+ */
+export function createPluginMessageHandler(
+  handlers: UIToPluginHandlers
+): (message: unknown) => Promise<void> {
+  return async (rawMessage: unknown) => {
+    if (!rawMessage || typeof rawMessage !== 'object' || !('type' in rawMessage)) {
+      return;
+    }
+
+    const message = rawMessage as PluginRequest;
+    const { requestId } = message;
+    const reply: ReplyFn = (response) => {
+      figma.ui.postMessage(requestId ? { ...response, requestId } : response);
+    };
+    const handler = handlers[message.type] as
+      | ((message: UIToPluginMessage, reply: ReplyFn) => void | Promise<void>)
+      | undefined;
+
+    if (!handler) {
+      console.warn(`Unhandled plugin message: ${message.type}`);
+      return;
+    }
+
+    try {
+      await handler(message, reply);
+    } catch (error) {
+      console.error(`Error handling ${message.type}:`, error);
+      reply({ type: 'REQUEST_FAILED', requestType: message.type, error: String(error) });
+    }
+  };
+}
@@ -0,0 +1,126 @@
+/**
+ * Component Properties
+ *
+ * Records a template's TEXT, BOOLEAN and INSTANCE_SWAP component properties at capture
+ * (variants are covered by the variant list), and applies the values a designer filled
+ * in before insert with setProperties. Instance swaps travel as component keys, since
+ * node ids of library components differ per file.
+ *
+ * Sandbox only (uses the figma global) - import from code.ts.
+ */
+
+import type { ComponentPropertyInfo, ComponentPropertyValues } from './protocol';
+
+type SwapOption = { key: string; name: string };
+
+// ============================================================================
+// CAPTURE
+// ============================================================================
+
+/** "Title#12:3" -> "Title" */
+export function propertyLabel(name: string): string {
+  return name.split('#')[0];
+}
+
+/** The component or set a node's property definitions live on (variants can't be read directly) */
+function definitionSource(node: ComponentSetNode | ComponentNode): ComponentSetNode | ComponentNode {
+  return node.type === 'COMPONENT' && node.parent?.type === 'COMPONENT_SET' ? node.parent : node;
+}
+
+async function swapOption(nodeId: string): Promise<SwapOption | null> {
+  const node = await figma.getNodeByIdAsync(nodeId);
+  return node?.type === 'COMPONENT' ? { key: node.key, name: node.name } : null;
+}
+
+/** Preferred values, plus the default; a preferred set stands for its first variant */
+async function swapOptions(
+  definition: ComponentPropertyDefinitions[string],
+  fallback: SwapOption | null
+): Promise<SwapOption[]> {
+  const options: SwapOption[] = fallback ? [fallback] : [];
+  for (const preferred of definition.preferredValues ?? []) {
+    try {
+      if (preferred.type === 'COMPONENT') {
+        const component = await figma.importComponentByKeyAsync(preferred.key);
+        options.push({ key: component.key, name: component.name });
+      } else {
+        const set = await figma.importComponentSetByKeyAsync(preferred.key);
+        const first = set.children.find((child): child is ComponentNode => child.type === 'COMPONENT');
+        if (first) options.push({ key: first.key, name: set.name });
+      }
+    } catch {
+      // Unpublished or deleted preferred values are left out
+    }
+  }
+  return options.filter((option, index) => options.findIndex((o) => o.key === option.key) === index);
+}
+
+/** TEXT, BOOLEAN and INSTANCE_SWAP properties, in definition order */
+export async function captureProperties(node: ComponentSetNode | ComponentNode): Promise<ComponentPropertyInfo[]> {
+  const properties: ComponentPropertyInfo[] = [];
+  for (const [name, definition] of Object.entries(definitionSource(node).componentPropertyDefinitions)) {
+    const label = propertyLabel(name);
+    if (definition.type === 'TEXT' || definition.type === 'BOOLEAN') {
+      properties.push({ name, label, type: definition.type, defaultValue: definition.defaultValue });
+    } else if (definition.type === 'INSTANCE_SWAP') {
+      const fallback = await swapOption(String(definition.defaultValue));
+      properties.push({
+        name,
+        label,
+        type: 'INSTANCE_SWAP',
+        defaultValue: fallback?.key ?? '',
+        options: await swapOptions(definition, fallback),
+      });
+    }
+  }
+  return properties;
+}
+
+// ============================================================================
+// APPLY
+// ============================================================================
+
+/** Text properties can only change once the fonts of the text they drive are loaded */
+export async function loadInstanceFonts(instance: InstanceNode): Promise<void> {
+  const fonts = new Map<string, FontName>();
+  for (const text of instance.findAllWithCriteria({ types: ['TEXT'] })) {
+    if (text.hasMissingFont) continue;
+    const names = text.characters.length > 0
+      ? text.getRangeAllFontNames(0, text.characters.length)
+      : [text.fontName as FontName];
+    for (const font of names) fonts.set(`${font.family}/${font.style}`, font);
+  }
+  await Promise.all([...fonts.values()].map((font) => figma.loadFontAsync(font)));
+}
+
+/**
+ * Set `values` on a freshly inserted instance. Properties the component no longer has,
+ * and swap components that won't import, are skipped, so a template captured before a
+ * library change still inserts.
+ * Returns how many were set.
+ */
+export async function applyProperties(instance: InstanceNode, values: ComponentPropertyValues): Promise<number> {
+  const current = instance.componentProperties;
+  const updates: Record<string, string | boolean> = {};
+  for (const [name, value] of Object.entries(values)) {
+    const property = current[name];
+    if (!property) continue;
+    if (property.type === 'INSTANCE_SWAP') {
+      if (typeof value !== 'string' || !value) continue;
+      try {
+        const component = await figma.importComponentByKeyAsync(value);
+        updates[name] = component.id;
+      } catch {
+        // An unpublished swap component keeps the default rather than failing the insert
+      }
+    } else if (property.type === 'TEXT' || property.type === 'BOOLEAN') {
+      updates[name] = value;
+    }
+  }
+
+  const names = Object.keys(updates);
+  if (names.length === 0) return 0;
+  if (names.some((name) => current[name].type === 'TEXT')) await loadInstanceFonts(instance);
+  instance.setProperties(updates);
+  return names.length;
+}
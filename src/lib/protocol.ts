@@ -0,0 +1,903 @@
+/**
+ * Plugin Message Protocol
+ *
+ * Every message exchanged between the UI (App.tsx) and the plugin sandbox (code.ts).
+ * Both sides dispatch through a handler registry typed from these unions, so adding a
+ * message here without handling it on the receiving side fails typechecking.
+ *
+ * This file is types only - it is safe to import from code.ts and from the UI.
+ */
+
+// ============================================================================
+// SHARED SHAPES
+// ============================================================================
+
+export interface FigmaUser {
+  id: string | null;
+  name: string;
+  photoUrl: string | null;
+}
+
+export interface TemplateSize {
+  width: number;
+  height: number;
+}
+
+/** A single variant of a captured component set */
+export interface VariantInfo {
+  name: string;
+  displayName: string;
+  key: string;
+  preview: string | null;
+  /** Full-size rendition, only present when the capture asked for one */
+  fullPreview?: string | null;
+  /** Axis name -> value, e.g. { Slides: 'Title', Theme: 'Dark' } */
+  properties?: Record<string, string>;
+  orderIndex?: number;
+}
+
+/** One variant property of a component set, options in the order defined in Figma */
+export interface VariantAxis {
+  name: string;
+  options: string[];
+}
+
+export type RenditionFormat = 'PNG' | 'JPG' | 'SVG';
+
+/**
+ * How a preview image is exported. `width` constrains the output width;
+ * otherwise `scale` is used (SVG ignores both).
+ */
+export interface RenditionOptions {
+  format: RenditionFormat;
+  width?: number;
+  scale?: number;
+}
+
+export interface CaptureOptions {
+  /** Card preview for the component or set */
+  thumbnail: RenditionOptions;
+  /** Grid preview for each variant of a set */
+  variantThumbnail: RenditionOptions;
+  /** Optional large rendition (popover, exports); null skips it */
+  full: RenditionOptions | null;
+}
+
+/** A text, boolean or instance-swap property a designer can fill in before insert */
+export interface ComponentPropertyInfo {
+  /** Full property name, as setProperties takes it ("Title#12:3") */
+  name: string;
+  label: string;
+  type: 'TEXT' | 'BOOLEAN' | 'INSTANCE_SWAP';
+  /** Text, boolean, or the key of the default swap component */
+  defaultValue: string | boolean;
+  /** Instance swap only: the default and the preferred values */
+  options?: { key: string; name: string }[];
+}
+
+/** Values to set on insert, by full property name; instance swaps are component keys */
+export type ComponentPropertyValues = Record<string, string | boolean>;
+
+/** Everything the plugin records about a library component */
+export interface CapturedComponent {
+  name: string;
+  key: string;
+  id: string;
+  width: number;
+  height: number;
+  preview: string | null;
+  fullPreview?: string | null;
+  isComponentSet: boolean;
+  variants?: VariantInfo[];
+  variantCount?: number;
+  variantAxes?: VariantAxis[];
+  properties?: ComponentPropertyInfo[];
+}
+
+/** Preview/variant data returned when a template is refreshed from the library */
+export interface RefreshedTemplate {
+  id: string;
+  /** Current name of the source component (set) */
+  name?: string;
+  preview?: string;
+  size: TemplateSize;
+  variants?: VariantInfo[];
+  variantCount?: number;
+  variantAxes?: VariantAxis[];
+  properties?: ComponentPropertyInfo[];
+}
+
+/** Template fields the sandbox needs to refresh a template */
+export interface TemplateRef {
+  id: string;
+  componentKey: string;
+  isComponentSet?: boolean;
+}
+
+/** Template fields the sandbox needs to check a template against the library */
+export interface HealthTemplateRef extends TemplateRef {
+  name: string;
+  /** Source component name recorded at capture/refresh (absent on older templates) */
+  sourceName?: string;
+  size: TemplateSize;
+  variants?: { key: string; displayName: string }[];
+}
+
+/**
+ * - healthy: component imports and matches the template record
+ * - changed: component was renamed or resized, or some variants are gone
+ * - broken: component can't be imported (unpublished or deleted)
+ */
+export type TemplateHealthStatus = 'healthy' | 'changed' | 'broken';
+
+export interface TemplateHealthIssue {
+  kind: 'broken' | 'renamed' | 'resized' | 'variants-missing';
+  message: string;
+}
+
+/** Result of the last library health check, persisted on the template record */
+export interface TemplateHealth {
+  status: TemplateHealthStatus;
+  issues: TemplateHealthIssue[];
+  /** ISO timestamp */
+  checkedAt: string;
+}
+
+export interface TemplateHealthResult extends TemplateHealth {
+  templateId: string;
+  /** Current source component name (when the component could be imported) */
+  currentName?: string;
+}
+
+/**
+ * Provenance stamped on every instance the plugin inserts (as shared plugin data),
+ * so Starter Kit content can be found again after it is duplicated or moved.
+ */
+export interface InstanceProvenance {
+  templateId: string;
+  cloudId: string | null;
+  /** Key of the component (or variant) the instance was created from */
+  variantKey: string;
+  insertedBy: string | null;
+  insertedById: string | null;
+  /** ISO timestamp */
+  insertedAt: string;
+  pluginVersion: string;
+}
+
+/**
+ * The instance selected on the canvas (or the one around the selected layer), for the
+ * UI to match to a library template and show in the context panel.
+ */
+export interface SelectedInstance {
+  nodeId: string;
+  name: string;
+  /** Main component key (the variant's key for component sets) */
+  componentKey: string | null;
+  provenance: InstanceProvenance | null;
+}
+
+/**
+ * Relaunch buttons (manifest.json relaunchButtons): "Open in Starter Kit", "Swap variant"
+ * and "Refresh from library". 'pages' is what "Open in Starter Kit" means on a page.
+ */
+export type RelaunchCommand = 'open' | 'swap' | 'refresh' | 'pages';
+
+/** The view and template a relaunch button opens the plugin to */
+export interface LaunchTarget {
+  command: RelaunchCommand;
+  templateId: string | null;
+  cloudId: string | null;
+  variantKey: string | null;
+}
+
+/**
+ * Where inserted instances go:
+ * - viewport: centered in the viewport (the default)
+ * - auto-layout: appended to the selected auto-layout frame (or the selection's auto-layout parent)
+ * - next-to-selection: to the right of the current selection
+ * - section: wrapped in a new Section named after the template
+ * - grid: laid out in `columns` columns, centered in the viewport
+ * - new-page: on a new page named after the template
+ */
+export type InsertPlacementMode =
+  | 'viewport'
+  | 'auto-layout'
+  | 'next-to-selection'
+  | 'section'
+  | 'grid'
+  | 'new-page';
+
+export interface InsertPlacement {
+  mode: InsertPlacementMode;
+  /** Columns for 'grid' */
+  columns: number;
+  /** Spacing between inserted instances (px) */
+  gap: number;
+}
+
+/** An insert the activity log records; quick inserts queue these until the UI opens */
+export interface InsertRecord {
+  templateName: string;
+  templateId: string;
+  cloudId?: string;
+  cloudName?: string;
+  count?: number;
+  nodeId?: string;
+  nodeIds?: string[];
+  userName: string | null;
+}
+
+/** Template fields the sandbox needs to recognise a template's instances in an audit */
+export interface AuditTemplateRef {
+  id: string;
+  name: string;
+  componentKey: string;
+  variants?: { key: string; displayName: string }[];
+}
+
+/** A canvas node an audit finding points at (selectable via SELECT_NODE) */
+export interface AuditNodeRef {
+  nodeId: string;
+  name: string;
+}
+
+export interface AuditTemplateUsage {
+  templateId: string;
+  templateName: string;
+  count: number;
+  variants: { key: string; name: string; count: number }[];
+  nodeIds: string[];
+}
+
+export interface AuditPage {
+  pageId: string;
+  pageName: string;
+  instanceCount: number;
+  templates: AuditTemplateUsage[];
+  /** Frames that were Starter Kit instances before being detached */
+  detached: AuditNodeRef[];
+  /** Instances whose library component has a newer published version */
+  outdated: AuditNodeRef[];
+  /** Top-level frames with no Starter Kit content at all */
+  framesWithoutStarterKit: AuditNodeRef[];
+}
+
+export interface UsageAuditReport {
+  /** ISO timestamp */
+  scannedAt: string;
+  fileName: string;
+  pages: AuditPage[];
+  totals: {
+    instances: number;
+    templates: number;
+    detached: number;
+    outdated: number;
+    framesWithoutStarterKit: number;
+  };
+}
+
+/** Something a scaffolded page starts with; items after a section go inside it */
+export type StarterContent =
+  | { kind: 'section'; name: string }
+  | { kind: 'frame'; name: string; width: number; height: number }
+  | {
+      kind: 'template';
+      name: string;
+      templateId: string;
+      /** Filled in by the UI from the library when the structure is applied */
+      componentKey?: string;
+    };
+
+export interface ScaffoldPageSpec {
+  /** Final page name; the UI has already filled in any "{Release}"-style placeholders */
+  name: string;
+  isRename: boolean;
+  /** Only placed on a page that's still empty */
+  content?: StarterContent[];
+}
+
+/** One change merging a page structure into the file would make */
+export interface ScaffoldPlanStep {
+  /** Stable for the same file and structure, so the UI can approve steps by id */
+  id: string;
+  kind: 'add' | 'rename' | 'move';
+  /** Page name once the step is applied */
+  name: string;
+  /** Current name, for renames */
+  from?: string;
+  /** Structure page this one goes after, for adds and moves ('' = top of the file) */
+  after?: string;
+  /** Example pages are optional in a file that already has work in it */
+  recommended: boolean;
+}
+
+export interface ScaffoldPlan {
+  steps: ScaffoldPlanStep[];
+  /** Structure pages already in place under their standard name */
+  unchanged: string[];
+  /** Existing pages the structure doesn't describe; they are never changed */
+  untouched: string[];
+}
+
+/** A page of the current file as the Pages view shows it */
+export interface FilePage {
+  id: string;
+  name: string;
+  /** Name without its status prefix */
+  title: string;
+  kind: 'page' | 'section' | 'divider';
+  /** Configured status symbol the name starts with */
+  status: string | null;
+  /** Leading symbol that isn't one of the configured statuses */
+  unknownStatus: string | null;
+  /** Section header the page sits under (pages only) */
+  section: string | null;
+  current: boolean;
+}
+
+export interface FilePagesReport {
+  pages: FilePage[];
+  /** Section header names, in file order */
+  sections: string[];
+}
+
+/** A section of the current file's page structure, read back for a new preset */
+export interface CapturedSection {
+  /** Header page name; empty for the pages above the first section */
+  name: string;
+  pages: {
+    /** Name without its status prefix, with dates and known releases turned into placeholders */
+    name: string;
+    status: string | null;
+    isRename: boolean;
+  }[];
+}
+
+/** A section's page naming patterns, e.g. "{YYYY.MM.DD}_{Exploration Name}" */
+export interface NamingConvention {
+  /** Section header, as the page structure spells it */
+  section: string;
+  patterns: string[];
+}
+
+/** A rename or move that brings a page in line with its section's naming */
+export interface NamingFix {
+  pageId: string;
+  kind: 'rename' | 'move';
+  /** Button text, e.g. "Add date prefix" */
+  label: string;
+  /** New page name, status prefix included (renames) */
+  name?: string;
+  /** Section header to move under (moves) */
+  section?: string;
+}
+
+/** A page whose name doesn't follow its section's naming convention */
+export interface NamingIssue {
+  pageId: string;
+  name: string;
+  section: string;
+  /** Why the name was flagged, in words */
+  problem: string;
+  fix: NamingFix | null;
+}
+
+/** Text shown on the file's cover, written into the cover component's text properties */
+export interface CoverFields {
+  featureName?: string;
+  release?: string;
+  owner?: string;
+  status?: string;
+  lastUpdated?: string;
+}
+
+export interface CoverInfo {
+  /** Current values of the fields the cover has a text property for */
+  fields: CoverFields;
+  available: (keyof CoverFields)[];
+  /** The cover frame is the file's thumbnail */
+  isThumbnail: boolean;
+}
+
+/** A library text style, referenced by key so it can be imported into any file */
+export interface TextStyleRef {
+  key: string;
+  name: string;
+}
+
+export interface ReadMeTextStyles {
+  heading?: TextStyleRef;
+  body?: TextStyleRef;
+}
+
+/** Team data the generated Read Me page lists; the owner and date are kept by the file */
+export interface ReadMeContent {
+  cloudName: string;
+  pocs: { name: string; email: string }[];
+  links: { name: string; url: string }[];
+  statuses: { symbol: string; label: string }[];
+  /** Housekeeping rules; descriptions may contain the rules editor's markdown */
+  rules: { title: string; description: string }[];
+  textStyles?: ReadMeTextStyles;
+}
+
+export interface AutoLayoutProps {
+  layoutMode: string;
+  primaryAxisSizingMode: string;
+  counterAxisSizingMode: string;
+  paddingLeft: number;
+  paddingRight: number;
+  paddingTop: number;
+  paddingBottom: number;
+  itemSpacing: number;
+}
+
+export interface FrameDetails {
+  name: string;
+  type: 'FRAME' | 'COMPONENT' | 'INSTANCE';
+  width: number;
+  height: number;
+  aspectRatio: string;
+  hasAutoLayout: boolean;
+  layoutProps: AutoLayoutProps | null;
+}
+
+/** One thing a compliance rule checks on a frame, component or instance */
+export type ComplianceCheck =
+  /** width / height within `tolerance` of ratioWidth / ratioHeight */
+  | { type: 'aspect-ratio'; ratioWidth: number; ratioHeight: number; tolerance: number }
+  /** Exact size, one of the listed resolutions */
+  | { type: 'resolution'; sizes: TemplateSize[] }
+  | { type: 'auto-layout' }
+  /** Regular expression the layer name must match */
+  | { type: 'naming'; pattern: string }
+  /** Font families every text layer inside must use */
+  | { type: 'fonts'; families: string[] }
+  /** Solid fill colors (#RRGGBB) every layer inside must use */
+  | { type: 'fills'; colors: string[] }
+  /** Auto layout padding and item spacing must be one of these token values */
+  | { type: 'spacing'; tokens: number[] };
+
+export type ComplianceCheckType = ComplianceCheck['type'];
+
+/** A housekeeping rule as the compliance engine sees it */
+export interface ComplianceRule {
+  id: string;
+  title: string;
+  checks: ComplianceCheck[];
+}
+
+/** What to check: the selected nodes, top-level frames of the current page, or of every page */
+export type ComplianceScope = 'selection' | 'page' | 'file';
+
+export interface AutoLayoutSpacing {
+  paddingTop: number;
+  paddingRight: number;
+  paddingBottom: number;
+  paddingLeft: number;
+  itemSpacing: number;
+}
+
+/** A change a fix makes, with every value resolved so the preview is exactly what's applied */
+export type ComplianceFixAction =
+  /** 'scale' stretches the content with the frame; 'anchor' leaves it where it is */
+  | { kind: 'resize'; width: number; height: number; content: 'scale' | 'anchor' }
+  | ({ kind: 'auto-layout'; layoutMode: 'HORIZONTAL' | 'VERTICAL' } & AutoLayoutSpacing)
+  | ({ kind: 'snap-spacing' } & AutoLayoutSpacing);
+
+export interface ComplianceFix {
+  /** Stable per node and action, so the same fix offered by two checks is applied once */
+  id: string;
+  /** Fixes in the same group are alternatives; only one of them can be applied */
+  group: string;
+  nodeId: string;
+  label: string;
+  /** One line per property that changes, e.g. "Size 1440×810 → 1600×900" */
+  changes: string[];
+  action: ComplianceFixAction;
+}
+
+export interface ComplianceCheckResult {
+  ruleId: string;
+  ruleTitle: string;
+  check: ComplianceCheck;
+  passed: boolean;
+  /** What was found, e.g. "1440×900" or "Uses Arial" */
+  detail: string;
+  /** Ways to fix a failed check automatically, if any */
+  fixes?: ComplianceFix[];
+}
+
+export interface ComplianceNodeResult {
+  nodeId: string;
+  name: string;
+  pageName: string;
+  passed: boolean;
+  checks: ComplianceCheckResult[];
+}
+
+export interface ComplianceReport {
+  scope: ComplianceScope;
+  /** ISO timestamp */
+  checkedAt: string;
+  nodes: ComplianceNodeResult[];
+  totals: {
+    nodes: number;
+    passed: number;
+    failed: number;
+  };
+}
+
+export interface OnboardingState {
+  hasCompleted: boolean;
+  skipSplash: boolean;
+}
+
+// ============================================================================
+// UI -> PLUGIN
+// ============================================================================
+
+/**
+ * Messages sent from UI to Plugin
+ */
+export type UIToPluginMessage =
+  // Client storage (legacy local data + offline fallback)
+  | { type: 'MIGRATE_FROM_CLIENT_STORAGE' }
+  | { type: 'LOAD_TEMPLATES' }
+  | { type: 'SAVE_TEMPLATES'; templates: any[] }
+  | { type: 'LOAD_FIGMA_LINKS' }
+  | { type: 'SAVE_FIGMA_LINKS'; links: any[] }
+  | { type: 'LOAD_CLOUD_FIGMA_LINKS' }
+  | { type: 'SAVE_CLOUD_FIGMA_LINKS'; links: Record<string, any> }
+  | { type: 'LOAD_DEFAULT_CLOUD' }
+  | { type: 'SAVE_DEFAULT_CLOUD'; cloudId: string | null }
+  | { type: 'LOAD_ONBOARDING_STATE' }
+  | { type: 'SAVE_ONBOARDING_STATE'; hasCompleted: boolean; skipSplash?: boolean }
+  | { type: 'LOAD_CUSTOM_CLOUDS' }
+  | { type: 'SAVE_CUSTOM_CLOUDS'; clouds: any[] }
+  | { type: 'LOAD_EDITABLE_CLOUDS' }
+  | { type: 'SAVE_EDITABLE_CLOUDS'; clouds: any }
+  | { type: 'LOAD_HIDDEN_CLOUDS' }
+  | { type: 'SAVE_HIDDEN_CLOUDS'; hiddenClouds: string[] }
+  | { type: 'LOAD_CLOUD_CATEGORIES' }
+  | { type: 'SAVE_CLOUD_CATEGORIES'; categories: Record<string, any> }
+  | { type: 'LOAD_STATUS_SYMBOLS' }
+  | { type: 'SAVE_STATUS_SYMBOLS'; symbols: any[] }
+  | { type: 'LOAD_SAVED_TEMPLATES' }
+  | { type: 'SAVE_SAVED_TEMPLATES'; savedItems: any[] }
+  | { type: 'LOAD_CLOUD_POCS' }
+  | { type: 'SAVE_CLOUD_POCS'; pocs: Record<string, any> }
+  // Notifications / navigation
+  | { type: 'SHOW_TOAST'; message: string; options?: { error?: boolean } }
+  | { type: 'OPEN_EXTERNAL_URL'; url: string }
+  // Components
+  | { type: 'GET_COMPONENT_INFO'; capture?: Partial<CaptureOptions> }
+  | {
+      type: 'IMPORT_COMPONENT';
+      payload: {
+        templateId: string;
+        templateName: string;
+        componentKey: string;
+        isComponentSet?: boolean;
+        variantSelection?: Record<string, string>;
+        properties?: ComponentPropertyValues;
+        cloudId?: string;
+        cloudName?: string;
+        placement?: InsertPlacement;
+      };
+    }
+  | {
+      type: 'IMPORT_MULTIPLE_COMPONENTS';
+      payload: {
+        templateId: string;
+        templateName: string;
+        componentKeys: string[];
+        slideNames?: string[];
+        properties?: ComponentPropertyValues;
+        cloudId?: string;
+        cloudName?: string;
+        placement?: InsertPlacement;
+      };
+    }
+  // Quick inserts run without the window: they read the cached placement and queue
+  // their activity for the UI to log the next time it opens
+  | { type: 'SAVE_INSERT_PLACEMENT'; placement: InsertPlacement }
+  | { type: 'TAKE_QUEUED_INSERTS' }
+  | {
+      type: 'SWAP_SELECTED_INSTANCE';
+      payload: {
+        templateId: string;
+        templateName: string;
+        componentKey: string;
+        variantName?: string;
+        cloudId?: string;
+        cloudName?: string;
+        /** Instance to swap; the selected one when omitted */
+        nodeId?: string;
+      };
+    }
+  | { type: 'DETACH_INSTANCE'; payload: { nodeId: string } }
+  | { type: 'RUN_USAGE_AUDIT'; payload: { templates: AuditTemplateRef[] } }
+  | {
+      type: 'SELECT_NODE';
+      nodeId?: string;
+      nodeIds?: string[];
+      assetId?: string;
+      cloudId?: string;
+      category?: string;
+    }
+  | { type: 'REQUEST_VARIANT_PREVIEW'; payload: { variantKey: string; rendition?: RenditionOptions } }
+  | { type: 'GET_PREVIEW'; payload: { componentKey: string; rendition?: RenditionOptions } }
+  | {
+      type: 'REFRESH_ALL_TEMPLATES';
+      payload: { templates: TemplateRef[]; capture?: Partial<CaptureOptions> };
+    }
+  | { type: 'CHECK_LIBRARY_HEALTH'; payload: { templates: HealthTemplateRef[] } }
+  | {
+      type: 'REFRESH_TEMPLATE';
+      payload: {
+        templateId: string;
+        componentKey: string;
+        isComponentSet?: boolean;
+        capture?: Partial<CaptureOptions>;
+      };
+    }
+  // Page structure
+  | { type: 'PLAN_SCAFFOLD'; pages?: ScaffoldPageSpec[] }
+  | {
+      type: 'SCAFFOLD_FILE_STRUCTURE';
+      coverComponentKey?: string;
+      pages?: ScaffoldPageSpec[];
+      /** Plan steps to apply; all recommended steps when omitted */
+      approvedStepIds?: string[];
+      /** Fills an empty Read Me page */
+      readMe?: ReadMeContent;
+      /** Written into the inserted cover's text properties */
+      cover?: CoverFields;
+    }
+  // Cover
+  | { type: 'READ_COVER' }
+  | { type: 'UPDATE_COVER'; payload: { fields: CoverFields } }
+  /** Sets the cover's last-updated property to today */
+  | { type: 'REFRESH_COVER' }
+  | { type: 'SET_COVER_THUMBNAIL' }
+  | { type: 'GENERATE_READ_ME'; payload: ReadMeContent }
+  // Pages view; `symbols` are the team's status symbols
+  | { type: 'LIST_PAGES'; payload: { symbols: string[] } }
+  | { type: 'SET_PAGE_STATUS'; payload: { pageIds: string[]; status: string | null; symbols: string[] } }
+  | { type: 'MOVE_PAGES_TO_SECTION'; payload: { pageIds: string[]; section: string; symbols: string[] } }
+  | { type: 'LINT_PAGE_NAMES'; payload: { conventions: NamingConvention[]; symbols: string[] } }
+  | { type: 'CAPTURE_PAGE_STRUCTURE'; payload: { symbols: string[]; releases: string[] } }
+  // `pattern` is the archive section's naming, e.g. "{YYYY.MM.DD}_{Exploration Name}"
+  | {
+      type: 'ARCHIVE_PAGES';
+      payload: { pageIds: string[]; section: string; pattern: string; status: string | null; symbols: string[] };
+    }
+  | {
+      type: 'UNARCHIVE_PAGES';
+      /** `section` is where pages go that weren't archived by the plugin */
+      payload: { pageIds: string[]; section: string | null; pattern: string; symbols: string[] };
+    }
+  | {
+      type: 'FIX_PAGE_NAMES';
+      payload: { fixes: NamingFix[]; conventions: NamingConvention[]; symbols: string[] };
+    }
+  | { type: 'CAPTURE_TEXT_STYLE' }
+  // Frames
+  | { type: 'GET_SELECTED_FRAME_BRANDING' }
+  | { type: 'GET_FRAME_DETAILS' }
+  | { type: 'RUN_COMPLIANCE_CHECK'; payload: { rules: ComplianceRule[]; scope: ComplianceScope } }
+  | { type: 'APPLY_COMPLIANCE_FIXES'; payload: { fixes: ComplianceFix[] } };
+
+// ============================================================================
+// PLUGIN -> UI
+// ============================================================================
+
+/**
+ * Messages sent from Plugin to UI
+ */
+export type PluginToUIMessage =
+  | { type: 'PLUGIN_READY'; user: FigmaUser | null; launch: LaunchTarget | null }
+  // Client storage
+  | {
+      type: 'MIGRATION_DATA';
+      templates?: any[];
+      figmaLinks?: any[];
+      cloudFigmaLinks?: Record<string, any>;
+      customClouds?: any[];
+      editableClouds?: any;
+      cloudCategories?: Record<string, any>;
+      statusSymbols?: any[];
+      cloudPOCs?: Record<string, any>;
+      defaultCloud?: string | null;
+      onboardingState?: OnboardingState;
+      hiddenClouds?: string[];
+      savedItems?: any[];
+      error?: string;
+    }
+  | { type: 'TEMPLATES_LOADED'; templates: any[] }
+  | { type: 'TEMPLATES_SAVED' }
+  | { type: 'FIGMA_LINKS_LOADED'; links: any[] }
+  | { type: 'CLOUD_FIGMA_LINKS_LOADED'; links: Record<string, any> }
+  | { type: 'DEFAULT_CLOUD_LOADED'; cloudId: string | null }
+  | ({ type: 'ONBOARDING_STATE_LOADED' } & OnboardingState)
+  | { type: 'CUSTOM_CLOUDS_LOADED'; clouds: any[] }
+  | { type: 'EDITABLE_CLOUDS_LOADED'; clouds: any }
+  | { type: 'HIDDEN_CLOUDS_LOADED'; hiddenClouds: string[] }
+  | { type: 'CLOUD_CATEGORIES_LOADED'; categories: Record<string, any> }
+  | { type: 'STATUS_SYMBOLS_LOADED'; symbols: any[] }
+  | { type: 'SAVED_TEMPLATES_LOADED'; savedItems: any[] }
+  | { type: 'CLOUD_POCS_LOADED'; pocs: Record<string, any> }
+  // Components
+  | ({ type: 'COMPONENT_INFO' } & CapturedComponent)
+  | { type: 'COMPONENT_ERROR'; error: string }
+  | ({ type: 'INSERT_SUCCESS' } & InsertRecord)
+  | { type: 'INSERT_ERROR'; error: string }
+  | { type: 'QUEUED_INSERTS'; inserts: InsertRecord[] }
+  | {
+      type: 'SWAP_SUCCESS';
+      templateName: string;
+      templateId: string;
+      cloudId?: string;
+      cloudName?: string;
+      /** Name of the component the instance used before the swap */
+      previousName: string;
+      nodeId: string;
+      restoredOverrides: number;
+      userName: string | null;
+    }
+  | { type: 'SWAP_ERROR'; error: string }
+  | { type: 'INSTANCE_DETACHED'; nodeId: string; name: string }
+  | { type: 'DETACH_ERROR'; error: string }
+  | { type: 'USAGE_AUDIT_RESULT'; report: UsageAuditReport }
+  | { type: 'USAGE_AUDIT_ERROR'; error: string }
+  | { type: 'NODE_NOT_FOUND'; assetId?: string; cloudId?: string; category?: string }
+  | { type: 'VARIANT_PREVIEW_RESULT'; variantKey: string; imageData: string }
+  | { type: 'VARIANT_PREVIEW_ERROR'; variantKey: string }
+  | { type: 'PREVIEW_RESULT'; componentKey: string; imageData: string }
+  | { type: 'PREVIEW_NOT_AVAILABLE'; componentKey: string }
+  | { type: 'ALL_TEMPLATES_REFRESHED'; templates: RefreshedTemplate[] }
+  | ({ type: 'TEMPLATE_REFRESHED'; templateId: string } & Omit<RefreshedTemplate, 'id'>)
+  | { type: 'TEMPLATE_REFRESH_ERROR'; templateId: string; error: string }
+  | { type: 'LIBRARY_HEALTH_RESULT'; results: TemplateHealthResult[] }
+  // Page structure
+  | { type: 'SCAFFOLD_PLAN'; plan: ScaffoldPlan }
+  | { type: 'SCAFFOLD_SUCCESS'; count: number }
+  | { type: 'SCAFFOLD_ERROR'; error: string }
+  | { type: 'PAGES_LIST'; report: FilePagesReport }
+  | { type: 'PAGES_ERROR'; error: string }
+  | { type: 'PAGE_NAMES_LINTED'; issues: NamingIssue[] }
+  | { type: 'PAGE_NAMES_ERROR'; error: string }
+  | { type: 'PAGE_STRUCTURE_CAPTURED'; sections: CapturedSection[] }
+  | { type: 'COVER_INFO'; cover: CoverInfo | null }
+  | { type: 'COVER_ERROR'; error: string }
+  | { type: 'READ_ME_GENERATED'; pageId: string }
+  | { type: 'READ_ME_ERROR'; error: string }
+  | { type: 'TEXT_STYLE_CAPTURED'; style: TextStyleRef }
+  | { type: 'TEXT_STYLE_ERROR'; error: string }
+  // Frames
+  | { type: 'SELECTED_FRAME_BRANDING_LOADED'; branding: string | null; frameName?: string }
+  | { type: 'SELECTED_INSTANCE_CHANGED'; instance: SelectedInstance | null }
+  | { type: 'FRAME_DETAILS_RESULT'; details?: FrameDetails; error?: string }
+  | { type: 'COMPLIANCE_RESULT'; report: ComplianceReport }
+  | { type: 'COMPLIANCE_ERROR'; error: string }
+  | {
+      type: 'COMPLIANCE_FIXES_APPLIED';
+      applied: number;
+      failed: { fixId: string; error: string }[];
+    }
+  // Sent in reply to any request whose handler threw
+  | { type: 'REQUEST_FAILED'; requestType: UIToPluginMessage['type']; error: string };
+
+/**
+ * All message types (union)
+ */
+export type PluginMessage = UIToPluginMessage | PluginToUIMessage;
+
+// ============================================================================
+// REQUEST / RESPONSE CORRELATION
+// ============================================================================
+
+/**
+ * Every UI -> Plugin message carries a request id; the sandbox echoes it on each
+ * reply so the UI can resolve the matching promise (see sendAndWait).
+ * Broadcasts the sandbox sends on its own (PLUGIN_READY, selection changes) have none.
+ */
+export interface RequestEnvelope {
+  requestId?: string;
+}
+
+export type PluginRequest = UIToPluginMessage & RequestEnvelope;
+export type PluginResponse = PluginToUIMessage & RequestEnvelope;
+
+/**
+ * Which replies settle each awaitable request.
+ * `response` resolves the request; `error` rejects it with a PluginRequestError.
+ */
+export interface PluginRequestMap {
+  MIGRATE_FROM_CLIENT_STORAGE: { response: 'MIGRATION_DATA'; error: never };
+  LOAD_TEMPLATES: { response: 'TEMPLATES_LOADED'; error: never };
+  LOAD_FIGMA_LINKS: { response: 'FIGMA_LINKS_LOADED'; error: never };
+  LOAD_CLOUD_FIGMA_LINKS: { response: 'CLOUD_FIGMA_LINKS_LOADED'; error: never };
+  LOAD_DEFAULT_CLOUD: { response: 'DEFAULT_CLOUD_LOADED'; error: never };
+  LOAD_ONBOARDING_STATE: { response: 'ONBOARDING_STATE_LOADED'; error: never };
+  LOAD_CUSTOM_CLOUDS: { response: 'CUSTOM_CLOUDS_LOADED'; error: never };
+  LOAD_EDITABLE_CLOUDS: { response: 'EDITABLE_CLOUDS_LOADED'; error: never };
+  LOAD_HIDDEN_CLOUDS: { response: 'HIDDEN_CLOUDS_LOADED'; error: never };
+  LOAD_CLOUD_CATEGORIES: { response: 'CLOUD_CATEGORIES_LOADED'; error: never };
+  LOAD_STATUS_SYMBOLS: { response: 'STATUS_SYMBOLS_LOADED'; error: never };
+  LOAD_SAVED_TEMPLATES: { response: 'SAVED_TEMPLATES_LOADED'; error: never };
+  LOAD_CLOUD_POCS: { response: 'CLOUD_POCS_LOADED'; error: never };
+  GET_COMPONENT_INFO: { response: 'COMPONENT_INFO'; error: 'COMPONENT_ERROR' };
+  IMPORT_COMPONENT: { response: 'INSERT_SUCCESS'; error: 'INSERT_ERROR' };
+  IMPORT_MULTIPLE_COMPONENTS: { response: 'INSERT_SUCCESS'; error: 'INSERT_ERROR' };
+  TAKE_QUEUED_INSERTS: { response: 'QUEUED_INSERTS'; error: never };
+  SWAP_SELECTED_INSTANCE: { response: 'SWAP_SUCCESS'; error: 'SWAP_ERROR' };
+  DETACH_INSTANCE: { response: 'INSTANCE_DETACHED'; error: 'DETACH_ERROR' };
+  RUN_USAGE_AUDIT: { response: 'USAGE_AUDIT_RESULT'; error: 'USAGE_AUDIT_ERROR' };
+  REQUEST_VARIANT_PREVIEW: { response: 'VARIANT_PREVIEW_RESULT'; error: 'VARIANT_PREVIEW_ERROR' };
+  GET_PREVIEW: { response: 'PREVIEW_RESULT'; error: 'PREVIEW_NOT_AVAILABLE' };
+  REFRESH_ALL_TEMPLATES: { response: 'ALL_TEMPLATES_REFRESHED'; error: never };
+  REFRESH_TEMPLATE: { response: 'TEMPLATE_REFRESHED'; error: 'TEMPLATE_REFRESH_ERROR' };
+  CHECK_LIBRARY_HEALTH: { response: 'LIBRARY_HEALTH_RESULT'; error: never };
+  PLAN_SCAFFOLD: { response: 'SCAFFOLD_PLAN'; error: 'SCAFFOLD_ERROR' };
+  SCAFFOLD_FILE_STRUCTURE: { response: 'SCAFFOLD_SUCCESS'; error: 'SCAFFOLD_ERROR' };
+  GENERATE_READ_ME: { response: 'READ_ME_GENERATED'; error: 'READ_ME_ERROR' };
+  LIST_PAGES: { response: 'PAGES_LIST'; error: 'PAGES_ERROR' };
+  SET_PAGE_STATUS: { response: 'PAGES_LIST'; error: 'PAGES_ERROR' };
+  MOVE_PAGES_TO_SECTION: { response: 'PAGES_LIST'; error: 'PAGES_ERROR' };
+  ARCHIVE_PAGES: { response: 'PAGES_LIST'; error: 'PAGES_ERROR' };
+  UNARCHIVE_PAGES: { response: 'PAGES_LIST'; error: 'PAGES_ERROR' };
+  LINT_PAGE_NAMES: { response: 'PAGE_NAMES_LINTED'; error: 'PAGE_NAMES_ERROR' };
+  FIX_PAGE_NAMES: { response: 'PAGE_NAMES_LINTED'; error: 'PAGE_NAMES_ERROR' };
+  CAPTURE_PAGE_STRUCTURE: { response: 'PAGE_STRUCTURE_CAPTURED'; error: never };
+  READ_COVER: { response: 'COVER_INFO'; error: 'COVER_ERROR' };
+  UPDATE_COVER: { response: 'COVER_INFO'; error: 'COVER_ERROR' };
+  REFRESH_COVER: { response: 'COVER_INFO'; error: 'COVER_ERROR' };
+  SET_COVER_THUMBNAIL: { response: 'COVER_INFO'; error: 'COVER_ERROR' };
+  CAPTURE_TEXT_STYLE: { response: 'TEXT_STYLE_CAPTURED'; error: 'TEXT_STYLE_ERROR' };
+  GET_SELECTED_FRAME_BRANDING: { response: 'SELECTED_FRAME_BRANDING_LOADED'; error: never };
+  GET_FRAME_DETAILS: { response: 'FRAME_DETAILS_RESULT'; error: never };
+  RUN_COMPLIANCE_CHECK: { response: 'COMPLIANCE_RESULT'; error: 'COMPLIANCE_ERROR' };
+  APPLY_COMPLIANCE_FIXES: { response: 'COMPLIANCE_FIXES_APPLIED'; error: never };
+}
+
+export type AwaitableRequestType = keyof PluginRequestMap;
+
+export type RequestOf<T extends AwaitableRequestType> = MessageOfType<UIToPluginMessage, T>;
+
+export type ResponseOf<T extends AwaitableRequestType> = MessageOfType<
+  PluginToUIMessage,
+  PluginRequestMap[T]['response']
+>;
+
+// ============================================================================
+// HANDLER REGISTRIES
+// Every key is required - a message without a handler is a type error
+// ============================================================================
+
+export type MessageOfType<
+  TMessage extends { type: string },
+  TType extends TMessage['type'],
+> = Extract<TMessage, { type: TType }>;
+
+/** Posts a reply to the UI, stamped with the id of the request being handled */
+export type ReplyFn = (message: PluginToUIMessage) => void;
+
+/**
+ * Handlers for every UI -> Plugin message (implemented in code.ts)
+ */
+export type UIToPluginHandlers = {
+  [K in UIToPluginMessage['type']]: (
+    message: MessageOfType<UIToPluginMessage, K>,
+    reply: ReplyFn
+  ) => void | Promise<void>;
+};
+
+/**
+ * Handlers for every Plugin -> UI message (implemented in App.tsx)
+ */
+export type PluginToUIHandlers = {
+  [K in PluginToUIMessage['type']]: (message: MessageOfType<PluginToUIMessage, K>) => void;
+};
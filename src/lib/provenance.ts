@@ -0,0 +1,99 @@
+/**
+ * Instance Provenance
+ *
+ * Stamps inserted instances with shared plugin data (template, cloud, variant, user,
+ * time, plugin version) and finds them again. Plugin data travels with the node, so
+ * duplicated or moved instances are still recognised as Starter Kit content.
+ *
+ * Sandbox only (uses the figma global) - import from code.ts.
+ */
+
+import type { InstanceProvenance } from './protocol';
+
+/** Shared plugin data namespace (shared so other plugins and future versions can read it) */
+export const PROVENANCE_NAMESPACE = 'starter_kit';
+
+const PROVENANCE_KEYS: (keyof InstanceProvenance)[] = [
+  'templateId',
+  'cloudId',
+  'variantKey',
+  'insertedBy',
+  'insertedById',
+  'insertedAt',
+  'pluginVersion',
+];
+
+/** Build the provenance for an insert made by the current user, now */
+export function createProvenance(
+  templateId: string,
+  cloudId: string | undefined,
+  variantKey: string,
+  pluginVersion: string
+): InstanceProvenance {
+  return {
+    templateId,
+    cloudId: cloudId ?? null,
+    variantKey,
+    insertedBy: figma.currentUser?.name ?? null,
+    insertedById: figma.currentUser?.id ?? null,
+    insertedAt: new Date().toISOString(),
+    pluginVersion,
+  };
+}
+
+export function stampProvenance(node: SceneNode, provenance: InstanceProvenance): void {
+  for (const key of PROVENANCE_KEYS) {
+    node.setSharedPluginData(PROVENANCE_NAMESPACE, key, provenance[key] ?? '');
+  }
+}
+
+/** Provenance of a node, or null if the plugin didn't insert it */
+export function readProvenance(node: BaseNode): InstanceProvenance | null {
+  const templateId = node.getSharedPluginData(PROVENANCE_NAMESPACE, 'templateId');
+  if (!templateId) return null;
+  const read = (key: keyof InstanceProvenance) =>
+    node.getSharedPluginData(PROVENANCE_NAMESPACE, key) || null;
+  return {
+    templateId,
+    cloudId: read('cloudId'),
+    variantKey: read('variantKey') ?? '',
+    insertedBy: read('insertedBy'),
+    insertedById: read('insertedById'),
+    insertedAt: read('insertedAt') ?? '',
+    pluginVersion: read('pluginVersion') ?? '',
+  };
+}
+
+/**
+ * Stamped instances under `root`, optionally only those from one template.
+ * Pages other than the current one must be loaded first (see findStampedInstance).
+ */
+export function findStampedInstances(
+  root: PageNode | SceneNode & ChildrenMixin,
+  templateId?: string
+): InstanceNode[] {
+  const instances = root.findAllWithCriteria({
+    types: ['INSTANCE'],
+    sharedPluginData: { namespace: PROVENANCE_NAMESPACE, keys: ['templateId'] },
+  });
+  return templateId
+    ? instances.filter(
+        (instance) =>
+          instance.getSharedPluginData(PROVENANCE_NAMESPACE, 'templateId') === templateId
+      )
+    : instances;
+}
+
+/** First instance of a template: current page first, then the rest of the file */
+export async function findStampedInstance(templateId: string): Promise<InstanceNode | null> {
+  const onCurrentPage = findStampedInstances(figma.currentPage, templateId);
+  if (onCurrentPage.length > 0) return onCurrentPage[0];
+
+  await figma.loadAllPagesAsync();
+  for (const page of figma.root.children) {
+    if (page.id === figma.currentPage.id) continue;
+    const found = findStampedInstances(page, templateId);
+    if (found.length > 0) return found[0];
+  }
+  return null;
+}
@@ -0,0 +1,160 @@
+/**
+ * Quick Insert
+ *
+ * Suggestions for the quick-actions parameters declared in manifest.json (cloud,
+ * template, variant), so a template can be inserted from the keyboard without opening
+ * the plugin window: "Sales" → "Cover" → "Dark". Suggestions come from the library the
+ * UI last cached in client storage; a user who hasn't opened the plugin yet is asked
+ * to, since there's nothing to suggest.
+ *
+ * Sandbox only (uses the figma global) - import from code.ts.
+ */
+
+import { BUILT_IN_CLOUDS, CUSTOM_CLOUDS_KEY, EDITABLE_CLOUDS_KEY, TEMPLATES_KEY } from './clientStorage';
+
+/** The parts of a cached template quick insert needs */
+interface CachedTemplate {
+  id: string;
+  name: string;
+  cloudId: string;
+  componentKey: string;
+  isComponentSet?: boolean;
+  variants?: { key: string; displayName: string }[];
+  deleted?: boolean;
+}
+
+type Cloud = (typeof BUILT_IN_CLOUDS)[number];
+
+interface Library {
+  templates: CachedTemplate[];
+  clouds: Cloud[];
+}
+
+/** What running the quick action inserts: one key per instance, as IMPORT_MULTIPLE_COMPONENTS takes them */
+export interface QuickInsert {
+  templateId: string;
+  templateName: string;
+  cloudId: string;
+  cloudName?: string;
+  componentKeys: string[];
+  slideNames: string[];
+}
+
+/** Parameter value for "any cloud" */
+const ALL_CLOUDS = '*';
+/** Variant parameter value for every variant of a component set */
+const ALL_VARIANTS = '*';
+
+const MAX_SUGGESTIONS = 50;
+
+let libraryPromise: Promise<Library> | null = null;
+
+// ============================================================================
+// LIBRARY
+// ============================================================================
+
+async function readLibrary(): Promise<Library> {
+  const [templates, editable, custom] = await Promise.all([
+    figma.clientStorage.getAsync(TEMPLATES_KEY),
+    figma.clientStorage.getAsync(EDITABLE_CLOUDS_KEY),
+    figma.clientStorage.getAsync(CUSTOM_CLOUDS_KEY),
+  ]);
+  const live = (Array.isArray(templates) ? templates : []).filter(
+    (template: CachedTemplate) => template?.id && template.componentKey && !template.deleted
+  );
+  const clouds = [...(Array.isArray(editable) ? editable : BUILT_IN_CLOUDS), ...(Array.isArray(custom) ? custom : [])];
+  return {
+    templates: live,
+    // Only clouds that have something to insert
+    clouds: clouds.filter((cloud: Cloud) => live.some((template) => template.cloudId === cloud.id)),
+  };
+}
+
+/** Read once per run; every keystroke asks for suggestions again */
+function loadLibrary(): Promise<Library> {
+  if (!libraryPromise) libraryPromise = readLibrary();
+  return libraryPromise;
+}
+
+/** Names starting with the query first, then names containing it */
+function rank<T>(items: T[], query: string, name: (item: T) => string): T[] {
+  const q = query.trim().toLowerCase();
+  if (!q) return items;
+  const starts = items.filter((item) => name(item).toLowerCase().startsWith(q));
+  const contains = items.filter((item) => !starts.includes(item) && name(item).toLowerCase().includes(q));
+  return [...starts, ...contains];
+}
+
+// ============================================================================
+// SUGGESTIONS
+// ============================================================================
+
+/** Fill in the quick-actions suggestions for the parameter being typed */
+export async function suggestParameter({ key, query, parameters, result }: ParameterInputEvent): Promise<void> {
+  const { templates, clouds } = await loadLibrary();
+  if (templates.length === 0) {
+    result.setError('Open Starter Kit once to load your templates');
+    return;
+  }
+
+  if (key === 'cloud') {
+    result.setSuggestions([
+      ...rank(clouds, query, (cloud) => cloud.name).map((cloud) => ({ name: cloud.name, data: cloud.id })),
+      ...(query.trim() ? [] : [{ name: 'All clouds', data: ALL_CLOUDS }]),
+    ]);
+    return;
+  }
+
+  if (key === 'template') {
+    const cloudId: string = parameters.cloud ?? ALL_CLOUDS;
+    const cloudName = (id: string) => clouds.find((cloud) => cloud.id === id)?.name ?? id;
+    const candidates = templates.filter((template) => cloudId === ALL_CLOUDS || template.cloudId === cloudId);
+    result.setSuggestions(
+      rank(candidates, query, (template) => template.name)
+        .slice(0, MAX_SUGGESTIONS)
+        .map((template) => ({
+          name: cloudId === ALL_CLOUDS ? `${template.name} (${cloudName(template.cloudId)})` : template.name,
+          data: template.id,
+        }))
+    );
+    return;
+  }
+
+  if (key === 'variant') {
+    const variants = templates.find((template) => template.id === parameters.template)?.variants ?? [];
+    if (variants.length <= 1) {
+      result.setSuggestions([]);
+      return;
+    }
+    result.setSuggestions([
+      ...rank(variants, query, (variant) => variant.displayName)
+        .slice(0, MAX_SUGGESTIONS)
+        .map((variant) => ({ name: variant.displayName, data: variant.key })),
+      ...(query.trim() ? [] : [{ name: `All ${variants.length} variants`, data: ALL_VARIANTS }]),
+    ]);
+  }
+}
+
+/**
+ * What to insert for the chosen parameters. Without a variant a component set inserts
+ * its first one, the same default the plugin window uses.
+ */
+export async function resolveQuickInsert(parameters: ParameterValues): Promise<QuickInsert> {
+  const { templates, clouds } = await loadLibrary();
+  const template = templates.find((candidate) => candidate.id === parameters.template);
+  if (!template) throw new Error('That template is no longer in the Starter Kit');
+
+  const variants = template.isComponentSet ? template.variants ?? [] : [];
+  const chosen = parameters.variant === ALL_VARIANTS
+    ? variants
+    : variants.filter((variant) => variant.key === parameters.variant).slice(0, 1);
+  const keys = chosen.length > 0 ? chosen : variants.slice(0, 1);
+  return {
+    templateId: template.id,
+    templateName: template.name,
+    cloudId: template.cloudId,
+    cloudName: clouds.find((cloud) => cloud.id === template.cloudId)?.name,
+    componentKeys: keys.length > 0 ? keys.map((variant) => variant.key) : [template.componentKey],
+    slideNames: keys.length > 0 ? keys.map((variant) => variant.displayName) : [template.name],
+  };
+}
@@ -0,0 +1,240 @@
+/**
+ * Read Me Page
+ *
+ * Generates the Read Me frame: the cloud's POCs, Figma links, status legend and
+ * housekeeping rules, plus who set the file up and when. Text uses the team's library
+ * styles when they're configured, Inter otherwise. The frame is tagged with shared
+ * plugin data so regenerating replaces it in place instead of stacking a copy.
+ *
+ * Sandbox only (uses the figma global) - import from code.ts.
+ */
+
+import { PROVENANCE_NAMESPACE } from './provenance';
+import type { ReadMeContent, ReadMeTextStyles, TextStyleRef } from './protocol';
+
+/** Marks the generated frame on the Read Me page */
+const READ_ME_KEY = 'readme';
+/** Root plugin data: who first generated the Read Me and when, kept across regenerations */
+const READ_ME_ORIGIN_KEY = 'readme_origin';
+
+const FRAME_WIDTH = 1200;
+
+type TextRole = 'title' | 'heading' | 'body';
+
+/** Used for a role when no library style is configured or it fails to import */
+const FALLBACK_TEXT: Record<TextRole, { font: FontName; fontSize: number }> = {
+  title: { font: { family: 'Inter', style: 'Bold' }, fontSize: 40 },
+  heading: { font: { family: 'Inter', style: 'Bold' }, fontSize: 24 },
+  body: { font: { family: 'Inter', style: 'Regular' }, fontSize: 16 },
+};
+
+interface ReadMeOrigin {
+  owner: string;
+  createdAt: string;
+}
+
+// ============================================================================
+// PAGE
+// ============================================================================
+
+/** The file's Read Me page ("Read Me", "📖 README", ...), if it has one */
+export function findReadMePage(): PageNode | null {
+  return (
+    figma.root.children.find((page) => page.name.toLowerCase().replace(/[^a-z]/g, '') === 'readme') ?? null
+  );
+}
+
+/** The first generation's owner and date; later regenerations keep them */
+function readOrigin(): ReadMeOrigin {
+  const stored = figma.root.getSharedPluginData(PROVENANCE_NAMESPACE, READ_ME_ORIGIN_KEY);
+  if (stored) {
+    try {
+      return JSON.parse(stored) as ReadMeOrigin;
+    } catch {
+      // Unreadable origin - start a new one below
+    }
+  }
+  // The plugin API doesn't expose the file owner; whoever sets the file up stands in for it
+  const origin = { owner: figma.currentUser?.name ?? 'Unknown', createdAt: new Date().toISOString() };
+  figma.root.setSharedPluginData(PROVENANCE_NAMESPACE, READ_ME_ORIGIN_KEY, JSON.stringify(origin));
+  return origin;
+}
+
+// ============================================================================
+// TEXT
+// ============================================================================
+
+type Typography = Record<TextRole, TextStyle | null>;
+
+async function importTextStyle(ref: TextStyleRef | undefined): Promise<TextStyle | null> {
+  if (!ref) return null;
+  try {
+    const style = await figma.importStyleByKeyAsync(ref.key);
+    if (style.type !== 'TEXT') return null;
+    await figma.loadFontAsync((style as TextStyle).fontName);
+    return style as TextStyle;
+  } catch (error) {
+    console.warn(`Read Me: text style "${ref.name}" unavailable, using Inter:`, error);
+    return null;
+  }
+}
+
+async function loadTypography(styles: ReadMeTextStyles | undefined): Promise<Typography> {
+  const [heading, body] = await Promise.all([importTextStyle(styles?.heading), importTextStyle(styles?.body)]);
+  const typography: Typography = { title: heading, heading, body };
+  const fallbacks = (Object.keys(typography) as TextRole[])
+    .filter((role) => !typography[role])
+    .map((role) => FALLBACK_TEXT[role].font);
+  await Promise.all(fallbacks.map((font) => figma.loadFontAsync(font)));
+  return typography;
+}
+
+/** Rules are written in the rules editor's markdown; the canvas gets plain text */
+function plainText(markdown: string): string {
+  return markdown
+    .replace(/\*\*(.+?)\*\*|__(.+?)__/g, (_, bold, underscored) => bold ?? underscored)
+    .replace(/(^|[^_\w])_([^_]+)_(?![_\w])/g, '$1$2')
+    .replace(/\[([^\]]+)\]\(([^)]+)\)/g, '$1 ($2)');
+}
+
+async function createText(characters: string, role: TextRole, typography: Typography): Promise<TextNode> {
+  const text = figma.createText();
+  const style = typography[role];
+  if (style) {
+    await text.setTextStyleIdAsync(style.id);
+  } else {
+    text.fontName = FALLBACK_TEXT[role].font;
+    text.fontSize = FALLBACK_TEXT[role].fontSize;
+  }
+  text.characters = characters;
+  return text;
+}
+
+// ============================================================================
+// LAYOUT
+// ============================================================================
+
+function createStack(name: string, itemSpacing: number): FrameNode {
+  const frame = figma.createFrame();
+  frame.name = name;
+  frame.layoutMode = 'VERTICAL';
+  frame.primaryAxisSizingMode = 'AUTO';
+  frame.itemSpacing = itemSpacing;
+  frame.fills = [];
+  return frame;
+}
+
+/** Append `child` to a vertical stack, stretched to its width */
+function appendFill(parent: FrameNode, child: FrameNode | TextNode): void {
+  parent.appendChild(child);
+  child.layoutSizingHorizontal = 'FILL';
+  if (child.type === 'TEXT') child.textAutoResize = 'HEIGHT';
+}
+
+async function appendSection(
+  parent: FrameNode,
+  title: string,
+  lines: (string | TextNode)[],
+  typography: Typography
+): Promise<FrameNode> {
+  const section = createStack(title, 12);
+  appendFill(parent, section);
+  appendFill(section, await createText(title, 'heading', typography));
+  for (const line of lines) {
+    appendFill(section, typeof line === 'string' ? await createText(line, 'body', typography) : line);
+  }
+  return section;
+}
+
+async function buildReadMeFrame(content: ReadMeContent, origin: ReadMeOrigin): Promise<FrameNode> {
+  const typography = await loadTypography(content.textStyles);
+
+  const frame = createStack('Read Me', 40);
+  frame.resize(FRAME_WIDTH, frame.height);
+  frame.counterAxisSizingMode = 'FIXED';
+  frame.paddingTop = frame.paddingBottom = frame.paddingLeft = frame.paddingRight = 64;
+  frame.fills = [{ type: 'SOLID', color: { r: 1, g: 1, b: 1 } }];
+  frame.setSharedPluginData(PROVENANCE_NAMESPACE, READ_ME_KEY, '1');
+
+  appendFill(frame, await createText(`${content.cloudName} · Read Me`, 'title', typography));
+  const created = new Date(origin.createdAt).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
+  appendFill(frame, await createText(`Owner: ${origin.owner} · Created ${created}`, 'body', typography));
+
+  await appendSection(
+    frame,
+    'Points of Contact',
+    content.pocs.length > 0
+      ? content.pocs.map((poc) => (poc.email ? `${poc.name} - ${poc.email}` : poc.name))
+      : ['No POCs assigned yet'],
+    typography
+  );
+
+  if (content.links.length > 0) {
+    const links: TextNode[] = [];
+    for (const link of content.links) {
+      const text = await createText(link.name, 'body', typography);
+      text.hyperlink = { type: 'URL', value: link.url };
+      text.textDecoration = 'UNDERLINE';
+      links.push(text);
+    }
+    await appendSection(frame, 'Figma Links', links, typography);
+  }
+
+  if (content.statuses.length > 0) {
+    await appendSection(
+      frame,
+      'Page Status Legend',
+      content.statuses.map((status) => `${status.symbol}  ${status.label}`),
+      typography
+    );
+  }
+
+  if (content.rules.length > 0) {
+    const rules = await appendSection(frame, 'Housekeeping Rules', [], typography);
+    for (const rule of content.rules) {
+      appendFill(rules, await createText(rule.title, 'heading', typography));
+      if (rule.description) appendFill(rules, await createText(plainText(rule.description), 'body', typography));
+    }
+  }
+
+  return frame;
+}
+
+// ============================================================================
+// GENERATE
+// ============================================================================
+
+/** Whether `page` is an empty Read Me page a scaffold may fill */
+export async function isEmptyReadMePage(page: PageNode | null): Promise<boolean> {
+  if (!page) return false;
+  await page.loadAsync();
+  return page.children.length === 0;
+}
+
+/**
+ * Build the Read Me frame on the Read Me page (created after the first page if the
+ * file has none), replacing a previously generated frame at the same position.
+ */
+export async function generateReadMe(content: ReadMeContent): Promise<PageNode> {
+  let page = findReadMePage();
+  if (!page) {
+    page = figma.createPage();
+    page.name = 'Read Me';
+    figma.root.insertChild(Math.min(1, figma.root.children.length - 1), page);
+  }
+  await page.loadAsync();
+
+  const frame = await buildReadMeFrame(content, readOrigin());
+  const previous = page.children.find((node) => node.getSharedPluginData(PROVENANCE_NAMESPACE, READ_ME_KEY));
+  if (previous) {
+    page.insertChild(page.children.indexOf(previous), frame);
+    frame.x = previous.x;
+    frame.y = previous.y;
+    previous.remove();
+  } else {
+    page.appendChild(frame);
+    frame.x = 0;
+    frame.y = 0;
+  }
+  return page;
+}
@@ -0,0 +1,48 @@
+/**
+ * Relaunch Buttons
+ *
+ * Sets relaunch data on inserted templates and scaffolded pages, so Figma's properties
+ * panel shows the Starter Kit actions for them (commands declared as relaunchButtons
+ * in manifest.json). When the plugin is started from one of those buttons, the launch
+ * target tells the UI which view to open and which template, cloud and variant to
+ * preselect, read from the selected instance's provenance.
+ *
+ * Sandbox only (uses the figma global) - import from code.ts.
+ */
+
+import type { LaunchTarget, RelaunchCommand } from './protocol';
+import { readProvenance } from './provenance';
+
+const COMMANDS: RelaunchCommand[] = ['open', 'swap', 'refresh'];
+
+/** Show "Open in Starter Kit", "Swap variant" and "Refresh from library" on an inserted template */
+export function setTemplateRelaunch(instance: InstanceNode, templateName: string): void {
+  instance.setRelaunchData({ open: templateName, swap: '', refresh: '' });
+}
+
+/** Show "Open in Starter Kit" on a page the page structure created or manages */
+export function setPageRelaunch(page: PageNode): void {
+  page.setRelaunchData({ open: 'Page structure' });
+}
+
+/**
+ * What the plugin was launched for, or null when it was opened from the menu. A
+ * relaunch from an inserted template targets it; one from a page (nothing selected)
+ * opens the Pages view.
+ */
+export function readLaunchTarget(): LaunchTarget | null {
+  const command = COMMANDS.find((candidate) => candidate === figma.command);
+  if (!command) return null;
+
+  const selection = figma.currentPage.selection;
+  const provenance = selection.length === 1 ? readProvenance(selection[0]) : null;
+  if (!provenance) {
+    return command === 'open' ? { command: 'pages', templateId: null, cloudId: null, variantKey: null } : null;
+  }
+  return {
+    command,
+    templateId: provenance.templateId,
+    cloudId: provenance.cloudId,
+    variantKey: provenance.variantKey || null,
+  };
+}
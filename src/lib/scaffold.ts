@@ -0,0 +1,264 @@
+/**
+ * Page Structure Scaffold
+ *
+ * Diffs the file's pages against a page structure and merges it in: pages the file is
+ * missing are added, pages that match under a different spelling are renamed, and
+ * pages out of order are moved. Pages the structure doesn't describe (the team's own
+ * work) stay put, travelling with the structure page they sit under. Nothing on a page
+ * is touched. Used by PLAN_SCAFFOLD (diff) and SCAFFOLD_FILE_STRUCTURE (apply).
+ *
+ * Sandbox only (uses the figma global) - import from code.ts.
+ */
+
+import { hasPlaceholders } from './placeholders';
+import type { ScaffoldPageSpec, ScaffoldPlan, ScaffoldPlanStep } from './protocol';
+
+/** Structure used when the UI doesn't send one */
+export const DEFAULT_SCAFFOLD_PAGES: ScaffoldPageSpec[] = [
+  { name: 'Cover Page', isRename: true },
+  ...[
+    'Read Me',
+    '───────────────────',
+    'CURRENT DESIGNS',
+    '🟢 {Release} {Feature Name}',
+    '🟡 {Release} {Feature Name} • Variation 2',
+    '───────────────────',
+    'MILESTONES + E2E FLOWS/DEMOS',
+    '🟢 {YYYY.MM.DD}_Product Demo',
+    '───────────────────',
+    'ARCHIVED EXPLORATIONS',
+    '{YYYY.MM.DD}_{Exploration Name}',
+    '───────────────────',
+    'BELOW THE LINE',
+    '❌ {Deprecated Feature}',
+  ].map((name) => ({ name, isRename: false })),
+];
+
+/** Where each structure page is in the file, plus everything needed to apply the plan */
+interface Diff {
+  /** Existing page matched to each spec, by spec index */
+  matches: (PageNode | null)[];
+  /** Pages the structure doesn't describe that follow each matched page, by spec index */
+  followers: PageNode[][];
+  plan: ScaffoldPlan;
+}
+
+// ============================================================================
+// MATCHING
+// ============================================================================
+
+export function isDivider(name: string): boolean {
+  return /^[\s─—–-]+$/.test(name);
+}
+
+/** Spelling-insensitive key: "🟢 Current designs" and "CURRENT DESIGNS" match */
+function matchKey(name: string): string {
+  return isDivider(name) ? 'divider' : name.toLowerCase().replace(/[^a-z0-9{}]/g, '');
+}
+
+/** Whether the file already has structure pages (anything matched besides the cover) */
+function hasStructure(specs: ScaffoldPageSpec[], matches: (PageNode | null)[]): boolean {
+  return matches.some((page, i) => page && !specs[i].isRename);
+}
+
+function matchPages(specs: ScaffoldPageSpec[], pages: readonly PageNode[]): (PageNode | null)[] {
+  const matches: (PageNode | null)[] = specs.map(() => null);
+  const used = new Set<string>();
+  const claim = (specIndex: number, page: PageNode | undefined) => {
+    if (!page) return;
+    matches[specIndex] = page;
+    used.add(page.id);
+  };
+
+  // Exact names first, so a renamed match never steals a page that's already right
+  specs.forEach((spec, i) => {
+    claim(i, pages.find((page) => !used.has(page.id) && page.name === spec.name));
+  });
+
+  specs.forEach((spec, i) => {
+    if (matches[i] || spec.isRename || hasPlaceholders(spec.name)) return;
+    const key = matchKey(spec.name);
+    claim(i, pages.find((page) => !used.has(page.id) && matchKey(page.name) === key));
+  });
+
+  // The cover replaces Figma's default first page. Any other first page is only taken
+  // while the file has no structure yet; in a file with work it's added instead.
+  const hasWork = hasStructure(specs, matches);
+  specs.forEach((spec, i) => {
+    if (matches[i] || !spec.isRename) return;
+    const first = pages.find((page) => page.name === 'Page 1') ?? (hasWork ? undefined : pages[0]);
+    claim(i, first && !used.has(first.id) ? first : undefined);
+  });
+
+  return matches;
+}
+
+/** Indices (into `values`) of a longest increasing subsequence */
+function longestIncreasing(values: number[]): Set<number> {
+  const lengths = values.map(() => 1);
+  const previous = values.map(() => -1);
+  let end = -1;
+  values.forEach((value, i) => {
+    for (let j = 0; j < i; j++) {
+      if (values[j] < value && lengths[j] + 1 > lengths[i]) {
+        lengths[i] = lengths[j] + 1;
+        previous[i] = j;
+      }
+    }
+    if (end === -1 || lengths[i] > lengths[end]) end = i;
+  });
+  const result = new Set<number>();
+  for (let i = end; i !== -1; i = previous[i]) result.add(i);
+  return result;
+}
+
+// ============================================================================
+// PLAN
+// ============================================================================
+
+function diffStructure(specs: ScaffoldPageSpec[]): Diff {
+  const pages = figma.root.children;
+  const matches = matchPages(specs, pages);
+  const matchedIds = new Set(matches.filter((page): page is PageNode => !!page).map((page) => page.id));
+
+  // Unmatched pages belong to the closest matched page above them
+  const followers: PageNode[][] = specs.map(() => []);
+  let owner = -1;
+  for (const page of pages) {
+    if (matchedIds.has(page.id)) {
+      owner = matches.findIndex((match) => match?.id === page.id);
+    } else if (owner !== -1) {
+      followers[owner].push(page);
+    }
+  }
+
+  // Matched pages already in structure order stay; the rest move
+  const matchedSpecIndices = specs.map((_, i) => i).filter((i) => matches[i]);
+  const inOrder = longestIncreasing(matchedSpecIndices.map((i) => pages.indexOf(matches[i] as PageNode)));
+  const moved = new Set(matchedSpecIndices.filter((_, k) => !inOrder.has(k)));
+
+  // In a file with work in it, unfilled example pages ("{Release} ...") are offered but not recommended
+  const hasWork = hasStructure(specs, matches);
+
+  const steps: ScaffoldPlanStep[] = [];
+  const unchanged: string[] = [];
+  specs.forEach((spec, i) => {
+    const page = matches[i];
+    const after = i > 0 ? specs[i - 1].name : '';
+    if (!page) {
+      steps.push({
+        id: `add:${i}`,
+        kind: 'add',
+        name: spec.name,
+        after,
+        recommended: !hasWork || !hasPlaceholders(spec.name),
+      });
+      return;
+    }
+    if (page.name !== spec.name) {
+      steps.push({ id: `rename:${page.id}`, kind: 'rename', name: spec.name, from: page.name, recommended: true });
+    }
+    if (moved.has(i)) {
+      steps.push({ id: `move:${page.id}`, kind: 'move', name: spec.name, after, recommended: true });
+    }
+    if (page.name === spec.name && !moved.has(i)) {
+      unchanged.push(spec.name);
+    }
+  });
+
+  const untouched = pages.filter((page) => !matchedIds.has(page.id)).map((page) => page.name);
+  return { matches, followers, plan: { steps, unchanged, untouched } };
+}
+
+/** Compare the file's pages to `specs` without changing anything */
+export async function planScaffold(specs: ScaffoldPageSpec[]): Promise<ScaffoldPlan> {
+  await figma.loadAllPagesAsync();
+  return diffStructure(specs).plan;
+}
+
+// ============================================================================
+// APPLY
+// ============================================================================
+
+/** Put `page` right after `anchor`, or first in the file when there's no anchor */
+export function placeAfter(page: PageNode, anchor: PageNode | null): void {
+  const target = () => (anchor ? figma.root.children.indexOf(anchor) + 1 : 0);
+  if (figma.root.children[target()] === page) return;
+  figma.root.insertChild(target(), page);
+  // Moving a page down may count its old slot; once it's below the anchor the index is unambiguous
+  if (figma.root.children[target()] !== page) {
+    figma.root.insertChild(target(), page);
+  }
+}
+
+export interface ScaffoldResult {
+  added: number;
+  renamed: number;
+  moved: number;
+  /** The page matching the structure's cover (isRename) spec, if any */
+  coverPage: PageNode | null;
+  firstNewPage: PageNode | null;
+  /** The file's page for each spec after applying, by spec index (null when its add wasn't approved) */
+  specPages: (PageNode | null)[];
+}
+
+/**
+ * Apply the plan's steps for `specs`, or only those in `approvedStepIds` when given.
+ * The plan is recomputed from the live file, so steps that no longer apply are skipped.
+ */
+export async function applyScaffold(
+  specs: ScaffoldPageSpec[],
+  approvedStepIds?: string[]
+): Promise<ScaffoldResult> {
+  await figma.loadAllPagesAsync();
+  const { matches, followers, plan } = diffStructure(specs);
+  const approved = new Set(
+    approvedStepIds ?? plan.steps.filter((step) => step.recommended).map((step) => step.id)
+  );
+  const isApproved = (id: string) => approved.has(id) && plan.steps.some((step) => step.id === id);
+
+  const result: ScaffoldResult = {
+    added: 0,
+    renamed: 0,
+    moved: 0,
+    coverPage: null,
+    firstNewPage: null,
+    specPages: [...matches],
+  };
+  // Walk the structure top to bottom; each page lands after the last one already placed
+  let anchor: PageNode | null = null;
+
+  specs.forEach((spec, i) => {
+    const page = matches[i];
+    if (!page) {
+      if (!isApproved(`add:${i}`)) return;
+      const created = figma.createPage();
+      created.name = spec.name;
+      placeAfter(created, anchor);
+      result.added++;
+      result.firstNewPage ??= created;
+      result.specPages[i] = created;
+      if (spec.isRename) result.coverPage = created;
+      anchor = created;
+      return;
+    }
+
+    if (isApproved(`rename:${page.id}`)) {
+      page.name = spec.name;
+      result.renamed++;
+    }
+    if (isApproved(`move:${page.id}`)) {
+      // The team's pages under this one move with it
+      for (const moving of [page, ...followers[i]]) {
+        placeAfter(moving, anchor);
+        anchor = moving;
+      }
+      result.moved++;
+    } else {
+      anchor = followers[i][followers[i].length - 1] ?? page;
+    }
+    if (spec.isRename) result.coverPage = page;
+  });
+
+  return result;
+}
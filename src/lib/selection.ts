@@ -0,0 +1,56 @@
+/**
+ * Selected Instance
+ *
+ * Works out which library instance the canvas selection belongs to, so the UI can
+ * match it to a template (by main component key, or by provenance when the key
+ * changed) and show its context panel. Selecting a layer inside an inserted template
+ * counts as selecting the template. Used by the selectionchange listener and
+ * DETACH_INSTANCE.
+ *
+ * Sandbox only (uses the figma global) - import from code.ts.
+ */
+
+import { readProvenance } from './provenance';
+import type { SelectedInstance } from './protocol';
+
+/**
+ * The instance for a selected node: the nearest one the plugin stamped, else the
+ * outermost instance around it (a template placed by hand from the library).
+ */
+function findTemplateInstance(node: SceneNode): InstanceNode | null {
+  let outermost: InstanceNode | null = null;
+  let current: BaseNode | null = node;
+  while (current && current.type !== 'PAGE') {
+    if (current.type === 'INSTANCE') {
+      if (readProvenance(current)) return current;
+      outermost = current;
+    }
+    current = current.parent;
+  }
+  return outermost;
+}
+
+/** The selected instance, or null unless exactly one node inside an instance is selected */
+export async function describeSelectedInstance(): Promise<SelectedInstance | null> {
+  const selection = figma.currentPage.selection;
+  const instance = selection.length === 1 ? findTemplateInstance(selection[0]) : null;
+  if (!instance) return null;
+
+  const mainComponent = await instance.getMainComponentAsync();
+  return {
+    nodeId: instance.id,
+    name: instance.name,
+    componentKey: mainComponent?.key ?? null,
+    provenance: readProvenance(instance),
+  };
+}
+
+/** Detach the instance into a plain frame; it stops getting library updates */
+export async function detachInstance(nodeId: string): Promise<string> {
+  const node = await figma.getNodeByIdAsync(nodeId);
+  if (!node || node.type !== 'INSTANCE') throw new Error('That instance is no longer on the canvas');
+  const frame = node.detachInstance();
+  figma.currentPage.selection = [frame];
+  figma.commitUndo();
+  return frame.name;
+}
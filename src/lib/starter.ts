@@ -0,0 +1,123 @@
+/**
+ * Starter Content
+ *
+ * Fills a scaffolded page with what its page structure entry declares: Figma sections
+ * with a label, placeholder frames at a set size, and library templates. A section
+ * collects the items listed after it; each section (or the loose items before the
+ * first one) is laid out as a row, and rows stack top to bottom. A template that can't
+ * be imported is left as a placeholder frame so the layout still holds.
+ *
+ * Sandbox only (uses the figma global) - import from code.ts.
+ */
+
+import type { StarterContent } from './protocol';
+import { createProvenance, stampProvenance } from './provenance';
+import { setTemplateRelaunch } from './relaunch';
+
+type StarterItem = Exclude<StarterContent, { kind: 'section' }>;
+
+interface Row {
+  section: string | null;
+  items: StarterItem[];
+}
+
+export interface StarterResult {
+  placed: number;
+  /** Templates that couldn't be imported and were left as placeholders */
+  missing: number;
+}
+
+const ITEM_GAP = 80;
+const ROW_GAP = 200;
+const SECTION_PADDING = 80;
+/** Placeholder size for a template that can't be imported, and for an empty section */
+const PLACEHOLDER_SIZE = { width: 1920, height: 1080 };
+
+function groupRows(content: StarterContent[]): Row[] {
+  const rows: Row[] = [];
+  for (const item of content) {
+    if (item.kind === 'section') {
+      rows.push({ section: item.name, items: [] });
+    } else {
+      if (rows.length === 0) rows.push({ section: null, items: [] });
+      rows[rows.length - 1].items.push(item);
+    }
+  }
+  return rows;
+}
+
+function createPlaceholder(name: string, width: number, height: number): FrameNode {
+  const frame = figma.createFrame();
+  frame.name = name;
+  frame.resize(width, height);
+  return frame;
+}
+
+async function createItem(item: StarterItem, pluginVersion: string): Promise<{ node: SceneNode; missing: boolean }> {
+  if (item.kind === 'frame') {
+    return { node: createPlaceholder(item.name, item.width, item.height), missing: false };
+  }
+  if (item.componentKey) {
+    try {
+      const component = await figma.importComponentByKeyAsync(item.componentKey);
+      const instance = component.createInstance();
+      stampProvenance(instance, createProvenance(item.templateId, undefined, component.key, pluginVersion));
+      setTemplateRelaunch(instance, item.name);
+      return { node: instance, missing: false };
+    } catch (error) {
+      console.warn(`Starter content: template "${item.name}" unavailable, adding a placeholder:`, error);
+    }
+  }
+  const { width, height } = PLACEHOLDER_SIZE;
+  return { node: createPlaceholder(`${item.name} (template unavailable)`, width, height), missing: true };
+}
+
+/**
+ * Build `content` on `page` below anything already there. Callers only pass pages
+ * that are empty, so a re-run scaffold never stacks a second copy.
+ */
+export async function fillStarterContent(
+  page: PageNode,
+  content: StarterContent[],
+  pluginVersion: string
+): Promise<StarterResult> {
+  await page.loadAsync();
+  const result: StarterResult = { placed: 0, missing: 0 };
+  let y = 0;
+
+  for (const row of groupRows(content)) {
+    const container: SectionNode | null = row.section !== null ? figma.createSection() : null;
+    const parent: PageNode | SectionNode = container ?? page;
+    if (container) {
+      container.name = row.section as string;
+      page.appendChild(container);
+    }
+
+    // Inside a section, positions are relative to it
+    const padding = container ? SECTION_PADDING : 0;
+    let x = padding;
+    let rowHeight = 0;
+    for (const item of row.items) {
+      const { node, missing } = await createItem(item, pluginVersion);
+      parent.appendChild(node);
+      node.x = x;
+      node.y = container ? padding : y;
+      x += node.width + ITEM_GAP;
+      rowHeight = Math.max(rowHeight, node.height);
+      result.placed++;
+      if (missing) result.missing++;
+    }
+
+    if (container) {
+      const width = row.items.length > 0 ? x - ITEM_GAP + padding : PLACEHOLDER_SIZE.width;
+      const height = row.items.length > 0 ? rowHeight + padding * 2 : PLACEHOLDER_SIZE.height;
+      container.resizeWithoutConstraints(width, height);
+      container.x = 0;
+      container.y = y;
+      rowHeight = height;
+    }
+    y += rowHeight + ROW_GAP;
+  }
+
+  return result;
+}
@@ -0,0 +1,157 @@
+/**
+ * Instance Swap
+ *
+ * Swaps an instance on the canvas to another library component, keeping its place
+ * in the layout and any text the designer already typed. Used by SWAP_SELECTED_INSTANCE.
+ *
+ * Sandbox only (uses the figma global) - import from code.ts.
+ */
+
+export interface SwapResult {
+  /** Name of the component the instance used before the swap */
+  previousName: string;
+  /** Text overrides that survived the swap (kept by Figma or re-applied) */
+  restoredOverrides: number;
+}
+
+/** Layout state that swapComponent can reset */
+interface LayoutSnapshot {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  wasResized: boolean;
+  constraints: Constraints;
+  layoutAlign: InstanceNode['layoutAlign'];
+  layoutGrow: number;
+  layoutPositioning: InstanceNode['layoutPositioning'];
+}
+
+// ============================================================================
+// TEXT OVERRIDES
+// ============================================================================
+
+/** Path of a layer inside an instance by layer names, e.g. "Header/Title" */
+function layerPath(node: BaseNode, root: InstanceNode): string | null {
+  const names: string[] = [];
+  let current: BaseNode | null = node;
+  while (current && current.id !== root.id) {
+    names.unshift(current.name);
+    current = current.parent;
+  }
+  return current ? names.join('/') : null;
+}
+
+/** Overridden text on an instance, keyed by layer path */
+function collectTextOverrides(instance: InstanceNode): Map<string, string> {
+  const overriddenIds = new Set(
+    instance.overrides
+      .filter((override) => override.overriddenFields.includes('characters'))
+      .map((override) => override.id)
+  );
+  const texts = new Map<string, string>();
+  for (const text of instance.findAllWithCriteria({ types: ['TEXT'] })) {
+    if (!overriddenIds.has(text.id)) continue;
+    const path = layerPath(text, instance);
+    // First match wins when sibling layers share a name
+    if (path !== null && !texts.has(path)) {
+      texts.set(path, text.characters);
+    }
+  }
+  return texts;
+}
+
+async function setCharacters(text: TextNode, characters: string): Promise<boolean> {
+  if (text.hasMissingFont) return false;
+  try {
+    const fonts = text.characters.length > 0
+      ? text.getRangeAllFontNames(0, text.characters.length)
+      : [text.fontName as FontName];
+    await Promise.all(fonts.map((font) => figma.loadFontAsync(font)));
+    text.characters = characters;
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Re-apply text overrides to layers with the same path in the swapped instance.
+ * Layers that no longer exist in the new component are skipped.
+ */
+async function restoreTextOverrides(
+  instance: InstanceNode,
+  texts: Map<string, string>
+): Promise<number> {
+  let restored = 0;
+  const seen = new Set<string>();
+  for (const text of instance.findAllWithCriteria({ types: ['TEXT'] })) {
+    const path = layerPath(text, instance);
+    if (path === null || seen.has(path) || !texts.has(path)) continue;
+    seen.add(path);
+    const characters = texts.get(path) as string;
+    if (text.characters === characters || (await setCharacters(text, characters))) {
+      restored++;
+    }
+  }
+  return restored;
+}
+
+// ============================================================================
+// LAYOUT
+// ============================================================================
+
+function snapshotLayout(instance: InstanceNode, main: ComponentNode | null): LayoutSnapshot {
+  return {
+    x: instance.x,
+    y: instance.y,
+    width: instance.width,
+    height: instance.height,
+    // Only keep the size if the designer changed it; otherwise take the new component's size
+    wasResized:
+      !!main &&
+      (Math.abs(instance.width - main.width) > 0.5 || Math.abs(instance.height - main.height) > 0.5),
+    constraints: instance.constraints,
+    layoutAlign: instance.layoutAlign,
+    layoutGrow: instance.layoutGrow,
+    layoutPositioning: instance.layoutPositioning,
+  };
+}
+
+function restoreLayout(instance: InstanceNode, snapshot: LayoutSnapshot): void {
+  instance.constraints = snapshot.constraints;
+  instance.layoutAlign = snapshot.layoutAlign;
+  instance.layoutGrow = snapshot.layoutGrow;
+  instance.layoutPositioning = snapshot.layoutPositioning;
+  if (snapshot.wasResized) {
+    instance.resize(snapshot.width, snapshot.height);
+  }
+  instance.x = snapshot.x;
+  instance.y = snapshot.y;
+}
+
+// ============================================================================
+// SWAP
+// ============================================================================
+
+/** Swap `instance` to `component`, keeping position, constraints and text overrides */
+export async function swapInstance(
+  instance: InstanceNode,
+  component: ComponentNode
+): Promise<SwapResult> {
+  const previousMain = await instance.getMainComponentAsync();
+  const previousName =
+    previousMain?.parent?.type === 'COMPONENT_SET'
+      ? `${previousMain.parent.name} (${previousMain.name})`
+      : previousMain?.name ?? instance.name;
+
+  const layout = snapshotLayout(instance, previousMain);
+  const texts = collectTextOverrides(instance);
+
+  instance.swapComponent(component);
+
+  restoreLayout(instance, layout);
+  const restoredOverrides = await restoreTextOverrides(instance, texts);
+
+  return { previousName, restoredOverrides };
+}
@@ -11,6 +11,9 @@
  */
 
 import { useState, useEffect, useCallback, useRef } from 'react';
+import { BUILT_IN_CLOUDS } from './clientStorage';
+import { DEFAULT_INSERT_PLACEMENT } from './placement';
+import type { ComplianceCheck, InsertPlacement, ReadMeTextStyles, StarterContent } from './protocol';
 
 // Heroku backend URL
 const API_BASE_URL = 'https://starterkit-da8649ad6366.herokuapp.com';
@@ -100,7 +103,7 @@ export async function createManualBackup(dataKey: string, userId?: string): Prom
 
 export interface ActivityLogEntry {
   id: number;
-  action: 'add' | 'update' | 'delete' | 'delete_forever' | 'restore' | 'page_structure' | 'section_create' | 'section_update' | 'section_delete' | 'poc_add' | 'poc_update' | 'poc_delete' | 'component_insert';
+  action: 'add' | 'update' | 'delete' | 'delete_forever' | 'restore' | 'page_structure' | 'section_create' | 'section_update' | 'section_delete' | 'poc_add' | 'poc_update' | 'poc_delete' | 'component_insert' | 'component_swap' | 'page_archive' | 'page_unarchive';
   assetId: string;
   assetName: string;
   assetData: any;
@@ -221,7 +224,8 @@ function saveToClientStorage(type: string, data: any, isFallback = false): void
         type === 'editable-clouds' ? { type: 'SAVE_EDITABLE_CLOUDS', clouds: data } :
         type === 'status-symbols' ? { type: 'SAVE_STATUS_SYMBOLS', symbols: data } :
         type === 'templates' ? { type: 'SAVE_TEMPLATES', templates: data } :
-        type === 'saved-items' ? { type: 'SAVE_SAVED_TEMPLATES', savedItems: data } : null;
+        type === 'saved-items' ? { type: 'SAVE_SAVED_TEMPLATES', savedItems: data } :
+        type === 'insert-placement' ? { type: 'SAVE_INSERT_PLACEMENT', placement: data } : null;
       if (msg) {
         (window.parent as any).postMessage({ pluginMessage: msg }, '*');
         if (isFallback) console.log(`✓ Saved to local storage (API unavailable): ${type}`);
@@ -1061,7 +1065,7 @@ const DEFAULT_CATEGORIES = [
   { id: 'resources', label: 'Resources' },
 ];
 
-const BUILT_IN_CLOUD_IDS = ['sales', 'service', 'marketing', 'commerce', 'revenue', 'fieldservice'];
+const BUILT_IN_CLOUD_IDS = BUILT_IN_CLOUDS.map((cloud) => cloud.id);
 
 /**
  * Hook for cloud categories (shared team-wide)
@@ -1180,6 +1184,36 @@ export function useCloudPocs() {
   return { pocs, setPocs: save, loading };
 }
 
+/** Checks of the built-in Frame & Resolution rule (16:9, Auto Layout, 1600×900 or 1920×1080) */
+export const DEFAULT_FRAME_CHECKS: ComplianceCheck[] = [
+  { type: 'aspect-ratio', ratioWidth: 16, ratioHeight: 9, tolerance: 0.01 },
+  { type: 'auto-layout' },
+  {
+    type: 'resolution',
+    sizes: [
+      { width: 1600, height: 900 },
+      { width: 1920, height: 1080 },
+    ],
+  },
+];
+
+/** A housekeeping rule as stored by the backend */
+interface StoredHousekeepingRule {
+  id: string;
+  title: string;
+  description: string;
+  checks?: ComplianceCheck[];
+  /** Set instead of `checks` by rules saved before checks were configurable */
+  hasComplianceCheck?: boolean;
+  links: { label: string; action: string }[];
+}
+
+/** Rules saved before checks were configurable only carry a hasComplianceCheck flag */
+function withComplianceChecks(rule: StoredHousekeepingRule) {
+  const { hasComplianceCheck, ...rest } = rule;
+  return { ...rest, checks: rule.checks ?? (hasComplianceCheck ? DEFAULT_FRAME_CHECKS : []) };
+}
+
 /**
  * Hook for housekeeping rules (shared team-wide)
  */
@@ -1189,14 +1223,14 @@ export function useHousekeepingRules() {
       id: 'frame-guidelines', 
       title: 'Frame & Resolution Guidelines',
       description: 'All designs are made at 16:9 aspect ratio and built with Auto Layout for our screens. Additionally, it is strongly recommended to build designs to 1600×900 or 1920×1080 resolutions, these are 16:9 aspect ratio resolutions.',
-      hasComplianceCheck: true,
+      checks: DEFAULT_FRAME_CHECKS,
       links: []
     },
     { 
       id: 'page-structure', 
       title: 'Page Structure',
       description: 'Starting with a blank Figma file? Use page structures to get your team\'s way of maintaining Figma files supaaaa fast! Need to customize? Contact your team POCs to edit or add page structures.',
-      hasComplianceCheck: false,
+      checks: [],
       links: [
         { label: 'Exploratory Work', action: 'scaffold' },
         { label: 'Release Work', action: 'scaffold' }
@@ -1206,7 +1240,7 @@ export function useHousekeepingRules() {
       id: 'starter-kit-info', 
       title: 'What is part of Starter Kit and whats not',
       description: 'Starter Kit contains only defined, team-approved components to help you get started fast.',
-      hasComplianceCheck: false,
+      checks: [],
       links: []
     }
   ];
@@ -1215,8 +1249,8 @@ export function useHousekeepingRules() {
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
-    apiRequest<any[]>('/api/housekeeping-rules')
-      .then(loaded => setRules(loaded.length > 0 ? loaded : defaultRules))
+    apiRequest<StoredHousekeepingRule[]>('/api/housekeeping-rules')
+      .then(loaded => setRules(loaded.length > 0 ? loaded.map(withComplianceChecks) : defaultRules))
       .catch(() => setRules(defaultRules))
       .finally(() => setLoading(false));
   }, []);
@@ -1237,6 +1271,175 @@ export function useHousekeepingRules() {
   return { rules, setRules: save, loading };
 }
 
+/** A page the scaffold creates; `status` is the emoji prefix, `isRename` reuses the first page */
+export interface ScaffoldPage {
+  id: string;
+  name: string;
+  status: string | null;
+  isRename?: boolean;
+  /** Sections, placeholder frames and templates the page starts with */
+  content?: StarterContent[];
+}
+
+export interface ScaffoldSection {
+  id: string;
+  name: string;
+  pages: ScaffoldPage[];
+  isDivider?: boolean; // Special flag for divider-only sections
+}
+
+/** Built-in page structure, used until a cloud saves its own presets */
+export const DEFAULT_SCAFFOLD_SECTIONS: ScaffoldSection[] = [
+  {
+    id: 'top',
+    name: '',  // No header for top-level pages
+    pages: [
+      { id: 'cover', name: 'Cover Page', status: null, isRename: true },
+      { id: 'readme', name: 'Read Me', status: null },
+    ]
+  },
+  {
+    id: 'current',
+    name: 'CURRENT DESIGNS',
+    pages: [
+      { id: 'current1', name: '{Release} {Feature Name}', status: '🟢' },
+      { id: 'current2', name: '{Release} {Feature Name} • Explorations', status: '🟡' },
+      { id: 'current3', name: '{Release} {Feature Name 2}', status: '🟢' },
+    ]
+  },
+  {
+    id: 'milestones',
+    name: 'MILESTONES + E2E FLOWS/DEMOS',
+    pages: [
+      {
+        id: 'milestone1',
+        name: '{YYYY.MM.DD}_Product Demo',
+        status: '🟢',
+        content: [
+          { kind: 'frame', name: 'Cover', width: 1920, height: 1080 },
+          { kind: 'frame', name: 'Agenda', width: 1920, height: 1080 },
+        ],
+      },
+      { id: 'milestone2', name: '{YYYY.MM.DD}_Customer Demo', status: '🟢' },
+      { id: 'milestone3', name: '{YYYY.MM.DD}_Sprint Review', status: '🟡' },
+    ]
+  },
+  {
+    id: 'archived',
+    name: 'ARCHIVED EXPLORATIONS',
+    pages: [
+      { id: 'archive1', name: '{YYYY.MM.DD}_{Exploration Name}', status: null },
+      { id: 'archive2', name: '{YYYY.MM.DD}_{Previous Iteration}', status: null },
+      { id: 'archive3', name: '{YYYY.MM.DD}_{Deprecated Flow}', status: null },
+    ]
+  },
+  {
+    id: 'btl',
+    name: 'BELOW THE LINE',
+    pages: [
+      { id: 'btl1', name: '{Deprecated Feature}', status: '❌' },
+      { id: 'btl2', name: '{Old Component Library}', status: '❌' },
+    ]
+  },
+];
+
+/** One saved revision of a page structure preset */
+export interface PageStructureVersion {
+  version: number;
+  sections: ScaffoldSection[];
+  updatedAt: string;
+  updatedBy: string | null;
+}
+
+/** A named page structure; the current revision plus the ones it replaced (newest first) */
+export interface PageStructurePreset extends PageStructureVersion {
+  id: string;
+  name: string;
+  history: PageStructureVersion[];
+}
+
+export interface CloudPageStructures {
+  defaultPresetId: string | null;
+  presets: PageStructurePreset[];
+  /** Release names offered for the {Release} placeholder, newest first */
+  releases?: string[];
+  /** Team text styles the generated Read Me page uses */
+  readMeStyles?: ReadMeTextStyles;
+}
+
+/** Earlier revisions kept per preset */
+const PAGE_STRUCTURE_HISTORY_LIMIT = 10;
+
+export const BUILT_IN_PAGE_STRUCTURE: PageStructurePreset = {
+  id: 'built-in',
+  name: 'Team Default',
+  version: 1,
+  sections: DEFAULT_SCAFFOLD_SECTIONS,
+  updatedAt: '',
+  updatedBy: null,
+  history: [],
+};
+
+/** A cloud's presets, or the built-in structure when it hasn't saved any */
+export function getCloudPageStructures(
+  structures: Record<string, CloudPageStructures>,
+  cloudId: string | null | undefined
+): CloudPageStructures {
+  const cloud = cloudId ? structures[cloudId] : undefined;
+  if (!cloud || cloud.presets.length === 0) {
+    return { defaultPresetId: BUILT_IN_PAGE_STRUCTURE.id, presets: [BUILT_IN_PAGE_STRUCTURE], releases: cloud?.releases, readMeStyles: cloud?.readMeStyles };
+  }
+  return cloud;
+}
+
+/** `preset` with `sections` as its next version; the replaced version moves into history */
+export function withPageStructureVersion(
+  preset: PageStructurePreset,
+  sections: ScaffoldSection[],
+  updatedBy: string | null
+): PageStructurePreset {
+  const { history, id, name, ...current } = preset;
+  return {
+    id,
+    name,
+    version: preset.version + 1,
+    sections,
+    updatedAt: new Date().toISOString(),
+    updatedBy,
+    history: [current, ...history].slice(0, PAGE_STRUCTURE_HISTORY_LIMIT),
+  };
+}
+
+/**
+ * Hook for page structure presets (shared team-wide, keyed by cloud id)
+ */
+export function usePageStructures() {
+  const [structures, setStructures] = useState<Record<string, CloudPageStructures>>({});
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    apiRequest<Record<string, CloudPageStructures>>('/api/page-structures')
+      .then(setStructures)
+      .catch(console.error)
+      .finally(() => setLoading(false));
+  }, []);
+
+  const save = useCallback(async (newStructures: Record<string, CloudPageStructures>) => {
+    setStructures(newStructures);
+    try {
+      await apiRequest('/api/page-structures', {
+        method: 'POST',
+        body: JSON.stringify({ structures: newStructures }),
+      });
+    } catch (error) {
+      console.error('✗ Failed to save page structures:', error);
+      showToast('Could not save page structure - try again', true);
+    }
+  }, []);
+
+  return { structures, setStructures: save, loading };
+}
+
 // ============================================================================
 // USER-SPECIFIC DATA HOOKS (Per Figma User)
 // ============================================================================
@@ -1342,6 +1545,43 @@ export function useHiddenClouds(figmaUserId: string | null) {
   return { hiddenClouds, setHiddenClouds: save, loading };
 }
 
+/**
+ * Hook for user's insert placement (where inserted templates land)
+ * @param figmaUserId - The Figma user ID
+ */
+export function useInsertPlacement(figmaUserId: string | null) {
+  const [placement, setPlacement] = useState<InsertPlacement>(DEFAULT_INSERT_PLACEMENT);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!figmaUserId) {
+      setLoading(false);
+      return;
+    }
+    apiRequest<{ placement: InsertPlacement | null }>(`/api/user/${figmaUserId}/insert-placement`)
+      .then(res => {
+        const loaded = { ...DEFAULT_INSERT_PLACEMENT, ...res.placement };
+        setPlacement(loaded);
+        // Quick inserts run without the UI, so they read the placement from clientStorage
+        saveToClientStorage('insert-placement', loaded);
+      })
+      .catch(console.error)
+      .finally(() => setLoading(false));
+  }, [figmaUserId]);
+
+  const save = useCallback(async (newPlacement: InsertPlacement) => {
+    setPlacement(newPlacement);
+    saveToClientStorage('insert-placement', newPlacement);
+    if (!figmaUserId) return;
+    await apiRequest(`/api/user/${figmaUserId}/insert-placement`, {
+      method: 'POST',
+      body: JSON.stringify({ placement: newPlacement }),
+    });
+  }, [figmaUserId]);
+
+  return { placement, setPlacement: save, loading };
+}
+
 // ============================================================================
 // COMBINED HOOK (All data in one place)
 // ============================================================================
@@ -0,0 +1,70 @@
+/**
+ * Variant Selection
+ *
+ * Component sets with more than one variant axis (Theme × Layout) are picked one axis
+ * at a time: each value the designer chooses narrows the variants, and values no
+ * remaining variant has are unavailable. A complete choice is sent as
+ * IMPORT_COMPONENT's variantSelection and matched against the set's children.
+ *
+ * Pure helpers - safe to import from both the UI and code.ts.
+ */
+
+import type { VariantAxis } from './protocol';
+
+/** Axis name -> chosen value; axes left out are unchosen */
+export type VariantSelection = Record<string, string>;
+
+/** Parse "Prop=Value, Other=Value" when variantProperties isn't available */
+export function parseVariantName(name: string): Record<string, string> {
+  const properties: Record<string, string> = {};
+  for (const part of name.split(',')) {
+    const eqIndex = part.indexOf('=');
+    if (eqIndex > 0) {
+      properties[part.substring(0, eqIndex).trim()] = part.substring(eqIndex + 1).trim();
+    }
+  }
+  return properties;
+}
+
+/** A variant's full property map; templates captured before it was stored parse the name */
+export function getVariantProperties(variant: { name: string; properties?: Record<string, string> }): Record<string, string> {
+  return variant.properties && Object.keys(variant.properties).length > 0
+    ? variant.properties
+    : parseVariantName(variant.name);
+}
+
+/** Whether a variant has every chosen value, ignoring `exceptAxis` */
+export function matchesSelection(
+  properties: Record<string, string>,
+  selection: VariantSelection,
+  exceptAxis?: string
+): boolean {
+  return Object.entries(selection).every(([axis, value]) => axis === exceptAxis || properties[axis] === value);
+}
+
+/**
+ * Whether choosing `value` on `axis` still leaves a variant, given the values chosen
+ * on the other axes. Switching a value on the same axis is always judged against the
+ * others, so a designer can move between values without clearing first.
+ */
+export function isOptionAvailable(
+  variants: { name: string; properties?: Record<string, string> }[],
+  selection: VariantSelection,
+  axis: string,
+  value: string
+): boolean {
+  return variants.some((variant) => {
+    const properties = getVariantProperties(variant);
+    return properties[axis] === value && matchesSelection(properties, selection, axis);
+  });
+}
+
+/** Whether every axis has a value, so the selection names exactly one variant */
+export function isCompleteSelection(selection: VariantSelection, axes: VariantAxis[]): boolean {
+  return axes.length > 0 && axes.every((axis) => !!selection[axis.name]);
+}
+
+/** "Dark / Title" - the chosen values in axis order */
+export function describeSelection(selection: VariantSelection, axes: VariantAxis[]): string {
+  return axes.map((axis) => selection[axis.name]).filter((value) => !!value).join(' / ');
+}